@@ -0,0 +1,10 @@
+const path = require('path');
+const base = require('../jest.config');
+
+// 基准测试：npm run bench，不统计覆盖率
+module.exports = Object.assign({}, base, {
+  rootDir: path.resolve(__dirname, '..'),
+  collectCoverage: false,
+  roots: ['<rootDir>/benchmark/'],
+  testMatch: ['<rootDir>/benchmark/**/*.bench.(js|ts)']
+});
@@ -0,0 +1,49 @@
+import Vector, { VectorArray, Matrix3 } from '../src/vector';
+
+/**
+ * Per-element `Vector` (base system) vs. batch `VectorArray`, run with `npm run bench`
+ */
+
+const COUNT = 100000;
+const ROUNDS = 5;
+
+// 返回每轮的平均耗时（毫秒）
+function measure(fn: () => void): number {
+  fn(); // 预热
+  const start = Date.now();
+  for (let i = 0; i < ROUNDS; i++) {
+    fn();
+  }
+  return (Date.now() - start) / ROUNDS;
+}
+
+const base = Vector.withSystem<number>('base');
+const vectors: Array<Vector<number>> = [];
+for (let i = 0; i < COUNT; i++) {
+  vectors.push(base.create(Math.random() * 100, Math.random() * 100));
+}
+const points = VectorArray.fromVectors(vectors);
+const offset = base.create(1.5, -2.5);
+const m = Matrix3.translation(1, 2, 'base').compose(Matrix3.rotation(0.3, 'base'));
+
+const cases: Array<[string, () => void, () => void]> = [
+  ['add', () => vectors.map(v => v.add(offset)), () => points.add(offset)],
+  ['rotate', () => vectors.map(v => v.rotate(0.3)), () => points.rotate(0.3)],
+  ['normalize', () => vectors.map(v => v.normalize()), () => points.normalize()],
+  ['dot', () => vectors.map(v => v.dotValue(offset)), () => points.dot(offset)],
+  ['lengths', () => vectors.map(v => v.lengthValue()), () => points.lengths()],
+  ['transform', () => vectors.map(v => v.transform(m)), () => points.transform(m)]
+];
+
+describe(`[Benchmark] VectorArray - ${COUNT} points`, () => {
+  test('批量运算与逐个 Vector 运算的耗时', () => {
+    const rows = cases.map(([name, single, batch]) => {
+      const a = measure(single);
+      const b = measure(batch);
+      return `${name}\tVector ${a.toFixed(1)}ms\tVectorArray ${b.toFixed(
+        1
+      )}ms\tx${(a / Math.max(b, 0.01)).toFixed(1)}`;
+    });
+    console.log(rows.join('\n'));
+  });
+});
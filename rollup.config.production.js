@@ -21,10 +21,12 @@ const getPlugin = function({ shouldMinified, isES6 }) {
 // 根据这些配置项生成具体的 rollup 配置项
 const compileConfig = function({
   fromDir,
+  entry = targetName,
   outputFileName,
   shouldMinified,
   format,
-  external
+  external,
+  paths
 }) {
   let outputFileArr = [outputFileName, 'js'];
   //
@@ -32,7 +34,7 @@ const compileConfig = function({
     outputFileArr.splice(1, 0, 'min');
   }
   return Object.assign(external ? {external: external} : {}, {
-    input: path.resolve(fromDir, `${targetName}.js`),
+    input: path.resolve(fromDir, `${entry}.js`),
     output: Object.assign(
       format === 'umd'
         ? {
@@ -40,6 +42,7 @@ const compileConfig = function({
             globals: capitalize(targetName)
           }
         : {},
+      paths ? { paths: paths } : {},
       {
         file: path.join(__dirname, 'dist', outputFileArr.join('.')),
         format
@@ -73,7 +76,7 @@ module.exports = [
   // `file` and `format` for each target)
   compileConfig({
     fromDir: '.build.cjs',
-    external: ['big.js'],
+    external: ['big.js', 'tslib'],
     outputFileName: path.parse(pkg.main).name,
     shouldMinified: false,
     format: 'cjs'
@@ -81,7 +84,7 @@ module.exports = [
   // minified
   compileConfig({
     fromDir: '.build.cjs',
-    external: ['big.js'],
+    external: ['big.js', 'tslib'],
     outputFileName: path.parse(pkg.main).name,
     shouldMinified: true,
     format: 'cjs'
@@ -90,7 +93,7 @@ module.exports = [
   // es
   compileConfig({
     fromDir: '.build.es',
-    external: ['big.js'],
+    external: ['big.js', 'tslib'],
     outputFileName: path.parse(pkg.module).name,
     shouldMinified: false,
     format: 'es'
@@ -98,9 +101,29 @@ module.exports = [
   // es, minified
   compileConfig({
     fromDir: '.build.es',
-    external: ['big.js'],
+    external: ['big.js', 'tslib'],
     outputFileName: path.parse(pkg.module).name,
     shouldMinified: true,
     format: 'es'
+  }),
+
+  // 一致性测试工具（maths-vector-ts/conformance），引用主文件而不是再打包一份 Vector
+  compileConfig({
+    fromDir: '.build.cjs',
+    entry: 'conformance',
+    external: ['big.js', 'tslib', path.resolve('.build.cjs', 'vector.js')],
+    paths: { [path.resolve('.build.cjs', 'vector.js')]: './vector.cjs.js' },
+    outputFileName: 'conformance.cjs',
+    shouldMinified: false,
+    format: 'cjs'
+  }),
+  compileConfig({
+    fromDir: '.build.es',
+    entry: 'conformance',
+    external: ['big.js', 'tslib', path.resolve('.build.es', 'vector.js')],
+    paths: { [path.resolve('.build.es', 'vector.js')]: './vector.esm.js' },
+    outputFileName: 'conformance.esm',
+    shouldMinified: false,
+    format: 'es'
   })
 ];
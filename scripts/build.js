@@ -43,9 +43,12 @@ function runTypeScriptBuild(outDir, target, declarations) {
   options.noEmitHelpers = true;
   if (declarations) options.declarationDir = path.resolve('.', 'dist');
 
-  const rootFile = path.resolve('src', `${targetName}.ts`);
+  // 一致性测试工具是单独的入口，不打包进主文件
+  const rootFiles = [targetName, 'conformance'].map(name =>
+    path.resolve('src', `${name}.ts`)
+  );
   const host = ts.createCompilerHost(options, true);
-  const prog = ts.createProgram([rootFile], options, host);
+  const prog = ts.createProgram(rootFiles, options, host);
   const result = prog.emit();
   if (result.emitSkipped) {
     const message = result.diagnostics
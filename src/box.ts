@@ -0,0 +1,231 @@
+import Vector, { VectorOperand } from './vector';
+import { IOperatorSystem, Uncertain } from './operator-system';
+import { VectorError } from './errors';
+import { systemOf, convertOperand, and3, atMost } from './util';
+
+/**
+ * Box - axis-aligned bounding box (AABB) given by its `min` and `max` corners.
+ *
+ * Boxes are closed: points on the border are inside, and boxes that only touch intersect.
+ * Every comparison is done by the operator system of the corners (mixed systems are resolved
+ * by `Vector.mixSystems`), so hit tests with big or rational coordinates are exact
+ */
+
+// 逐个坐标轴合并 a、b，op 为算术体系的 min 或 max
+function combine<T>(
+  a: Vector<T>,
+  b: Vector<T>,
+  op: (system: IOperatorSystem<any>) => (x, y) => any
+): Vector<T> {
+  const system = systemOf(a, b);
+  const fn = op(system);
+  const u = convertOperand(a, system);
+  const v = convertOperand(b, system);
+  return new Vector<T>(fn(u.x, v.x), fn(u.y, v.y), system);
+}
+
+export default class Box<T> {
+  min: Vector<T>;
+  max: Vector<T>;
+
+  static isBox<U>(box): box is Box<U> {
+    return box instanceof Box;
+  }
+
+  /**
+   * Creates the smallest box containing all the points
+   *
+   * @static
+   * @param {Vector[]} points
+   * @returns {Box}
+   * @throws {VectorError} when there is no point
+   * @memberof Box
+   * @example
+   *     Box.fromPoints([new Vector(1, 5), new Vector(3, 2), new Vector(-1, 4)]).toString();
+   *     // => Box(x:-1, y:2 -> x:3, y:5)
+   */
+  static fromPoints<U>(points: Array<Vector<U>>): Box<U> {
+    if (!points.length) {
+      throw new VectorError('Can not create a box from no points');
+    }
+    return new Box<U>(
+      points.reduce((min, vec) => combine(min, vec, system => system.min)),
+      points.reduce((max, vec) => combine(max, vec, system => system.max))
+    );
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Vector} min - The corner with the smallest x and y
+   * @param {Vector} max - The corner with the largest x and y
+   * @throws {VectorError} when `min` is larger than `max` on an axis
+   * @example
+   *     var box = new Box(new Vector(0, 0), new Vector(4, 2));
+   */
+  constructor(min: Vector<T>, max: Vector<T>) {
+    const system = systemOf(min, max);
+    const { compare } = system;
+    const lo = convertOperand(min, system);
+    const hi = convertOperand(max, system);
+    if (compare(lo.x, hi.x) > 0 || compare(lo.y, hi.y) > 0) {
+      throw new VectorError(
+        `The min corner (${min}) of a box can not exceed the max corner (${max})`
+      );
+    }
+    this.min = min;
+    this.max = max;
+  }
+
+  // 角点所在的算术体系
+  get operatorSystem(): IOperatorSystem<any> {
+    return systemOf(this.min, this.max);
+  }
+
+  // Returns the center
+  center(): Vector<T> {
+    return this.min.add(this.max).divide(2);
+  }
+
+  /**
+   * Returns the size as a vector, i.e. `(width, height)`
+   *
+   * @returns {Vector}
+   * @memberof Box
+   */
+  size(): Vector<T> {
+    return this.max.subtract(this.min);
+  }
+
+  /**
+   * Returns the smallest box containing both boxes
+   *
+   * @param {Box} box
+   * @returns {Box}
+   * @memberof Box
+   */
+  union(box: Box<T>): Box<T> {
+    return new Box<T>(
+      combine(this.min, box.min, system => system.min),
+      combine(this.max, box.max, system => system.max)
+    );
+  }
+
+  /**
+   * Returns the overlapping part of the two boxes. Boxes that only touch give
+   * a box without width or height
+   *
+   * @param {Box} box
+   * @returns {(Box|null)} - null when the boxes surely do not intersect
+   * @memberof Box
+   * @example
+   *     var a = new Box(new Vector(0, 0), new Vector(4, 2));
+   *     a.intersection(new Box(new Vector(3, 1), new Vector(5, 5))).toString();
+   *     // => Box(x:3, y:1 -> x:4, y:2)
+   */
+  intersection(box: Box<T>): Box<T> | null {
+    if (this.intersects(box) === false) {
+      return null;
+    }
+    return new Box<T>(
+      combine(this.min, box.min, system => system.max),
+      combine(this.max, box.max, system => system.min)
+    );
+  }
+
+  /**
+   * Returns true if the point or the whole box is inside this box, borders included.
+   * `'overlap'` when an interval system can not decide
+   *
+   * @param {(Vector|Box)} target
+   * @returns {(Boolean|String)}
+   * @memberof Box
+   */
+  contains(target: Vector<T> | Box<T>): boolean | Uncertain {
+    if (Box.isBox<T>(target)) {
+      return and3(this.contains(target.min), this.contains(target.max));
+    }
+    const system = systemOf(this.min, this.max, target);
+    const [min, max, point] = [this.min, this.max, target].map(vec =>
+      convertOperand(vec, system)
+    );
+    return and3(
+      atMost(system, min.x, point.x),
+      atMost(system, min.y, point.y),
+      atMost(system, point.x, max.x),
+      atMost(system, point.y, max.y)
+    );
+  }
+
+  // Returns true if the boxes overlap or touch, `'overlap'` when an interval system can not decide
+  intersects(box: Box<T>): boolean | Uncertain {
+    const system = systemOf(this.min, this.max, box.min, box.max);
+    const [aMin, aMax, bMin, bMax] = [this.min, this.max, box.min, box.max].map(
+      vec => convertOperand(vec, system)
+    );
+    return and3(
+      atMost(system, aMin.x, bMax.x),
+      atMost(system, bMin.x, aMax.x),
+      atMost(system, aMin.y, bMax.y),
+      atMost(system, bMin.y, aMax.y)
+    );
+  }
+
+  /**
+   * Grows the box by `margin` on every side, or by `margin.x` and `margin.y` on each axis.
+   * A negative margin shrinks it
+   *
+   * @param {(Vector|Number)} margin
+   * @returns {Box}
+   * @throws {VectorError} when shrinking more than the box size
+   * @memberof Box
+   * @example
+   *     new Box(new Vector(0, 0), new Vector(4, 2)).expand(1).toString();
+   *     // => Box(x:-1, y:-1 -> x:5, y:3)
+   */
+  expand(margin: VectorOperand<T>): Box<T> {
+    return new Box<T>(this.min.subtract(margin), this.max.add(margin));
+  }
+
+  /**
+   * Returns the point of the box closest to `point`, i.e. `point` clamped on each axis
+   *
+   * @param {Vector} point
+   * @returns {Vector}
+   * @memberof Box
+   * @example
+   *     new Box(new Vector(0, 0), new Vector(4, 2)).clamp(new Vector(5, 1)).toString();
+   *     // => x:4, y:1
+   */
+  clamp(point: Vector<T>): Vector<T> {
+    return combine(
+      combine(point, this.min, system => system.max),
+      this.max,
+      system => system.min
+    );
+  }
+
+  /**
+   * Returns the distance from `point` to the box, 0 inside the box
+   *
+   * @param {Vector} point
+   * @returns {String}
+   * @memberof Box
+   */
+  distanceTo(point: Vector<T>): string {
+    return point.distance(this.clamp(point));
+  }
+
+  /**
+   * Returns an string representation of the box
+   *
+   * @returns {String}
+   * @memberof Box
+   * @example
+   *     new Box(new Vector(0, 0), new Vector(4, 2)).toString();
+   *     // => Box(x:0, y:0 -> x:4, y:2)
+   */
+  toString(): string {
+    return `Box(${this.min} -> ${this.max})`;
+  }
+}
@@ -0,0 +1,314 @@
+import Vector from './vector';
+import { IOperatorSystem, Operand } from './operator-system/types';
+
+/**
+ * Conformance kit for custom `IOperatorSystem` implementations.
+ *
+ * It is a separate entry point (`maths-vector-ts/conformance`), so the test code is not
+ * part of the main bundle.
+ *
+ * It registers test suites through the `describe` / `it` of the running test framework
+ * (jest, mocha, jasmine...) and only throws plain errors, so no assertion library is needed.
+ */
+
+export interface IConformanceOptions {
+  // 允许的误差，默认 1e-9；与浮点参考值比较时作为相对误差
+  tolerance?: number;
+  // 参与代数性质检查的样本值
+  samples?: number[];
+  // 是否检查 sqrt(2)、三角函数等无理数结果，精确体系（如默认的有理数体系）应设置为 false
+  irrational?: boolean;
+  // 测试框架的 describe / it，默认取全局变量
+  describe?: (name: string, fn: () => void) => void;
+  it?: (name: string, fn: () => void) => void;
+}
+
+const DEFAULT_SAMPLES = [0, 1, -1, 2, 0.5, -3.25, 10, 123.5];
+// 浮点参考值本身只有双精度，误差下限不能再小
+const FLOAT_TOLERANCE = 1e-12;
+
+// 测试框架的全局函数
+declare const describe: any;
+declare const it: any;
+
+/**
+ * Runs the conformance suites against the given operator system: algebraic laws,
+ * `create` on numbers and strings, ordering, trigonometry, the optional `exp` / `ln` and
+ * the full `Vector` API
+ *
+ * @export
+ * @param {IOperatorSystem} system - The operator system under test
+ * @param {IConformanceOptions} [options={}]
+ * @example
+ *     // decimal.test.ts
+ *     import { runOperatorSystemConformance } from 'maths-vector-ts/conformance';
+ *     runOperatorSystemConformance(DecimalOperatorSystem, { tolerance: 1e-12 });
+ */
+export function runOperatorSystemConformance<T>(
+  system: IOperatorSystem<T>,
+  options: IConformanceOptions = {}
+) {
+  const {
+    tolerance = 1e-9,
+    samples = DEFAULT_SAMPLES,
+    irrational = true,
+    describe: suite = describe,
+    it: check = it
+  } = options;
+  const s: IOperatorSystem<any> = system;
+  const { create, plus, minus, multiply, divide, sqrt, abs, compare } = s;
+
+  // 转换成 JS 数值，用于和浮点参考值比较
+  const toNumber = (x: Operand<any>): number =>
+    Number(s.toDecimal ? s.toDecimal(x) : x.toString());
+
+  const fail = (message: string) => {
+    throw new Error(`[${system.name}] ${message}`);
+  };
+
+  // 用被测体系自身的运算判断两个值是否在误差范围内
+  const assertClose = (actual, expected, message: string) => {
+    const diff = abs(minus(actual, expected));
+    if (!(compare(diff, tolerance) <= 0)) {
+      fail(`${message}: expected ${expected}, received ${actual}`);
+    }
+  };
+
+  // 与浮点参考值比较，使用相对误差
+  const assertNumber = (actual, expected: number, message: string) => {
+    const value = toNumber(actual);
+    const bound =
+      Math.max(tolerance, FLOAT_TOLERANCE) * Math.max(1, Math.abs(expected));
+    if (!(Math.abs(value - expected) <= bound)) {
+      fail(`${message}: expected ${expected}, received ${actual}`);
+    }
+  };
+
+  const assert = (condition: boolean, message: string) => {
+    if (!condition) {
+      fail(message);
+    }
+  };
+
+  const pairs: Array<[number, number]> = [];
+  samples.forEach(a => samples.forEach(b => pairs.push([a, b])));
+
+  const factory = Vector.withSystem<T>(system);
+  const vec = (x: Operand<T>, y: Operand<T>) => factory.create(x, y);
+
+  suite(`[Conformance] ${system.name} - IOperatorSystem`, () => {
+    check('create 支持数值和字符串，并能从自身的字符串形式还原', () => {
+      samples.forEach(a => {
+        assertNumber(create(a), a, `create(${a})`);
+        assertNumber(create(String(a)), a, `create('${a}')`);
+        const value = create(a);
+        assertClose(
+          create(value.toString()),
+          value,
+          `create(${value}) round trip`
+        );
+      });
+    });
+
+    check('加法：交换律、结合律、单位元', () => {
+      pairs.forEach(([a, b]) => {
+        assertNumber(plus(a, b), a + b, `plus(${a}, ${b})`);
+        assertClose(plus(a, b), plus(b, a), `plus(${a}, ${b}) commutative`);
+        assertClose(
+          plus(plus(a, b), 1),
+          plus(a, plus(b, 1)),
+          `plus(${a}, ${b}) associative`
+        );
+      });
+      samples.forEach(a => {
+        assertClose(plus(a, 0), create(a), `plus(${a}, 0)`);
+        assertClose(minus(a, a), create(0), `minus(${a}, ${a})`);
+      });
+    });
+
+    check('乘法：交换律、单位元、零元、分配律', () => {
+      pairs.forEach(([a, b]) => {
+        assertNumber(multiply(a, b), a * b, `multiply(${a}, ${b})`);
+        assertClose(
+          multiply(a, b),
+          multiply(b, a),
+          `multiply(${a}, ${b}) commutative`
+        );
+        assertClose(
+          multiply(a, plus(b, 2)),
+          plus(multiply(a, b), multiply(a, 2)),
+          `multiply(${a}, ${b}) distributive`
+        );
+      });
+      samples.forEach(a => {
+        assertClose(multiply(a, 1), create(a), `multiply(${a}, 1)`);
+        assertClose(multiply(a, 0), create(0), `multiply(${a}, 0)`);
+      });
+    });
+
+    check('除法是乘法的逆运算', () => {
+      pairs
+        .filter(([, b]) => b !== 0)
+        .forEach(([a, b]) => {
+          assertNumber(divide(a, b), a / b, `divide(${a}, ${b})`);
+          assertClose(
+            divide(multiply(a, b), b),
+            create(a),
+            `divide(multiply(${a}, ${b}), ${b})`
+          );
+        });
+    });
+
+    check('sqrt 与 abs', () => {
+      samples.forEach(a => {
+        assertClose(abs(-a), abs(a), `abs(-${a})`);
+        assertNumber(abs(a), Math.abs(a), `abs(${a})`);
+        assert(s.sign(abs(a)) >= 0, `sign(abs(${a})) >= 0`);
+        assertClose(sqrt(multiply(a, a)), abs(a), `sqrt(${a} * ${a})`);
+      });
+      assertClose(sqrt(4), create(2), 'sqrt(4)');
+      if (irrational) {
+        assertNumber(sqrt(2), Math.SQRT2, 'sqrt(2)');
+      }
+    });
+
+    check('比较：equal、compare、lt、gt、sign、min、max', () => {
+      pairs.forEach(([a, b]) => {
+        const expected = a < b ? -1 : a > b ? 1 : 0;
+        assert(compare(a, b) === expected, `compare(${a}, ${b})`);
+        assert(s.lt(a, b) === a < b, `lt(${a}, ${b})`);
+        assert(s.gt(a, b) === a > b, `gt(${a}, ${b})`);
+        assert(s.equal(a, b) === (a === b), `equal(${a}, ${b})`);
+        assertNumber(s.min(a, b), Math.min(a, b), `min(${a}, ${b})`);
+        assertNumber(s.max(a, b), Math.max(a, b), `max(${a}, ${b})`);
+      });
+      samples.forEach(a => {
+        assert(s.sign(a) === Math.sign(a), `sign(${a})`);
+      });
+    });
+
+    if (irrational) {
+      check('三角函数与 pi', () => {
+        assertNumber(s.pi, Math.PI, 'pi');
+        samples.forEach(a => {
+          assertNumber(s.sin(a), Math.sin(a), `sin(${a})`);
+          assertNumber(s.cos(a), Math.cos(a), `cos(${a})`);
+          assertClose(
+            plus(multiply(s.sin(a), s.sin(a)), multiply(s.cos(a), s.cos(a))),
+            create(1),
+            `sin^2(${a}) + cos^2(${a})`
+          );
+        });
+        pairs.forEach(([a, b]) => {
+          assertNumber(s.atan2(a, b), Math.atan2(a, b), `atan2(${a}, ${b})`);
+        });
+        [-1, -0.5, 0, 0.5, 1].forEach(a => {
+          assertNumber(s.acos(a), Math.acos(a), `acos(${a})`);
+        });
+      });
+    }
+
+    // exp、ln 是可选的，实现了才检查
+    const { exp, ln } = s;
+    if (irrational && exp && ln) {
+      check('exp 与 ln', () => {
+        samples.forEach(a => {
+          assertNumber(exp(a), Math.exp(a), `exp(${a})`);
+        });
+        samples
+          .filter(a => a > 0)
+          .forEach(a => {
+            assertNumber(ln(a), Math.log(a), `ln(${a})`);
+          });
+        assertClose(exp(0), create(1), 'exp(0)');
+        assertClose(ln(1), create(0), 'ln(1)');
+      });
+    }
+  });
+
+  suite(`[Conformance] ${system.name} - Vector`, () => {
+    check('派生向量保持算术体系', () => {
+      const a = vec(1, 2);
+      assert(a.operatorSystem === system, 'factory binds the system');
+      assert(
+        a.add(vec(3, 4)).subtract(1).multiply(2).divide(2).operatorSystem ===
+          system,
+        'derived vectors keep the system'
+      );
+    });
+
+    check('加减乘除', () => {
+      pairs.forEach(([a, b]) => {
+        const u = vec(a, b);
+        const v = vec(b, 2);
+        assertNumber(u.add(v).x, a + b, `(${a}, ${b}).add x`);
+        assertNumber(u.add(v).y, b + 2, `(${a}, ${b}).add y`);
+        assertNumber(u.subtract(v).y, b - 2, `(${a}, ${b}).subtract y`);
+        assertNumber(u.multiply(v).x, a * b, `(${a}, ${b}).multiply x`);
+        assertNumber(u.divide(2).y, b / 2, `(${a}, ${b}).divide y`);
+        assertNumber(u.invert().x, -a, `(${a}, ${b}).invert x`);
+      });
+    });
+
+    check('点积、叉积、长度、距离', () => {
+      pairs.forEach(([a, b]) => {
+        const u = vec(a, b);
+        const v = vec(b, -2);
+        assertNumber(u.dot(v), a * b - 2 * b, `(${a}, ${b}).dot`);
+        assertNumber(u.cross(v), -2 * a - b * b, `(${a}, ${b}).cross`);
+        assertNumber(u.lengthSq, a * a + b * b, `(${a}, ${b}).lengthSq`);
+        assertNumber(
+          u.distanceSq(v),
+          (a - b) * (a - b) + (b + 2) * (b + 2),
+          `(${a}, ${b}).distanceSq`
+        );
+        assertNumber(
+          u.absDistanceX(v),
+          Math.abs(a - b),
+          `(${a}, ${b}).absDistanceX`
+        );
+      });
+      assertNumber(vec(3, 4).length, 5, '(3, 4).length');
+      assertNumber(vec(0, 0).distance(vec(6, 8)), 10, 'distance');
+    });
+
+    check('投影与比较', () => {
+      const p = vec(1, 0).projectOnto(vec(1, 1));
+      assertNumber(p.x, 0.5, 'projectOnto x');
+      assertNumber(p.y, 0.5, 'projectOnto y');
+      assert(vec(0, 0).isZero() === true, 'isZero');
+      assert(vec(1, 2).isEqualTo(vec(1, 2)) === true, 'isEqualTo');
+      assert(vec(1, 2).isEqualTo(vec(2, 1)) === false, 'not isEqualTo');
+      assert(vec(1, 2).isParallelTo(vec(-2, -4)) === true, 'isParallelTo');
+      assert(
+        vec(1, 2).isPerpendicularTo(vec(-2, 1)) === true,
+        'isPerpendicularTo'
+      );
+      assert(vec(3, 4).compareLength(vec(0, 6)) === -1, 'compareLength');
+      const copy = Vector.fromArray<T>(vec(1, 2).toArray());
+      assert(
+        copy.config({ system }).isEqualTo(vec(1, 2)) === true,
+        'toArray round trip'
+      );
+    });
+
+    if (irrational) {
+      check('角度、旋转与单位化', () => {
+        assertNumber(vec(1, 1).angle, Math.PI / 4, 'angle');
+        assertNumber(vec(1, 1).angleDegree, 45, 'angleDegree');
+        assertNumber(vec(0, 1).verticalAngle, 0, 'verticalAngle');
+        assertNumber(
+          vec(1, 0).angleBetween(vec(1, 1)),
+          Math.PI / 4,
+          'angleBetween'
+        );
+        const r = vec(2, 0).rotateDegree(90);
+        assertNumber(r.x, 0, 'rotateDegree x');
+        assertNumber(r.y, 2, 'rotateDegree y');
+        const n = vec(3, 4).normalize();
+        assertNumber(n.x, 0.6, 'normalize x');
+        assertNumber(n.length, 1, 'normalize length');
+      });
+    }
+  });
+}
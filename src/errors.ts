@@ -0,0 +1,165 @@
+/**
+ * Base class of all errors thrown by this library
+ *
+ * 编译目标为 ES5 时继承 Error 会丢失原型链，需要手动修正，否则 instanceof 判断会失效
+ *
+ * @export
+ * @class VectorError
+ */
+export class VectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'VectorError';
+  }
+}
+
+/**
+ * Thrown when an exact operator system is asked for a result it cannot represent,
+ * e.g. the square root of 2 in the rational system
+ *
+ * @export
+ * @class IrrationalResultError
+ */
+export class IrrationalResultError extends VectorError {
+  operation: string;
+  constructor(operation: string, operand: string) {
+    super(`The result of ${operation}(${operand}) is irrational`);
+    this.name = 'IrrationalResultError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when an operation is undefined for the operand, e.g. dividing by zero
+ * or the square root of a negative number in the rational system
+ *
+ * @export
+ * @class UndefinedResultError
+ */
+export class UndefinedResultError extends VectorError {
+  operation: string;
+  constructor(operation: string, operand: string) {
+    super(`The result of ${operation}(${operand}) is undefined`);
+    this.name = 'UndefinedResultError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when an operator system cannot parse the given operand
+ *
+ * @export
+ * @class InvalidOperandError
+ */
+export class InvalidOperandError extends VectorError {
+  constructor(system: string, operand: any) {
+    super(`${system} can not create operand from: ${operand}`);
+    this.name = 'InvalidOperandError';
+  }
+}
+
+/**
+ * Thrown when an operator system name is not registered
+ *
+ * @export
+ * @class UnknownSystemError
+ */
+export class UnknownSystemError extends VectorError {
+  constructor(name: string, registered: string[]) {
+    super(
+      `Unknown operator system "${name}", registered systems: ${registered.join(
+        ', '
+      )}`
+    );
+    this.name = 'UnknownSystemError';
+  }
+}
+
+/**
+ * Thrown when registering an object that does not implement `IOperatorSystem`
+ *
+ * @export
+ * @class InvalidSystemError
+ */
+export class InvalidSystemError extends VectorError {
+  missing: string[];
+  constructor(name: string, missing: string[]) {
+    super(
+      `Operator system "${name}" is missing required members: ${missing.join(
+        ', '
+      )}`
+    );
+    this.name = 'InvalidSystemError';
+    this.missing = missing;
+  }
+}
+
+/**
+ * Thrown when vectors of different operator systems meet and `Vector.MIXED_POLICY` is `'throw'`
+ *
+ * @export
+ * @class MixedSystemError
+ */
+export class MixedSystemError extends VectorError {
+  constructor(a: string, b: string) {
+    super(`Can not operate on vectors of different operator systems: ${a}, ${b}`);
+    this.name = 'MixedSystemError';
+  }
+}
+
+/**
+ * Thrown when two vectors of different dimensions meet in a binary method
+ *
+ * @export
+ * @class DimensionMismatchError
+ */
+export class DimensionMismatchError extends VectorError {
+  expected: number;
+  actual: number;
+  constructor(expected: number, actual: number) {
+    super(`Dimension mismatch: expected ${expected}, received ${actual}`);
+    this.name = 'DimensionMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Thrown when inverting a matrix whose determinant is 0
+ *
+ * @export
+ * @class SingularMatrixError
+ */
+export class SingularMatrixError extends VectorError {
+  constructor() {
+    super('Matrix is singular and can not be inverted');
+    this.name = 'SingularMatrixError';
+  }
+}
+
+/**
+ * Thrown when the operator system does not implement an optional operation, e.g. `exp`
+ *
+ * @export
+ * @class UnsupportedOperationError
+ */
+export class UnsupportedOperationError extends VectorError {
+  constructor(system: string, operation: string) {
+    super(`${system} does not support ${operation}`);
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
+/**
+ * Thrown when setting an axis of a frozen vector, see `Vector#freeze`
+ *
+ * @export
+ * @class FrozenVectorError
+ */
+export class FrozenVectorError extends VectorError {
+  constructor() {
+    super('Cannot modify a frozen vector');
+    this.name = 'FrozenVectorError';
+  }
+}
@@ -0,0 +1,400 @@
+import Vector from './vector';
+import { IOperatorSystem } from './operator-system';
+import { VectorError } from './errors';
+import { systemOf, convertOperand } from './util';
+
+/**
+ * Line / Ray / Segment - straight-line primitives whose points are `Vector`s.
+ *
+ * All three are written as `p + t·d`: `t` is unbounded for a line, `t >= 0` for a ray and
+ * `0 <= t <= 1` for a segment. Every decision (which side, parallel, inside the range) is the
+ * sign of a `cross` or `dot` product, so it is exact under big and rational; an intersection
+ * point costs one division per axis. Mixed operator systems are resolved by `Vector.mixSystems`
+ */
+
+/**
+ * Result of `intersect`: the crossing point, the overlapping part of two collinear shapes
+ * (a point, `Segment`, `Ray` or `Line`), or null
+ */
+export type Intersection<T> = Vector<T> | LinearShape<T> | null;
+
+// 参数形式 p + t·d，hasStart 表示 t >= 0，end 为 t = 1 处的端点（没有上界时为 null）
+interface IParametric<T> {
+  p: Vector<T>;
+  d: Vector<T>;
+  hasStart: boolean;
+  end: Vector<T> | null;
+}
+
+// 共线时重叠部分的一端，at 为端点在 a 上的参数乘以 |a.d|²
+interface IBound<T> {
+  at: string;
+  point: Vector<T>;
+}
+
+// num / den 是否在参数范围内，不做除法
+function withinRange(
+  system: IOperatorSystem<any>,
+  shape: IParametric<any>,
+  num: string,
+  den: string
+): boolean {
+  const { compare, minus } = system;
+  if (compare(den, 0) < 0) {
+    num = minus(0, num).toString();
+    den = minus(0, den).toString();
+  }
+  return (
+    (!shape.hasStart || compare(num, 0) >= 0) &&
+    (!shape.end || compare(num, den) <= 0)
+  );
+}
+
+// 参数形式中的向量都转换到 system，混合体系时 lengthSq 等结果才能直接比较
+function alignShape<T>(
+  shape: IParametric<T>,
+  system: IOperatorSystem<any>
+): IParametric<T> {
+  const { p, d, hasStart, end } = shape;
+  return {
+    p: convertOperand(p, system),
+    d: convertOperand(d, system),
+    hasStart,
+    end: end && convertOperand(end, system)
+  };
+}
+
+function containsPoint<T>(shape: IParametric<T>, v: Vector<T>): boolean {
+  const system = systemOf(shape.p, shape.d, v);
+  const { p, d } = alignShape(shape, system);
+  const w = v.subtract(p);
+  // 退化为点的线段
+  if (d.isZero() === true) {
+    return w.isZero() === true;
+  }
+  return (
+    system.compare(d.cross(w), 0) === 0 &&
+    withinRange(system, shape, d.dot(w), d.lengthSq)
+  );
+}
+
+function closestPoint<T>(shape: IParametric<T>, v: Vector<T>): Vector<T> {
+  const system = systemOf(shape.p, shape.d, v);
+  const { p, d, end } = alignShape(shape, system);
+  const { compare } = system;
+  const lengthSq = d.lengthSq;
+  if (compare(lengthSq, 0) === 0) {
+    return p;
+  }
+  const s = d.dot(v.subtract(p));
+  if (shape.hasStart && compare(s, 0) <= 0) {
+    return p;
+  }
+  if (end && compare(s, lengthSq) >= 0) {
+    return end;
+  }
+  return p.add(d.multiply(s).divide(lengthSq));
+}
+
+// 共线的 a、b 的重叠部分，沿 a 的方向
+function overlap<T>(
+  system: IOperatorSystem<any>,
+  a: IParametric<T>,
+  b: IParametric<T>
+): Intersection<T> {
+  const { compare } = system;
+  const bound = (point: Vector<T>): IBound<T> => ({
+    at: a.d.dot(point.subtract(a.p)),
+    point
+  });
+  let lo: IBound<T> | null = a.hasStart ? { at: '0', point: a.p } : null;
+  let hi: IBound<T> | null = a.end ? { at: a.d.lengthSq, point: a.end } : null;
+  // b 的两端换算成 a 的参数，方向相反时交换
+  const bStart = b.hasStart ? bound(b.p) : null;
+  const bEnd = b.end ? bound(b.end) : null;
+  const [bLo, bHi] =
+    compare(a.d.dot(b.d), 0) > 0 ? [bStart, bEnd] : [bEnd, bStart];
+  if (bLo && (!lo || compare(bLo.at, lo.at) > 0)) {
+    lo = bLo;
+  }
+  if (bHi && (!hi || compare(bHi.at, hi.at) < 0)) {
+    hi = bHi;
+  }
+  if (lo && hi) {
+    const order = compare(lo.at, hi.at);
+    if (order > 0) {
+      return null;
+    }
+    return order === 0 ? lo.point : new Segment(lo.point, hi.point);
+  }
+  if (lo) {
+    return new Ray(lo.point, a.d);
+  }
+  if (hi) {
+    return new Ray(hi.point, a.d.invert());
+  }
+  return new Line(a.p, a.d);
+}
+
+function intersect<T>(a: IParametric<T>, b: IParametric<T>): Intersection<T> {
+  // 退化为点的线段
+  if (a.d.isZero() === true) {
+    return containsPoint(b, a.p) ? a.p : null;
+  }
+  if (b.d.isZero() === true) {
+    return containsPoint(a, b.p) ? b.p : null;
+  }
+  const system = systemOf(a.p, a.d, b.p, b.d);
+  const { compare } = system;
+  a = alignShape(a, system);
+  b = alignShape(b, system);
+  const w = b.p.subtract(a.p);
+  const den = a.d.cross(b.d);
+  if (compare(den, 0) !== 0) {
+    // a.p + t·a.d = b.p + u·b.d
+    const t = w.cross(b.d);
+    const u = w.cross(a.d);
+    if (!withinRange(system, a, t, den) || !withinRange(system, b, u, den)) {
+      return null;
+    }
+    return a.p.add(a.d.multiply(t).divide(den));
+  }
+  // 平行但不共线
+  if (compare(w.cross(a.d), 0) !== 0) {
+    return null;
+  }
+  return overlap(system, a, b);
+}
+
+function assertDirection(direction: Vector<any>, name: string) {
+  if (direction.isZero() === true) {
+    throw new VectorError(`The direction of a ${name} can not be zero`);
+  }
+}
+
+/**
+ * Methods shared by `Line`, `Ray` and `Segment`
+ */
+export abstract class LinearShape<T> {
+  // Returns the length, `'Infinity'` for lines and rays
+  abstract get length(): string;
+
+  /**
+   * Returns the point `p + t·d`, where `t` is 0 at the start and 1 at the end of a segment
+   *
+   * @param {Number} t
+   * @returns {Vector}
+   * @memberof LinearShape
+   */
+  pointAt(t): Vector<T> {
+    const { p, d } = this.parametric();
+    return p.add(d.multiply(t));
+  }
+
+  /**
+   * Intersects with another line, ray or segment
+   *
+   * @param {LinearShape} other
+   * @returns {Intersection} - The crossing point; for collinear shapes the overlapping part
+   * along this shape (a point when they only touch, or a `Segment`, `Ray` or `Line`);
+   * null when they do not meet
+   * @memberof LinearShape
+   * @example
+   *     var a = new Segment(new Vector(0, 0), new Vector(2, 2));
+   *     a.intersect(new Segment(new Vector(0, 2), new Vector(2, 0))).toString();
+   *     // => x:1, y:1
+   *
+   *     a.intersect(new Segment(new Vector(1, 1), new Vector(3, 3))).toString();
+   *     // => Segment(x:1, y:1 -> x:2, y:2)
+   */
+  intersect(other: LinearShape<T>): Intersection<T> {
+    return intersect(this.parametric(), other.parametric());
+  }
+
+  // Returns true if the point lies on this shape
+  contains(v: Vector<T>): boolean {
+    return containsPoint(this.parametric(), v);
+  }
+
+  /**
+   * Returns the point of this shape closest to `v`
+   *
+   * @param {Vector} v
+   * @returns {Vector}
+   * @memberof LinearShape
+   * @example
+   *     new Segment(new Vector(0, 0), new Vector(4, 0)).closestPoint(new Vector(1, 3)).toString();
+   *     // => x:1, y:0
+   */
+  closestPoint(v: Vector<T>): Vector<T> {
+    return closestPoint(this.parametric(), v);
+  }
+
+  /**
+   * Returns the distance from `v` to this shape
+   *
+   * @param {Vector} v
+   * @returns {String}
+   * @memberof LinearShape
+   */
+  distanceTo(v: Vector<T>): string {
+    return v.distance(this.closestPoint(v));
+  }
+
+  /**
+   * Tells on which side of the (extended) line the point is, looking along the direction
+   *
+   * @param {Vector} v
+   * @returns {Number} - 1 on the left (CCW), -1 on the right, 0 on the line;
+   * NaN when an interval system can not decide
+   * @memberof LinearShape
+   * @example
+   *     Line.through(new Vector(0, 0), new Vector(1, 0)).side(new Vector(5, 2));
+   *     // => 1
+   */
+  side(v: Vector<T>): number {
+    const { p, d } = this.parametric();
+    const { compare } = systemOf(p, d, v);
+    return compare(d.cross(v.subtract(p)), 0);
+  }
+
+  protected abstract parametric(): IParametric<T>;
+}
+
+/**
+ * Line - the infinite line through `point` along `direction`
+ */
+export class Line<T> extends LinearShape<T> {
+  point: Vector<T>;
+  direction: Vector<T>;
+
+  /**
+   * Creates the line through two points
+   *
+   * @static
+   * @param {Vector} a
+   * @param {Vector} b
+   * @returns {Line}
+   * @throws {VectorError} when the points are the same
+   * @memberof Line
+   */
+  static through<U>(a: Vector<U>, b: Vector<U>): Line<U> {
+    return new Line<U>(a, b.subtract(a));
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Vector} point - Any point on the line
+   * @param {Vector} direction - Must not be zero
+   * @throws {VectorError} when the direction is zero
+   */
+  constructor(point: Vector<T>, direction: Vector<T>) {
+    super();
+    assertDirection(direction, 'line');
+    this.point = point;
+    this.direction = direction;
+  }
+
+  get length(): string {
+    return 'Infinity';
+  }
+
+  toString(): string {
+    return `Line(${this.point} + t(${this.direction}))`;
+  }
+
+  protected parametric(): IParametric<T> {
+    return { p: this.point, d: this.direction, hasStart: false, end: null };
+  }
+}
+
+/**
+ * Ray - the half-line starting at `origin` along `direction`
+ */
+export class Ray<T> extends LinearShape<T> {
+  origin: Vector<T>;
+  direction: Vector<T>;
+
+  /**
+   * Creates the ray from `origin` through `point`
+   *
+   * @static
+   * @param {Vector} origin
+   * @param {Vector} point
+   * @returns {Ray}
+   * @throws {VectorError} when the points are the same
+   * @memberof Ray
+   */
+  static through<U>(origin: Vector<U>, point: Vector<U>): Ray<U> {
+    return new Ray<U>(origin, point.subtract(origin));
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Vector} origin
+   * @param {Vector} direction - Must not be zero
+   * @throws {VectorError} when the direction is zero
+   */
+  constructor(origin: Vector<T>, direction: Vector<T>) {
+    super();
+    assertDirection(direction, 'ray');
+    this.origin = origin;
+    this.direction = direction;
+  }
+
+  get length(): string {
+    return 'Infinity';
+  }
+
+  toString(): string {
+    return `Ray(${this.origin} + t(${this.direction}))`;
+  }
+
+  protected parametric(): IParametric<T> {
+    return { p: this.origin, d: this.direction, hasStart: true, end: null };
+  }
+}
+
+/**
+ * Segment - the segment from `start` to `end`, the two points may be the same
+ */
+export class Segment<T> extends LinearShape<T> {
+  start: Vector<T>;
+  end: Vector<T>;
+
+  /**
+   * Constructor
+   *
+   * @param {Vector} start
+   * @param {Vector} end
+   */
+  constructor(start: Vector<T>, end: Vector<T>) {
+    super();
+    this.start = start;
+    this.end = end;
+  }
+
+  // Returns `end - start`
+  get direction(): Vector<T> {
+    return this.end.subtract(this.start);
+  }
+
+  get length(): string {
+    return this.start.distance(this.end);
+  }
+
+  toString(): string {
+    return `Segment(${this.start} -> ${this.end})`;
+  }
+
+  protected parametric(): IParametric<T> {
+    return {
+      p: this.start,
+      d: this.direction,
+      hasStart: true,
+      end: this.end
+    };
+  }
+}
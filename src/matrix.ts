@@ -0,0 +1,1139 @@
+import Vector, { ITolerance, SystemOption } from './vector';
+import Vector3 from './vector3';
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  resolveSystem
+} from './operator-system';
+import {
+  and3,
+  isClose,
+  degree2radian,
+  systemOf,
+  bindSystem,
+  convertValues,
+  alignOperands
+} from './util';
+import { SingularMatrixError } from './errors';
+
+/**
+ * Matrix2 / Matrix3 - 2x2 linear and 3x3 homogeneous (2D affine) transforms,
+ * every element is computed by the operator system, so composing and inverting
+ * transforms keeps the precision of the system (exact under rational, 20 decimal
+ * places under big). RotationMatrix3 is the 3x3 linear rotation of 3D space
+ * (`Quaternion#toMatrix`), it is not a 2D affine transform
+ *
+ * Elements are stored row-major, transforms act on column vectors: `v' = M v`
+ */
+
+type Elements<T> = Array<Operand<T>>;
+
+/**
+ * Result of `Matrix2#eigen`
+ */
+export interface IEigenDecomposition<T> {
+  // 特征值，从大到小
+  values: [string, string];
+  // 与特征值一一对应的单位特征向量
+  vectors: [Vector<T>, Vector<T>];
+}
+
+/**
+ * Result of `Matrix2#svd`: `M = u × diag(values) × vᵀ`, i.e. rotate by `vᵀ`,
+ * scale along the axes, then rotate by `u`
+ */
+export interface ISingularValueDecomposition<T> {
+  // 旋转矩阵
+  u: Matrix2<T>;
+  // 奇异值，values[0] >= |values[1]|
+  values: [string, string];
+  // 旋转矩阵
+  v: Matrix2<T>;
+}
+
+// n 阶方阵相乘 a × b（行优先）
+function multiplyElements(
+  system: IOperatorSystem<any>,
+  a: Elements<any>,
+  b: Elements<any>,
+  n: number
+): Elements<any> {
+  const { plus, multiply } = system;
+  const result: Elements<any> = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      let sum: Operand<any> = 0;
+      for (let k = 0; k < n; k++) {
+        sum = plus(sum, multiply(a[i * n + k], b[k * n + j]));
+      }
+      result.push(sum);
+    }
+  }
+  return result;
+}
+
+function transposeElements(a: Elements<any>, n: number): Elements<any> {
+  const result: Elements<any> = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      result.push(a[j * n + i]);
+    }
+  }
+  return result;
+}
+
+// 行列式为 0 的矩阵不可逆；区间体系无法判断时同样视为不可逆
+function assertInvertible(system: IOperatorSystem<any>, det: Operand<any>) {
+  if (system.equal(det, 0) !== false) {
+    throw new SingularMatrixError();
+  }
+}
+
+// 关于过原点、方向为 (dx, dy) 的直线的反射矩阵，无需开方
+function reflectionElements(
+  system: IOperatorSystem<any>,
+  direction: Vector<any>
+): Elements<any> {
+  const { minus, multiply, divide } = system;
+  const { x, y } = direction;
+  const lengthSq = direction.lengthSq;
+  const cos2 = divide(minus(multiply(x, x), multiply(y, y)), lengthSq);
+  const sin2 = divide(multiply(2, multiply(x, y)), lengthSq);
+  return [cos2, sin2, sin2, multiply(cos2, -1)];
+}
+
+// 3 阶方阵的行列式，按第一行展开
+function determinant3(
+  system: IOperatorSystem<any>,
+  elements: Elements<any>
+): string {
+  const { plus, minus, multiply } = system;
+  const [a, b, c, d, e, f, g, h, i] = elements;
+  const minor = (p, q, r, s) => minus(multiply(p, s), multiply(q, r));
+  return plus(
+    minus(multiply(a, minor(e, f, h, i)), multiply(b, minor(d, f, g, i))),
+    multiply(c, minor(d, e, g, h))
+  ).toString();
+}
+
+function toString(elements: string[], n: number): string {
+  const rows: string[] = [];
+  for (let i = 0; i < n; i++) {
+    rows.push('[' + elements.slice(i * n, i * n + n).join(', ') + ']');
+  }
+  return '[' + rows.join(', ') + ']';
+}
+
+export class Matrix2<T> {
+  _elements: Elements<T>;
+
+  static isMatrix2<U>(m): m is Matrix2<U> {
+    return m instanceof Matrix2;
+  }
+
+  /**
+   * The identity matrix
+   *
+   * @static
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  static identity<U>(system: SystemOption = Vector.SYSTEM): Matrix2<U> {
+    return new Matrix2<U>([1, 0, 0, 1]).config({ system });
+  }
+
+  /**
+   * Rotation in radians CCW around the origin
+   *
+   * @static
+   * @param {Number} angle - Angle in radians
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   * @example
+   *     new Vector(1, 0).transform(Matrix2.rotation(Math.PI / 2));
+   *     // => x:0, y:1 (approximately)
+   */
+  static rotation<U>(
+    angle: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix2<U> {
+    const s = resolveSystem(system);
+    const sin = s.sin(angle);
+    const cos = s.cos(angle);
+    return new Matrix2<U>([cos, s.multiply(sin, -1), sin, cos]).config({
+      system: s
+    });
+  }
+
+  /**
+   * Same as `rotation` but uses degrees
+   *
+   * @static
+   * @param {Number} degree
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  static rotationDegree<U>(
+    degree: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix2<U> {
+    const s = resolveSystem(system);
+    return Matrix2.rotation<U>(degree2radian(degree, s), s);
+  }
+
+  /**
+   * Scaling along the axes
+   *
+   * @static
+   * @param {Number} sx
+   * @param {Number} [sy=sx]
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  static scaling<U>(
+    sx: Operand<U>,
+    sy: Operand<U> = sx,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix2<U> {
+    return new Matrix2<U>([sx, 0, 0, sy]).config({ system });
+  }
+
+  /**
+   * Shear: `x' = x + kx * y`, `y' = y + ky * x`
+   *
+   * @static
+   * @param {Number} kx
+   * @param {Number} [ky=0]
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  static shear<U>(
+    kx: Operand<U>,
+    ky: Operand<U> = 0,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix2<U> {
+    return new Matrix2<U>([1, kx, ky, 1]).config({ system });
+  }
+
+  /**
+   * Reflection about the line through the origin along `direction`,
+   * uses the operator system of `direction`
+   *
+   * @static
+   * @param {Vector} direction - Direction of the line, need not be a unit vector
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   * @example
+   *     new Vector(1, 0).transform(Matrix2.reflection(new Vector(1, 1))).toString();
+   *     // => x:0, y:1
+   */
+  static reflection<U>(direction: Vector<U>): Matrix2<U> {
+    const system = direction.operatorSystem;
+    return new Matrix2<U>(reflectionElements(system, direction)).config({
+      system
+    });
+  }
+
+  // 每个实例对应的操作体系，默认与向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({ system = Vector.SYSTEM }: { system?: SystemOption }): Matrix2<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new matrix bound to the same operator system as this one (or to `system`)
+   *
+   * @param {Array} elements - Row-major elements
+   * @param {IOperatorSystem} [system] - Defaults to this matrix's operator system
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  derive(
+    elements: Elements<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): Matrix2<T> {
+    return bindSystem(new Matrix2<T>(elements), system);
+  }
+
+  // 与另一个矩阵运算时使用的算术体系，见 Vector.mixSystems
+  systemWith(m: Matrix2<T>): IOperatorSystem<any> {
+    return systemOf(this, m);
+  }
+
+  /**
+   * Returns a copy of this matrix converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  convertTo(system: SystemOption): Matrix2<T> {
+    const target = resolveSystem(system);
+    const elements = convertValues(this.operatorSystem, target, this.elements);
+    return this.derive(elements, target);
+  }
+
+  // 二元运算的两个矩阵都转换到 systemWith 选出的体系，返回 [this, m, system]
+  private operands(
+    m: Matrix2<T>
+  ): [Matrix2<T>, Matrix2<T>, IOperatorSystem<any>] {
+    return alignOperands(this.systemWith(m), this, m);
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Array} [elements=[1, 0, 0, 1]] - Row-major elements `[a, b, c, d]` of `[[a, b], [c, d]]`
+   * @example
+   *     var m = new Matrix2([1, 2, 3, 4]);
+   */
+  constructor(elements: Elements<T> = [1, 0, 0, 1]) {
+    this._elements = elements.map(v => v || 0);
+  }
+
+  get elements(): string[] {
+    return this._elements.map(v => v.toString());
+  }
+
+  /**
+   * Element at the given row and column, both starting at 0
+   *
+   * @param {Number} row
+   * @param {Number} col
+   * @returns {String}
+   * @memberof Matrix2
+   */
+  get(row: number, col: number): string {
+    return this._elements[row * 2 + col].toString();
+  }
+
+  /**
+   * Matrix product `this × m`, i.e. the transform applying `m` first, then this one
+   *
+   * @param {Matrix2} m
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  multiply(m: Matrix2<T>): Matrix2<T> {
+    const [a, b, system] = this.operands(m);
+    return this.derive(
+      multiplyElements(system, a.elements, b.elements, 2),
+      system
+    );
+  }
+
+  /**
+   * Composes two transforms: the result applies this one first, then `next`
+   * (the matrix product `next × this`)
+   *
+   * @param {Matrix2} next
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   * @example
+   *     Matrix2.scaling(2).compose(Matrix2.rotationDegree(90));
+   *     // scales, then rotates
+   */
+  compose(next: Matrix2<T>): Matrix2<T> {
+    const [a, b, system] = this.operands(next);
+    return this.derive(
+      multiplyElements(system, b.elements, a.elements, 2),
+      system
+    );
+  }
+
+  /**
+   * Determinant, `ad - bc`
+   *
+   * @returns {String}
+   * @memberof Matrix2
+   */
+  determinant(): string {
+    const { minus, multiply } = this.operatorSystem;
+    const [a, b, c, d] = this.elements;
+    return minus(multiply(a, d), multiply(b, c)).toString();
+  }
+
+  /**
+   * Transposed matrix
+   *
+   * @returns {Matrix2}
+   * @memberof Matrix2
+   */
+  transpose(): Matrix2<T> {
+    return this.derive(transposeElements(this.elements, 2));
+  }
+
+  /**
+   * Inverse matrix, `compose` with the inverse gives the identity
+   *
+   * @returns {Matrix2}
+   * @throws {SingularMatrixError} when the determinant is 0
+   * @memberof Matrix2
+   */
+  invert(): Matrix2<T> {
+    const system = this.operatorSystem;
+    const { divide, multiply } = system;
+    const det = this.determinant();
+    assertInvertible(system, det);
+    const [a, b, c, d] = this.elements;
+    return this.derive([
+      divide(d, det),
+      divide(multiply(b, -1), det),
+      divide(multiply(c, -1), det),
+      divide(a, det)
+    ]);
+  }
+
+  /**
+   * Applies the transform to a vector, same as `vec.transform(this)`
+   *
+   * @param {Vector} vec
+   * @returns {Vector}
+   * @memberof Matrix2
+   */
+  apply(vec: Vector<T>): Vector<T> {
+    const [point, m, system] = alignOperands(systemOf(vec, this), vec, this);
+    const { plus, multiply } = system;
+    const [a, b, c, d] = m.elements;
+    const { x, y } = point;
+    return vec.derive(
+      plus(multiply(a, x), multiply(b, y)),
+      plus(multiply(c, x), multiply(d, y)),
+      system
+    );
+  }
+
+  /**
+   * Returns true if every element equals the other matrix's, see `Vector#isEqualTo`
+   *
+   * @param {Matrix2} m
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @returns {Boolean}
+   * @memberof Matrix2
+   */
+  isEqualTo(m: Matrix2<T>, tolerance?: ITolerance<T>): boolean | Uncertain {
+    const [a, b, system] = this.operands(m);
+    const other = b.elements;
+    if (tolerance) {
+      return and3(
+        ...a.elements.map((v, i) => isClose(system, v, other[i], tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...a.elements.map((v, i) => equal(v, other[i])));
+  }
+
+  // Returns true if this is the identity matrix
+  isIdentity(tolerance?: ITolerance<T>): boolean | Uncertain {
+    return this.isEqualTo(Matrix2.identity<T>(this.operatorSystem), tolerance);
+  }
+
+  /**
+   * Eigenvalues and unit eigenvectors, `M v = λ v`. Works for symmetric and general matrices,
+   * eigenvalues are sorted from largest to smallest, eigenvectors point to `x > 0`
+   * (or `y > 0` when `x` is 0). Degenerate cases:
+   * - complex eigenvalues (e.g. a rotation): returns `null`
+   * - `M = λI` (any vector is an eigenvector): returns the axes `(1, 0)` and `(0, 1)`
+   * - a repeated eigenvalue with a single eigen-direction (e.g. a shear):
+   *   both vectors are that same direction
+   * - singular matrices are not special, one of the eigenvalues is 0
+   *
+   * @returns {(IEigenDecomposition|null)}
+   * @memberof Matrix2
+   * @example
+   *     var result = new Matrix2([2, 1, 1, 2]).eigen();
+   *     result.values;
+   *     // => ['3', '1']
+   *     result.vectors[0].toString();
+   *     // => x:0.7071067811865475244, y:0.7071067811865475244
+   */
+  eigen(): IEigenDecomposition<T> | null {
+    const system = this.operatorSystem;
+    const { plus, minus, multiply, divide, sqrt, compare } = system;
+    const [a, b, c, d] = this.elements;
+
+    // λ = (a + d) / 2 ± sqrt(((a - d) / 2)^2 + bc)
+    const mean = divide(plus(a, d), 2);
+    const half = divide(minus(a, d), 2);
+    const disc = plus(multiply(half, half), multiply(b, c));
+    if (compare(disc, 0) < 0) {
+      return null;
+    }
+    const root = sqrt(disc);
+    const values: [string, string] = [
+      plus(mean, root).toString(),
+      minus(mean, root).toString()
+    ];
+
+    const unit = (x: Operand<T>, y: Operand<T>) => {
+      // 统一方向，保证结果确定
+      const flip =
+        compare(x, 0) < 0 || (compare(x, 0) === 0 && compare(y, 0) < 0);
+      const vec = new Vector<T>(x, y).config({ system });
+      return (flip ? vec.invert() : vec).normalize();
+    };
+    const lengthSq = (p: Operand<T>, q: Operand<T>) =>
+      plus(multiply(p, p), multiply(q, q));
+
+    // 特征向量与 M - λI 的非零行垂直，取较长的一行以减小误差
+    const eigenvector = (lambda: string) => {
+      const p = [minus(a, lambda), b];
+      const q = [c, minus(d, lambda)];
+      const row =
+        compare(lengthSq(p[0], p[1]), lengthSq(q[0], q[1])) >= 0 ? p : q;
+      if (compare(lengthSq(row[0], row[1]), 0) === 0) {
+        return null;
+      }
+      return unit(row[1], multiply(row[0], -1));
+    };
+
+    const first = eigenvector(values[0]);
+    const second = eigenvector(values[1]);
+    if (!first || !second) {
+      return { values, vectors: [unit(1, 0), unit(0, 1)] };
+    }
+    return { values, vectors: [first, second] };
+  }
+
+  /**
+   * Singular value decomposition `M = u × diag(s1, s2) × vᵀ` in closed form,
+   * `u` and `v` are rotations so any transform splits into rotation, scale, rotation.
+   * Degenerate cases:
+   * - when the transform contains a reflection (negative determinant),
+   *   `s2` is negative instead of turning `u` or `v` into a reflection
+   * - singular matrices give `s2 = 0`, the zero matrix gives identity rotations
+   *
+   * Uses the operator system's `sqrt`, `atan2`, `sin` and `cos`
+   *
+   * @returns {ISingularValueDecomposition}
+   * @memberof Matrix2
+   * @example
+   *     var m = Matrix2.rotationDegree(30).compose(Matrix2.scaling(2, 3));
+   *     m.svd().values;
+   *     // => ['3', '2'] (approximately)
+   */
+  svd(): ISingularValueDecomposition<T> {
+    const system = this.operatorSystem;
+    const { plus, minus, multiply, divide, sqrt, atan2 } = system;
+    const [a, b, c, d] = this.elements;
+    const e = divide(plus(a, d), 2);
+    const f = divide(minus(a, d), 2);
+    const g = divide(plus(c, b), 2);
+    const h = divide(minus(c, b), 2);
+    const q = sqrt(plus(multiply(e, e), multiply(h, h)));
+    const r = sqrt(plus(multiply(f, f), multiply(g, g)));
+
+    // M = R(φ) × diag(q + r, q - r) × R(θ)
+    const a1 = atan2(g, f);
+    const a2 = atan2(h, e);
+    const theta = divide(minus(a2, a1), 2);
+    const phi = divide(plus(a2, a1), 2);
+    return {
+      u: Matrix2.rotation<T>(phi, system),
+      values: [plus(q, r).toString(), minus(q, r).toString()],
+      v: Matrix2.rotation<T>(multiply(theta, -1), system)
+    };
+  }
+
+  /**
+   * The same linear transform as a homogeneous `Matrix3` without translation
+   *
+   * @returns {Matrix3}
+   * @memberof Matrix2
+   */
+  toMatrix3(): Matrix3<T> {
+    const [a, b, c, d] = this.elements;
+    return new Matrix3<T>([a, b, 0, c, d, 0, 0, 0, 1]).config({
+      system: this.operatorSystem
+    });
+  }
+
+  /**
+   * Returns the rows as arrays
+   *
+   * @returns {Array}
+   * @memberof Matrix2
+   */
+  toArray(): string[][] {
+    const [a, b, c, d] = this.elements;
+    return [[a, b], [c, d]];
+  }
+
+  /**
+   * Returns an string representation of the matrix
+   *
+   * @returns {String}
+   * @memberof Matrix2
+   * @example
+   *     new Matrix2([1, 2, 3, 4]).toString();
+   *     // => [[1, 2], [3, 4]]
+   */
+  toString(): string {
+    return toString(this.elements, 2);
+  }
+}
+
+export class Matrix3<T> {
+  _elements: Elements<T>;
+
+  static isMatrix3<U>(m): m is Matrix3<U> {
+    return m instanceof Matrix3;
+  }
+
+  /**
+   * The identity matrix
+   *
+   * @static
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   */
+  static identity<U>(system: SystemOption = Vector.SYSTEM): Matrix3<U> {
+    return new Matrix3<U>().config({ system });
+  }
+
+  /**
+   * Translation by `(tx, ty)`
+   *
+   * @static
+   * @param {Number} tx
+   * @param {Number} ty
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   * @example
+   *     new Vector(1, 2).transform(Matrix3.translation(10, 20)).toString();
+   *     // => x:11, y:22
+   */
+  static translation<U>(
+    tx: Operand<U>,
+    ty: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix3<U> {
+    return new Matrix3<U>([1, 0, tx, 0, 1, ty, 0, 0, 1]).config({ system });
+  }
+
+  // Rotation in radians CCW around the origin, see `Matrix2.rotation`
+  static rotation<U>(
+    angle: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix3<U> {
+    return Matrix2.rotation<U>(angle, system).toMatrix3();
+  }
+
+  // Same as `rotation` but uses degrees
+  static rotationDegree<U>(
+    degree: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix3<U> {
+    return Matrix2.rotationDegree<U>(degree, system).toMatrix3();
+  }
+
+  /**
+   * Rotation in radians CCW around `pivot`, uses the operator system of `pivot`
+   *
+   * @static
+   * @param {Number} angle - Angle in radians
+   * @param {Vector} pivot - Center of the rotation
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   * @example
+   *     new Vector(2, 1).transform(Matrix3.rotationAbout(Math.PI, new Vector(1, 1)));
+   *     // => x:0, y:1 (approximately)
+   */
+  static rotationAbout<U>(angle: Operand<U>, pivot: Vector<U>): Matrix3<U> {
+    const system = pivot.operatorSystem;
+    const { x, y } = pivot;
+    // 平移到原点，旋转，再平移回去
+    const { multiply } = system;
+    return Matrix3.translation<U>(multiply(x, -1), multiply(y, -1), system)
+      .compose(Matrix3.rotation<U>(angle, system))
+      .compose(Matrix3.translation<U>(x, y, system));
+  }
+
+  // Scaling along the axes, see `Matrix2.scaling`
+  static scaling<U>(
+    sx: Operand<U>,
+    sy: Operand<U> = sx,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix3<U> {
+    return Matrix2.scaling<U>(sx, sy, system).toMatrix3();
+  }
+
+  // Shear: `x' = x + kx * y`, `y' = y + ky * x`
+  static shear<U>(
+    kx: Operand<U>,
+    ky: Operand<U> = 0,
+    system: SystemOption = Vector.SYSTEM
+  ): Matrix3<U> {
+    return Matrix2.shear<U>(kx, ky, system).toMatrix3();
+  }
+
+  /**
+   * Reflection about the line through `point` along `direction`,
+   * uses the operator system of `direction`
+   *
+   * @static
+   * @param {Vector} direction - Direction of the line, need not be a unit vector
+   * @param {Vector} [point] - A point on the line, defaults to the origin
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   * @example
+   *     // the line y = 1
+   *     new Vector(3, 0).transform(Matrix3.reflection(new Vector(1, 0), new Vector(0, 1)));
+   *     // => x:3, y:2
+   */
+  static reflection<U>(direction: Vector<U>, point?: Vector<U>): Matrix3<U> {
+    const system = direction.operatorSystem;
+    const m = Matrix2.reflection<U>(direction).toMatrix3();
+    if (!point) {
+      return m;
+    }
+    const { x, y } = point;
+    const { multiply } = system;
+    return Matrix3.translation<U>(multiply(x, -1), multiply(y, -1), system)
+      .compose(m)
+      .compose(Matrix3.translation<U>(x, y, system));
+  }
+
+  // 每个实例对应的操作体系，默认与向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({ system = Vector.SYSTEM }: { system?: SystemOption }): Matrix3<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new matrix bound to the same operator system as this one (or to `system`)
+   *
+   * @param {Array} elements - Row-major elements
+   * @param {IOperatorSystem} [system] - Defaults to this matrix's operator system
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   */
+  derive(
+    elements: Elements<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): Matrix3<T> {
+    return bindSystem(new Matrix3<T>(elements), system);
+  }
+
+  // 与另一个矩阵运算时使用的算术体系，见 Vector.mixSystems
+  systemWith(m: Matrix3<T>): IOperatorSystem<any> {
+    return systemOf(this, m);
+  }
+
+  /**
+   * Returns a copy of this matrix converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   */
+  convertTo(system: SystemOption): Matrix3<T> {
+    const target = resolveSystem(system);
+    const elements = convertValues(this.operatorSystem, target, this.elements);
+    return this.derive(elements, target);
+  }
+
+  // 二元运算的两个矩阵都转换到 systemWith 选出的体系，返回 [this, m, system]
+  private operands(
+    m: Matrix3<T>
+  ): [Matrix3<T>, Matrix3<T>, IOperatorSystem<any>] {
+    return alignOperands(this.systemWith(m), this, m);
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Array} [elements] - 9 row-major elements, defaults to the identity
+   * @example
+   *     // translation by (10, 20)
+   *     var m = new Matrix3([1, 0, 10, 0, 1, 20, 0, 0, 1]);
+   */
+  constructor(elements: Elements<T> = [1, 0, 0, 0, 1, 0, 0, 0, 1]) {
+    this._elements = elements.map(v => v || 0);
+  }
+
+  get elements(): string[] {
+    return this._elements.map(v => v.toString());
+  }
+
+  /**
+   * Element at the given row and column, both starting at 0
+   *
+   * @param {Number} row
+   * @param {Number} col
+   * @returns {String}
+   * @memberof Matrix3
+   */
+  get(row: number, col: number): string {
+    return this._elements[row * 3 + col].toString();
+  }
+
+  /**
+   * Matrix product `this × m`, i.e. the transform applying `m` first, then this one
+   *
+   * @param {Matrix3} m
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   */
+  multiply(m: Matrix3<T>): Matrix3<T> {
+    const [a, b, system] = this.operands(m);
+    return this.derive(
+      multiplyElements(system, a.elements, b.elements, 3),
+      system
+    );
+  }
+
+  /**
+   * Composes two transforms: the result applies this one first, then `next`
+   * (the matrix product `next × this`)
+   *
+   * @param {Matrix3} next
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   * @example
+   *     Matrix3.translation(1, 0).compose(Matrix3.scaling(2));
+   *     // translates, then scales: (0, 0) => (2, 0)
+   */
+  compose(next: Matrix3<T>): Matrix3<T> {
+    const [a, b, system] = this.operands(next);
+    return this.derive(
+      multiplyElements(system, b.elements, a.elements, 3),
+      system
+    );
+  }
+
+  /**
+   * Determinant, expanded along the first row
+   *
+   * @returns {String}
+   * @memberof Matrix3
+   */
+  determinant(): string {
+    return determinant3(this.operatorSystem, this.elements);
+  }
+
+  /**
+   * Transposed matrix
+   *
+   * @returns {Matrix3}
+   * @memberof Matrix3
+   */
+  transpose(): Matrix3<T> {
+    return this.derive(transposeElements(this.elements, 3));
+  }
+
+  /**
+   * Inverse matrix (adjugate divided by the determinant)
+   *
+   * @returns {Matrix3}
+   * @throws {SingularMatrixError} when the determinant is 0
+   * @memberof Matrix3
+   */
+  invert(): Matrix3<T> {
+    const system = this.operatorSystem;
+    const { minus, multiply, divide } = system;
+    const det = this.determinant();
+    assertInvertible(system, det);
+    const [a, b, c, d, e, f, g, h, i] = this.elements;
+    const minor = (p, q, r, s) => minus(multiply(p, s), multiply(q, r));
+    const adjugate = [
+      minor(e, f, h, i),
+      minor(c, b, i, h),
+      minor(b, c, e, f),
+      minor(f, d, i, g),
+      minor(a, c, g, i),
+      minor(c, a, f, d),
+      minor(d, e, g, h),
+      minor(b, a, h, g),
+      minor(a, b, d, e)
+    ];
+    return this.derive(adjugate.map(v => divide(v, det)));
+  }
+
+  /**
+   * Applies the affine transform to a point, same as `vec.transform(this)`
+   *
+   * @param {Vector} vec
+   * @returns {Vector}
+   * @memberof Matrix3
+   */
+  apply(vec: Vector<T>): Vector<T> {
+    const [point, m, system] = alignOperands(systemOf(vec, this), vec, this);
+    const { plus, multiply } = system;
+    const [a, b, c, d, e, f] = m.elements;
+    const { x, y } = point;
+    return vec.derive(
+      plus(plus(multiply(a, x), multiply(b, y)), c),
+      plus(plus(multiply(d, x), multiply(e, y)), f),
+      system
+    );
+  }
+
+  /**
+   * Returns true if every element equals the other matrix's, see `Vector#isEqualTo`
+   *
+   * @param {Matrix3} m
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @returns {Boolean}
+   * @memberof Matrix3
+   */
+  isEqualTo(m: Matrix3<T>, tolerance?: ITolerance<T>): boolean | Uncertain {
+    const [a, b, system] = this.operands(m);
+    const other = b.elements;
+    if (tolerance) {
+      return and3(
+        ...a.elements.map((v, i) => isClose(system, v, other[i], tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...a.elements.map((v, i) => equal(v, other[i])));
+  }
+
+  // Returns true if this is the identity matrix
+  isIdentity(tolerance?: ITolerance<T>): boolean | Uncertain {
+    return this.isEqualTo(Matrix3.identity<T>(this.operatorSystem), tolerance);
+  }
+
+  /**
+   * Returns the rows as arrays
+   *
+   * @returns {Array}
+   * @memberof Matrix3
+   */
+  toArray(): string[][] {
+    const e = this.elements;
+    return [e.slice(0, 3), e.slice(3, 6), e.slice(6, 9)];
+  }
+
+  /**
+   * Returns an string representation of the matrix
+   *
+   * @returns {String}
+   * @memberof Matrix3
+   * @example
+   *     Matrix3.translation(10, 20).toString();
+   *     // => [[1, 0, 10], [0, 1, 20], [0, 0, 1]]
+   */
+  toString(): string {
+    return toString(this.elements, 3);
+  }
+}
+
+/**
+ * RotationMatrix3 - 3x3 rotation of 3D space, acting on `Vector3` as `v' = M v`.
+ * Returned by `Quaternion#toMatrix`; unlike `Matrix3` it has no translation part
+ */
+export class RotationMatrix3<T> {
+  _elements: Elements<T>;
+
+  static isRotationMatrix3<U>(m): m is RotationMatrix3<U> {
+    return m instanceof RotationMatrix3;
+  }
+
+  /**
+   * The identity rotation
+   *
+   * @static
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  static identity<U>(system: SystemOption = Vector.SYSTEM): RotationMatrix3<U> {
+    return new RotationMatrix3<U>().config({ system });
+  }
+
+  // 每个实例对应的操作体系，默认与向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({
+    system = Vector.SYSTEM
+  }: {
+    system?: SystemOption;
+  }): RotationMatrix3<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new matrix bound to the same operator system as this one (or to `system`)
+   *
+   * @param {Array} elements - Row-major elements
+   * @param {IOperatorSystem} [system] - Defaults to this matrix's operator system
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  derive(
+    elements: Elements<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): RotationMatrix3<T> {
+    return bindSystem(new RotationMatrix3<T>(elements), system);
+  }
+
+  // 与另一个矩阵运算时使用的算术体系，见 Vector.mixSystems
+  systemWith(m: RotationMatrix3<T>): IOperatorSystem<any> {
+    return systemOf(this, m);
+  }
+
+  /**
+   * Returns a copy of this matrix converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  convertTo(system: SystemOption): RotationMatrix3<T> {
+    const target = resolveSystem(system);
+    const elements = convertValues(this.operatorSystem, target, this.elements);
+    return this.derive(elements, target);
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Array} [elements] - 9 row-major elements, defaults to the identity
+   */
+  constructor(elements: Elements<T> = [1, 0, 0, 0, 1, 0, 0, 0, 1]) {
+    this._elements = elements.map(v => v || 0);
+  }
+
+  get elements(): string[] {
+    return this._elements.map(v => v.toString());
+  }
+
+  /**
+   * Element at the given row and column, both starting at 0
+   *
+   * @param {Number} row
+   * @param {Number} col
+   * @returns {String}
+   * @memberof RotationMatrix3
+   */
+  get(row: number, col: number): string {
+    return this._elements[row * 3 + col].toString();
+  }
+
+  /**
+   * Matrix product `this × m`
+   *
+   * @param {RotationMatrix3} m
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  multiply(m: RotationMatrix3<T>): RotationMatrix3<T> {
+    const [a, b, system] = this.operands(m);
+    return this.derive(
+      multiplyElements(system, a.elements, b.elements, 3),
+      system
+    );
+  }
+
+  /**
+   * Composes two rotations: the result applies this one first, then `next`
+   * (the matrix product `next × this`)
+   *
+   * @param {RotationMatrix3} next
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  compose(next: RotationMatrix3<T>): RotationMatrix3<T> {
+    const [a, b, system] = this.operands(next);
+    return this.derive(
+      multiplyElements(system, b.elements, a.elements, 3),
+      system
+    );
+  }
+
+  // Determinant, 1 for a rotation
+  determinant(): string {
+    return determinant3(this.operatorSystem, this.elements);
+  }
+
+  /**
+   * Transposed matrix, which is also the inverse rotation
+   *
+   * @returns {RotationMatrix3}
+   * @memberof RotationMatrix3
+   */
+  transpose(): RotationMatrix3<T> {
+    return this.derive(transposeElements(this.elements, 3));
+  }
+
+  // Inverse rotation, same as transpose
+  invert(): RotationMatrix3<T> {
+    return this.transpose();
+  }
+
+  /**
+   * Rotates a 3D vector, same as `vec.transform(this)`
+   *
+   * @param {Vector3} vec
+   * @returns {Vector3}
+   * @memberof RotationMatrix3
+   */
+  apply(vec: Vector3<T>): Vector3<T> {
+    return vec.transform(this);
+  }
+
+  /**
+   * Returns true if every element equals the other matrix's, see `Vector#isEqualTo`
+   *
+   * @param {RotationMatrix3} m
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @returns {Boolean}
+   * @memberof RotationMatrix3
+   */
+  isEqualTo(
+    m: RotationMatrix3<T>,
+    tolerance?: ITolerance<T>
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(m);
+    const other = b.elements;
+    if (tolerance) {
+      return and3(
+        ...a.elements.map((v, i) => isClose(system, v, other[i], tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...a.elements.map((v, i) => equal(v, other[i])));
+  }
+
+  // Returns true if this is the identity rotation
+  isIdentity(tolerance?: ITolerance<T>): boolean | Uncertain {
+    return this.isEqualTo(
+      RotationMatrix3.identity<T>(this.operatorSystem),
+      tolerance
+    );
+  }
+
+  /**
+   * Returns the rows as arrays
+   *
+   * @returns {Array}
+   * @memberof RotationMatrix3
+   */
+  toArray(): string[][] {
+    const e = this.elements;
+    return [e.slice(0, 3), e.slice(3, 6), e.slice(6, 9)];
+  }
+
+  // Returns an string representation of the matrix, e.g. `[[1, 0, 0], [0, 1, 0], [0, 0, 1]]`
+  toString(): string {
+    return toString(this.elements, 3);
+  }
+
+  // 二元运算的两个矩阵都转换到 systemWith 选出的体系，返回 [this, m, system]
+  private operands(
+    m: RotationMatrix3<T>
+  ): [RotationMatrix3<T>, RotationMatrix3<T>, IOperatorSystem<any>] {
+    return alignOperands(this.systemWith(m), this, m);
+  }
+}
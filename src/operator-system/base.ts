@@ -2,6 +2,7 @@ import { IOperatorSystem, Operand } from './types';
 
 const BaseOperatorSystem: IOperatorSystem<number> = {
   name: 'BaseOperatorSystem',
+  precision: 10,
   create: (x: Operand<number>) => {
     return Number(x);
   },
@@ -25,6 +26,45 @@ const BaseOperatorSystem: IOperatorSystem<number> = {
   },
   equal: (x: Operand<number>, y: Operand<number>) =>{
     return Number(x) === Number(y);
+  },
+  compare: (x: Operand<number>, y: Operand<number>) => {
+    const a = Number(x);
+    const b = Number(y);
+    return a < b ? -1 : a > b ? 1 : a === b ? 0 : NaN;
+  },
+  lt: (x: Operand<number>, y: Operand<number>) => {
+    return Number(x) < Number(y);
+  },
+  gt: (x: Operand<number>, y: Operand<number>) => {
+    return Number(x) > Number(y);
+  },
+  sign: (x: Operand<number>) => {
+    return Math.sign(Number(x));
+  },
+  min: (x: Operand<number>, y: Operand<number>) => {
+    return Math.min(Number(x), Number(y));
+  },
+  max: (x: Operand<number>, y: Operand<number>) => {
+    return Math.max(Number(x), Number(y));
+  },
+  sin: (x: Operand<number>) => {
+    return Math.sin(Number(x));
+  },
+  cos: (x: Operand<number>) => {
+    return Math.cos(Number(x));
+  },
+  acos: (x: Operand<number>) => {
+    return Math.acos(Number(x));
+  },
+  atan2: (y: Operand<number>, x: Operand<number>) => {
+    return Math.atan2(Number(y), Number(x));
+  },
+  pi: Math.PI,
+  exp: (x: Operand<number>) => {
+    return Math.exp(Number(x));
+  },
+  ln: (x: Operand<number>) => {
+    return Math.log(Number(x));
   }
 }
 
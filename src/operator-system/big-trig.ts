@@ -0,0 +1,265 @@
+import Big from 'big.js';
+
+/**
+ * Arbitrary-precision trigonometry (plus `exp` and `ln`) for big.js, all functions are
+ * computed with series expansions so that the result keeps `Ctor.DP` decimal places.
+ *
+ * `Ctor` is the big.js constructor whose `DP` / `RM` decide the precision of the result.
+ */
+
+// 中间计算额外保留的小数位数，避免舍入误差在级数求和时累积
+const GUARD_DIGITS = 10;
+
+// 缓存不同精度下的 PI 值，key 为小数位数
+const PI_CACHE: { [dp: number]: string } = {};
+
+// 创建一个精度更高的构造函数副本用于中间计算，不影响原构造函数的配置
+function workingCtor(Ctor) {
+  const Work = Ctor();
+  Work.DP = Ctor.DP + GUARD_DIGITS;
+  Work.RM = Ctor.RM;
+  return Work;
+}
+
+// 级数求和的终止条件：当前项已小于工作精度
+function epsilonOf(Work) {
+  return new Work('1e-' + Work.DP);
+}
+
+// 将中间结果按原构造函数的精度舍入
+function settle(Ctor, value) {
+  return new Ctor(value.round(Ctor.DP, Ctor.RM));
+}
+
+// 泰勒级数 atan(x) = x - x^3/3 + x^5/5 - ...，仅用于 |x| 较小的情况
+function atanSeries(Work, x) {
+  const eps = epsilonOf(Work);
+  const x2 = x.times(x);
+  let power = x;
+  let sum = x;
+  for (let k = 1; ; k++) {
+    power = power.times(x2);
+    const term = power.div(2 * k + 1);
+    if (term.abs().lt(eps)) {
+      break;
+    }
+    sum = k % 2 ? sum.minus(term) : sum.plus(term);
+  }
+  return sum;
+}
+
+// 使用 Machin 公式计算 PI：PI = 16 * atan(1/5) - 4 * atan(1/239)
+function piOf(Work) {
+  if (!PI_CACHE[Work.DP]) {
+    const a = atanSeries(Work, new Work(1).div(5));
+    const b = atanSeries(Work, new Work(1).div(239));
+    PI_CACHE[Work.DP] = a
+      .times(16)
+      .minus(b.times(4))
+      .toString();
+  }
+  return new Work(PI_CACHE[Work.DP]);
+}
+
+// 将角度规约到 [-PI, PI] 区间，保证级数快速收敛
+function reduceAngle(Work, x) {
+  const twoPi = piOf(Work).times(2);
+  const turns = x.div(twoPi).round(0, 1);
+  return x.minus(twoPi.times(turns));
+}
+
+// 在工作精度下计算 atan(x)
+function atanOf(Work, x) {
+  if (x.eq(0)) {
+    return new Work(0);
+  }
+  const negative = x.lt(0);
+  let t = x.abs();
+
+  // |x| > 1 时利用 atan(x) = PI/2 - atan(1/x)
+  const inverted = t.gt(1);
+  if (inverted) {
+    t = new Work(1).div(t);
+  }
+
+  // 半角公式 atan(x) = 2 * atan(x / (1 + sqrt(1 + x^2)))，缩小参数加速收敛
+  let doublings = 0;
+  while (t.gt('0.1')) {
+    t = t.div(
+      t
+        .times(t)
+        .plus(1)
+        .sqrt()
+        .plus(1)
+    );
+    doublings++;
+  }
+
+  let result = atanSeries(Work, t).times(Math.pow(2, doublings));
+  if (inverted) {
+    result = piOf(Work)
+      .div(2)
+      .minus(result);
+  }
+  return negative ? result.times(-1) : result;
+}
+
+// 在工作精度下计算 atan2(y, x)，象限规则与 Math.atan2 一致
+function atan2Of(Work, y, x) {
+  const pi = piOf(Work);
+  if (x.eq(0)) {
+    if (y.eq(0)) {
+      return new Work(0);
+    }
+    return y.gt(0) ? pi.div(2) : pi.div(-2);
+  }
+  const base = atanOf(Work, y.div(x));
+  if (x.gt(0)) {
+    return base;
+  }
+  return y.lt(0) ? base.minus(pi) : base.plus(pi);
+}
+
+// 泰勒级数 exp(x) = 1 + x + x^2/2! + ...，仅用于 |x| 较小的情况
+function expSeries(Work, x) {
+  const eps = epsilonOf(Work);
+  let term = new Work(1);
+  let sum = term;
+  for (let k = 1; term.abs().gte(eps); k++) {
+    term = term.times(x).div(k);
+    sum = sum.plus(term);
+  }
+  return sum;
+}
+
+// 泰勒级数 atanh(x) = x + x^3/3 + x^5/5 + ...，仅用于 |x| 较小的情况
+function atanhSeries(Work, x) {
+  const eps = epsilonOf(Work);
+  const x2 = x.times(x);
+  let power = x;
+  let sum = x;
+  for (let k = 1; ; k++) {
+    power = power.times(x2);
+    const term = power.div(2 * k + 1);
+    if (term.abs().lt(eps)) {
+      break;
+    }
+    sum = sum.plus(term);
+  }
+  return sum;
+}
+
+/**
+ * PI with `Ctor.DP` decimal places
+ */
+export function bigPi(Ctor = Big) {
+  return settle(Ctor, piOf(workingCtor(Ctor)));
+}
+
+/**
+ * sin(x) computed by taylor series: x - x^3/3! + x^5/5! - ...
+ */
+export function bigSin(x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  const eps = epsilonOf(Work);
+  const t = reduceAngle(Work, new Work(x));
+  const t2 = t.times(t);
+  let term = t;
+  let sum = t;
+  for (let k = 1; term.abs().gte(eps); k++) {
+    term = term.times(t2).div(-(2 * k) * (2 * k + 1));
+    sum = sum.plus(term);
+  }
+  return settle(Ctor, sum);
+}
+
+/**
+ * cos(x) computed by taylor series: 1 - x^2/2! + x^4/4! - ...
+ */
+export function bigCos(x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  const eps = epsilonOf(Work);
+  const t = reduceAngle(Work, new Work(x));
+  const t2 = t.times(t);
+  let term = new Work(1);
+  let sum = term;
+  for (let k = 1; term.abs().gte(eps); k++) {
+    term = term.times(t2).div(-(2 * k - 1) * (2 * k));
+    sum = sum.plus(term);
+  }
+  return settle(Ctor, sum);
+}
+
+/**
+ * atan2(y, x), in radians between -PI and PI
+ */
+export function bigAtan2(y, x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  return settle(Ctor, atan2Of(Work, new Work(y), new Work(x)));
+}
+
+/**
+ * acos(x), in radians between 0 and PI
+ *
+ * Arguments that exceed [-1, 1] by no more than one unit in the last decimal place
+ * (typically the rounding error of a division) are clamped, larger ones throw.
+ */
+export function bigAcos(x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  let t = new Work(x);
+  if (t.abs().gt(1)) {
+    if (
+      t
+        .abs()
+        .minus(1)
+        .gt(new Work('1e-' + Ctor.DP))
+    ) {
+      throw Error('[big.js] acos argument out of range: ' + t.toString());
+    }
+    t = new Work(t.gt(0) ? 1 : -1);
+  }
+  const s = new Work(1)
+    .minus(t.times(t))
+    .sqrt();
+  return settle(Ctor, atan2Of(Work, s, t));
+}
+
+/**
+ * exp(x) = e^k * exp(r), k is the nearest integer to x and the taylor series
+ * 1 + r + r^2/2! + ... converges quickly for |r| <= 0.5
+ */
+export function bigExp(x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  const t = new Work(x);
+  const k = t.round(0, 1);
+  // 结果的整数部分有约 k / ln(10) 位，同样需要保证精确
+  Work.DP += Math.max(0, Math.ceil(Number(k) / Math.LN10));
+  const r = t.minus(k);
+  let result = expSeries(Work, r);
+  const n = Math.abs(Number(k));
+  if (n > 0) {
+    const e = expSeries(Work, new Work(1)).pow(n);
+    result = k.gt(0) ? result.times(e) : result.div(e);
+  }
+  return settle(Ctor, result);
+}
+
+/**
+ * ln(x) = 2^k * ln(x^(1/2^k)), the square roots bring the argument close to 1, where
+ * ln(y) = 2 * atanh((y - 1) / (y + 1)) converges quickly
+ */
+export function bigLn(x, Ctor = Big) {
+  const Work = workingCtor(Ctor);
+  let t = new Work(x);
+  if (t.lte(0)) {
+    throw Error('[big.js] ln argument must be positive: ' + t.toString());
+  }
+  let doublings = 0;
+  while (t.minus(1).abs().gt('0.1')) {
+    t = t.sqrt();
+    doublings++;
+  }
+  const u = t.minus(1).div(t.plus(1));
+  return settle(Ctor, atanhSeries(Work, u).times(Math.pow(2, doublings + 1)));
+}
+
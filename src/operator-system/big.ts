@@ -1,34 +1,132 @@
 import { IOperatorSystem, Operand } from './types';
 import Big from 'big.js';
+import BaseOperatorSystem from './base';
+import {
+  bigPi,
+  bigSin,
+  bigCos,
+  bigAcos,
+  bigAtan2,
+  bigExp,
+  bigLn
+} from './big-trig';
 
-const BigOperatorSystem: IOperatorSystem<Big>  = {
-  name: 'BigOperatorSystem',
-  create: (x: Operand<Big>) =>{
-    return new Big(x);
-  },
-  plus:(x: Operand<Big>, y: Operand<Big>) => {
-    return new Big(x).plus(y);
-  },
-  minus:(x: Operand<Big>, y: Operand<Big>) =>{
-    return new Big(x).minus(y);
-  },
+/**
+ * Precision context of a big operator system, same meaning as `Big.DP` and `Big.RM`
+ */
+export interface IBigContext {
+  // 除法、开方等运算结果保留的小数位数，默认 20
+  decimalPlaces?: number;
+  // 舍入模式：0 截断，1 四舍五入（默认），2 银行家舍入，3 进一
+  roundingMode?: 0 | 1 | 2 | 3;
+}
+
+/**
+ * Creates a big operator system with its own precision context.
+ * It is built on a `Big()` constructor copy, so changing the global `Big.DP` / `Big.RM`
+ * (or another system's context) never affects its results.
+ *
+ * The `precision` rank equals `decimalPlaces`, so vectors of two contexts are promoted to the
+ * one with more decimal places whatever the operand order. It never drops below the base
+ * system's rank + 1, so mixing with base numbers still promotes to big when `decimalPlaces`
+ * is small. The name of a non-default context
+ * includes its settings, e.g. `BigOperatorSystem(dp=40, rm=1)`
+ *
+ * @export
+ * @param {IBigContext} [context={}]
+ * @returns {IOperatorSystem<Big>}
+ * @example
+ *     var system = createBigOperatorSystem({ decimalPlaces: 40 });
+ *     system.divide(1, 3).toString();
+ *     // => 0.3333333333333333333333333333333333333333
+ */
+export function createBigOperatorSystem(
+  context: IBigContext = {}
+): IOperatorSystem<Big> {
+  const { decimalPlaces = 20, roundingMode = 1 } = context;
+  const Ctor = Big();
+  Ctor.DP = decimalPlaces;
+  Ctor.RM = roundingMode;
+  // 默认上下文沿用原来的名字
+  const isDefault = decimalPlaces === 20 && roundingMode === 1;
 
-  divide:(x: Operand<Big>, y: Operand<Big>) =>{
-    return new Big(x).div(y);
-  },
+  return {
+    name: isDefault
+      ? 'BigOperatorSystem'
+      : `BigOperatorSystem(dp=${decimalPlaces}, rm=${roundingMode})`,
+    // 小数位数少时也排在 base 之上
+    precision: Math.max(
+      decimalPlaces,
+      (BaseOperatorSystem.precision || 0) + 1
+    ),
+    create: (x: Operand<Big>) =>{
+      return new Ctor(x);
+    },
+    plus:(x: Operand<Big>, y: Operand<Big>) => {
+      return new Ctor(x).plus(y);
+    },
+    minus:(x: Operand<Big>, y: Operand<Big>) =>{
+      return new Ctor(x).minus(y);
+    },
 
-  multiply:(x: Operand<Big>, y: Operand<Big>) =>{
-    return new Big(x).times(y);
-  },
-  sqrt: (x: Operand<Big>) =>{
-    return new Big(x).sqrt();
-  },
-  abs: (x: Operand<Big>) =>{
-    return new Big(x).abs();
-  },
-  equal:(x: Operand<Big>, y: Operand<Big>) =>{
-    return new Big(x).eq(y);
-  }
+    divide:(x: Operand<Big>, y: Operand<Big>) =>{
+      return new Ctor(x).div(y);
+    },
+
+    multiply:(x: Operand<Big>, y: Operand<Big>) =>{
+      return new Ctor(x).times(y);
+    },
+    sqrt: (x: Operand<Big>) =>{
+      return new Ctor(x).sqrt();
+    },
+    abs: (x: Operand<Big>) =>{
+      return new Ctor(x).abs();
+    },
+    equal:(x: Operand<Big>, y: Operand<Big>) =>{
+      return new Ctor(x).eq(y);
+    },
+    compare: (x: Operand<Big>, y: Operand<Big>) => {
+      return new Ctor(x).cmp(y);
+    },
+    lt: (x: Operand<Big>, y: Operand<Big>) => {
+      return new Ctor(x).lt(y);
+    },
+    gt: (x: Operand<Big>, y: Operand<Big>) => {
+      return new Ctor(x).gt(y);
+    },
+    sign: (x: Operand<Big>) => {
+      return new Ctor(x).cmp(0);
+    },
+    min: (x: Operand<Big>, y: Operand<Big>) => {
+      const a = new Ctor(x);
+      return a.gt(y) ? new Ctor(y) : a;
+    },
+    max: (x: Operand<Big>, y: Operand<Big>) => {
+      const a = new Ctor(x);
+      return a.lt(y) ? new Ctor(y) : a;
+    },
+    sin: (x: Operand<Big>) => {
+      return bigSin(x, Ctor);
+    },
+    cos: (x: Operand<Big>) => {
+      return bigCos(x, Ctor);
+    },
+    acos: (x: Operand<Big>) => {
+      return bigAcos(x, Ctor);
+    },
+    atan2: (y: Operand<Big>, x: Operand<Big>) => {
+      return bigAtan2(y, x, Ctor);
+    },
+    pi: bigPi(Ctor),
+    exp: (x: Operand<Big>) => {
+      return bigExp(x, Ctor);
+    },
+    ln: (x: Operand<Big>) => {
+      return bigLn(x, Ctor);
+    }
+  };
 }
 
+const BigOperatorSystem: IOperatorSystem<Big> = createBigOperatorSystem();
+
 export default BigOperatorSystem;
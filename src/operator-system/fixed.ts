@@ -0,0 +1,463 @@
+import { IOperatorSystem, Operand } from './types';
+import { Rational, isqrt, bigConstant } from './rational';
+import BaseOperatorSystem from './base';
+import { InvalidOperandError } from '../errors';
+
+const ZERO = bigConstant(0);
+const ONE = bigConstant(1);
+const TWO = bigConstant(2);
+const FOUR = bigConstant(4);
+const FIVE = bigConstant(5);
+
+// 三角函数内部额外保留的二进制位数，保证舍入到目标精度后结果稳定
+const GUARD_BITS = 32;
+// 正弦表的步长为 2^-6，覆盖 [0, π/4]
+const TABLE_STEP_BITS = 6;
+const TABLE_SIZE = 52;
+
+function abs(x: bigint): bigint {
+  return x < ZERO ? -x : x;
+}
+
+// base 的 n 次方，target 为 ES5 时不能使用 ** 运算符
+function pow(base: bigint, n: number): bigint {
+  let result = ONE;
+  for (let i = 0; i < n; i++) {
+    result *= base;
+  }
+  return result;
+}
+
+// 整数除法，四舍五入（远离 0）
+function divRound(n: bigint, d: bigint): bigint {
+  const negative = n < ZERO !== d < ZERO;
+  const a = abs(n);
+  const b = abs(d);
+  const q = (a + b / TWO) / b;
+  return negative ? -q : q;
+}
+
+// 除以 2^shift，四舍五入（远离 0）
+function shiftRound(x: bigint, shift: number): bigint {
+  const half = ONE << BigInt(shift - 1);
+  const s = BigInt(shift);
+  return x < ZERO ? -((-x + half) >> s) : (x + half) >> s;
+}
+
+/**
+ * Binary fixed-point number: the value is `raw / 2^bits`
+ *
+ * @export
+ * @class FixedPoint
+ */
+export class FixedPoint {
+  readonly raw: bigint;
+  readonly bits: number;
+
+  constructor(raw: bigint, bits: number) {
+    this.raw = raw;
+    this.bits = bits;
+  }
+
+  /**
+   * Creates a fixed-point number with the given fractional bits from a decimal string,
+   * a fraction string, a number or another fixed-point number, rounding to the nearest step
+   */
+  static from(x: Operand<FixedPoint>, bits: number): FixedPoint {
+    if (x instanceof FixedPoint) {
+      if (x.bits === bits) {
+        return x;
+      }
+      return new FixedPoint(
+        x.bits < bits
+          ? x.raw << BigInt(bits - x.bits)
+          : shiftRound(x.raw, x.bits - bits),
+        bits
+      );
+    }
+    // 整数不需要舍入
+    if (typeof x === 'number' && Number.isSafeInteger(x)) {
+      return new FixedPoint(BigInt(x) << BigInt(bits), bits);
+    }
+
+    let r: Rational;
+    try {
+      r = Rational.from(x);
+    } catch (e) {
+      throw new InvalidOperandError('FixedPointOperatorSystem', x);
+    }
+    return new FixedPoint(divRound(r.num << BigInt(bits), r.den), bits);
+  }
+
+  /**
+   * Exact decimal representation, every binary fraction has a finite decimal expansion
+   */
+  toString(): string {
+    const b = BigInt(this.bits);
+    const a = abs(this.raw);
+    const intPart = a >> b;
+    const frac = a - (intPart << b);
+    const sign = this.raw < ZERO ? '-' : '';
+    if (frac === ZERO) {
+      return sign + intPart.toString();
+    }
+    // frac / 2^bits = frac * 5^bits / 10^bits
+    let digits = (frac * pow(FIVE, this.bits)).toString();
+    while (digits.length < this.bits) {
+      digits = '0' + digits;
+    }
+    return `${sign}${intPart.toString()}.${digits.replace(/0+$/, '')}`;
+  }
+}
+
+/* ----------------------------------------------------
+    三角函数与指数、对数：全部使用整数运算，保证各平台结果一致
+----------------------------------------------------- */
+
+interface ITrigContext {
+  // 工作精度的二进制位数，以下数值均为 值 * 2^w 的整数
+  w: number;
+  one: bigint;
+  pi: bigint;
+  halfPi: bigint;
+  ln2: bigint;
+  // sin(j * 2^-6)、cos(j * 2^-6)
+  sinTable: bigint[];
+  cosTable: bigint[];
+}
+
+const trigContexts: { [w: number]: ITrigContext } = {};
+
+// arctan(1 / n)，泰勒级数
+function atanInv(n: bigint, one: bigint): bigint {
+  const n2 = n * n;
+  let power = one / n;
+  let sum = power;
+  let k = ONE;
+  let sign = -ONE;
+  while (power !== ZERO) {
+    power /= n2;
+    k += TWO;
+    sum += (sign * power) / k;
+    sign = -sign;
+  }
+  return sum;
+}
+
+// artanh(1 / n)，泰勒级数
+function atanhInv(n: bigint, one: bigint): bigint {
+  const n2 = n * n;
+  let power = one / n;
+  let sum = power;
+  let k = ONE;
+  while (power !== ZERO) {
+    power /= n2;
+    k += TWO;
+    sum += power / k;
+  }
+  return sum;
+}
+
+// |x| 较小时的正弦、余弦泰勒级数
+function sinSeries(x: bigint, w: bigint): bigint {
+  let term = x;
+  let sum = x;
+  for (let i = 2; term !== ZERO; i += 2) {
+    term = -((((term * x) >> w) * x) >> w) / BigInt(i * (i + 1));
+    sum += term;
+  }
+  return sum;
+}
+
+function cosSeries(x: bigint, one: bigint, w: bigint): bigint {
+  let term = one;
+  let sum = one;
+  for (let i = 1; term !== ZERO; i += 2) {
+    term = -((((term * x) >> w) * x) >> w) / BigInt(i * (i + 1));
+    sum += term;
+  }
+  return sum;
+}
+
+function trigContext(w: number): ITrigContext {
+  if (!trigContexts[w]) {
+    const one = ONE << BigInt(w);
+    const wb = BigInt(w);
+    // Machin 公式：π = 16 arctan(1/5) - 4 arctan(1/239)
+    const pi = FOUR * (FOUR * atanInv(FIVE, one) - atanInv(BigInt(239), one));
+    const sinTable: bigint[] = [];
+    const cosTable: bigint[] = [];
+    for (let j = 0; j < TABLE_SIZE; j++) {
+      const x = BigInt(j) << BigInt(w - TABLE_STEP_BITS);
+      sinTable.push(sinSeries(x, wb));
+      cosTable.push(cosSeries(x, one, wb));
+    }
+    // ln 2 = 2 artanh(1/3)
+    const ln2 = TWO * atanhInv(BigInt(3), one);
+    trigContexts[w] = {
+      w,
+      one,
+      pi,
+      halfPi: pi / TWO,
+      ln2,
+      sinTable,
+      cosTable
+    };
+  }
+  return trigContexts[w];
+}
+
+// 返回 [sin(x), cos(x)]，x 与结果均为工作精度
+function sinCos(x: bigint, ctx: ITrigContext): [bigint, bigint] {
+  const w = BigInt(ctx.w);
+  // x = k * π/2 + r，|r| <= π/4
+  const k = divRound(x, ctx.halfPi);
+  const r = x - k * ctx.halfPi;
+
+  // r = j * 2^-6 + d，查表后用和角公式修正
+  const step = BigInt(ctx.w - TABLE_STEP_BITS);
+  const j = abs(r) >> step;
+  const d = abs(r) - (j << step);
+  const ts = ctx.sinTable[Number(j)];
+  const tc = ctx.cosTable[Number(j)];
+  const sd = sinSeries(d, w);
+  const cd = cosSeries(d, ctx.one, w);
+  let s = (ts * cd + tc * sd) >> w;
+  const c = (tc * cd - ts * sd) >> w;
+  if (r < ZERO) {
+    s = -s;
+  }
+
+  switch (Number(((k % FOUR) + FOUR) % FOUR)) {
+    case 1:
+      return [c, -s];
+    case 2:
+      return [-s, -c];
+    case 3:
+      return [-c, s];
+    default:
+      return [s, c];
+  }
+}
+
+// arctan(t)，|t| <= 1
+function atan(t: bigint, ctx: ITrigContext): bigint {
+  // 奇函数；只对非负数做右移，避免负数向下取整时级数不收敛
+  if (t < ZERO) {
+    return -atan(-t, ctx);
+  }
+  const w = BigInt(ctx.w);
+  // 半角公式 atan(t) = 2 atan(t / (1 + sqrt(1 + t^2)))，缩小两次后级数收敛更快
+  for (let i = 0; i < 2; i++) {
+    const root = isqrt((ctx.one + ((t * t) >> w)) << w);
+    t = (t << w) / (ctx.one + root);
+  }
+  const t2 = (t * t) >> w;
+  let power = t;
+  let sum = t;
+  let k = ONE;
+  let sign = -ONE;
+  while (power !== ZERO) {
+    power = (power * t2) >> w;
+    k += TWO;
+    sum += (sign * power) / k;
+    sign = -sign;
+  }
+  return sum * FOUR;
+}
+
+function atan2(y: bigint, x: bigint, ctx: ITrigContext): bigint {
+  const w = BigInt(ctx.w);
+  if (y === ZERO && x === ZERO) {
+    return ZERO;
+  }
+  if (abs(y) <= abs(x)) {
+    const a = atan((y << w) / x, ctx);
+    if (x > ZERO) {
+      return a;
+    }
+    return y < ZERO ? a - ctx.pi : a + ctx.pi;
+  }
+  const a = atan((x << w) / y, ctx);
+  return (y > ZERO ? ctx.halfPi : -ctx.halfPi) - a;
+}
+
+function exp(x: bigint, ctx: ITrigContext): bigint {
+  const w = BigInt(ctx.w);
+  // x = k * ln2 + r，|r| <= ln2 / 2，exp(x) = 2^k * exp(r)
+  const k = divRound(x, ctx.ln2);
+  const r = x - k * ctx.ln2;
+  let term = ctx.one;
+  let sum = ctx.one;
+  // BigInt 除法向 0 取整，负数项同样会收敛到 0
+  for (let i = 1; term !== ZERO; i++) {
+    term = ((term * r) >> w) / BigInt(i);
+    sum += term;
+  }
+  return k >= ZERO ? sum << k : shiftRound(sum, Number(-k));
+}
+
+function ln(x: bigint, ctx: ITrigContext): bigint {
+  const w = BigInt(ctx.w);
+  // x = 2^k * m，m ∈ [1, 2)，ln(x) = k * ln2 + 2 artanh((m - 1) / (m + 1))
+  const k = x.toString(2).length - 1 - ctx.w;
+  const m = k >= 0 ? x >> BigInt(k) : x << BigInt(-k);
+  const u = ((m - ctx.one) << w) / (m + ctx.one);
+  const u2 = (u * u) >> w;
+  let power = u;
+  let sum = u;
+  for (let i = ONE; power !== ZERO; ) {
+    power = (power * u2) >> w;
+    i += TWO;
+    sum += power / i;
+  }
+  return BigInt(k) * ctx.ln2 + TWO * sum;
+}
+
+export interface IFixedPointOptions {
+  // 小数部分的二进制位数，默认 32（即 2^-32 ≈ 2.3e-10 的步长）
+  fractionalBits?: number;
+}
+
+/**
+ * Creates a binary fixed-point operator system backed by BigInt.
+ *
+ * Every operation, including `sqrt`, `exp`, `ln` and the table-based trigonometry, only uses
+ * integer arithmetic and rounds in a fixed way, so results are bit-identical on every platform.
+ * The integer part is unbounded, the fractional part has `fractionalBits` bits.
+ *
+ * The `precision` rank is the number of decimal digits the fractional part holds
+ * (`fractionalBits * log10(2)`), but never below the base system's rank + 1, the same as
+ * for big contexts. The name of a non-default width includes it, e.g.
+ * `FixedPointOperatorSystem(bits=64)`
+ *
+ * @export
+ * @param {IFixedPointOptions} [options={}]
+ * @returns {IOperatorSystem<FixedPoint>}
+ * @example
+ *     var system = createFixedPointOperatorSystem({ fractionalBits: 16 });
+ *     system.divide(1, 3).toString();
+ *     // => 0.3333282470703125
+ */
+export function createFixedPointOperatorSystem(
+  options: IFixedPointOptions = {}
+): IOperatorSystem<FixedPoint> {
+  const { fractionalBits: bits = 32 } = options;
+  if (!(bits >= 1 && bits === Math.floor(bits))) {
+    throw Error('[fixed] Invalid fractional bits');
+  }
+  const b = bigConstant(bits);
+  const guard = bigConstant(GUARD_BITS);
+  const from = (x: Operand<FixedPoint>) => FixedPoint.from(x, bits);
+  const fixed = (raw: bigint) => new FixedPoint(raw, bits);
+  const compare = (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+    const a = from(x).raw;
+    const c = from(y).raw;
+    return a < c ? -1 : a > c ? 1 : 0;
+  };
+
+  // 与工作精度之间的转换
+  const ctx = () => trigContext(bits + GUARD_BITS);
+  const widen = (x: Operand<FixedPoint>) => from(x).raw << guard;
+  const narrow = (x: bigint) => fixed(shiftRound(x, GUARD_BITS));
+
+  // 默认位数沿用原来的名字
+  const isDefault = bits === 32;
+
+  return {
+    name: isDefault
+      ? 'FixedPointOperatorSystem'
+      : `FixedPointOperatorSystem(bits=${bits})`,
+    precision: Math.max(
+      (bits * Math.LN2) / Math.LN10,
+      (BaseOperatorSystem.precision || 0) + 1
+    ),
+    create: (x: Operand<FixedPoint>) => {
+      return from(x);
+    },
+    plus: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return fixed(from(x).raw + from(y).raw);
+    },
+    minus: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return fixed(from(x).raw - from(y).raw);
+    },
+    divide: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      const d = from(y).raw;
+      if (d === ZERO) {
+        throw Error('[fixed] Division by zero');
+      }
+      return fixed(divRound(from(x).raw << b, d));
+    },
+    multiply: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return fixed(shiftRound(from(x).raw * from(y).raw, bits));
+    },
+    sqrt: (x: Operand<FixedPoint>) => {
+      const n = from(x).raw << b;
+      if (n < ZERO) {
+        throw Error('[fixed] No square root');
+      }
+      // 向下取整的整数平方根，余数超过一半时进一
+      const root = isqrt(n);
+      return fixed(n - root * root > root ? root + ONE : root);
+    },
+    abs: (x: Operand<FixedPoint>) => {
+      return fixed(abs(from(x).raw));
+    },
+    equal: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return from(x).raw === from(y).raw;
+    },
+    compare,
+    lt: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return compare(x, y) < 0;
+    },
+    gt: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return compare(x, y) > 0;
+    },
+    sign: (x: Operand<FixedPoint>) => {
+      return compare(x, 0);
+    },
+    min: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return compare(x, y) > 0 ? from(y) : from(x);
+    },
+    max: (x: Operand<FixedPoint>, y: Operand<FixedPoint>) => {
+      return compare(x, y) < 0 ? from(y) : from(x);
+    },
+    sin: (x: Operand<FixedPoint>) => {
+      return narrow(sinCos(widen(x), ctx())[0]);
+    },
+    cos: (x: Operand<FixedPoint>) => {
+      return narrow(sinCos(widen(x), ctx())[1]);
+    },
+    acos: (x: Operand<FixedPoint>) => {
+      const c = ctx();
+      const a = widen(x);
+      if (abs(a) > c.one) {
+        throw Error('[fixed] acos argument out of range');
+      }
+      const w = BigInt(c.w);
+      const s = isqrt((c.one - ((a * a) >> w)) << w);
+      return narrow(atan2(s, a, c));
+    },
+    atan2: (y: Operand<FixedPoint>, x: Operand<FixedPoint>) => {
+      return narrow(atan2(widen(y), widen(x), ctx()));
+    },
+    // 用到时才计算 π 的表
+    get pi() {
+      return narrow(ctx().pi);
+    },
+    exp: (x: Operand<FixedPoint>) => {
+      return narrow(exp(widen(x), ctx()));
+    },
+    ln: (x: Operand<FixedPoint>) => {
+      const a = widen(x);
+      if (a <= ZERO) {
+        throw Error('[fixed] ln argument must be positive');
+      }
+      return narrow(ln(a, ctx()));
+    }
+  };
+}
+
+const FixedPointOperatorSystem = createFixedPointOperatorSystem();
+
+export default FixedPointOperatorSystem;
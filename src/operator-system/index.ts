@@ -1,9 +1,59 @@
 import BaseOperatorSystem from './base';
-import BigOperatorSystem from './big';
+import BigOperatorSystem, { createBigOperatorSystem } from './big';
+import FixedPointOperatorSystem, {
+  FixedPoint,
+  createFixedPointOperatorSystem
+} from './fixed';
+import IntervalOperatorSystem, { Interval, nextUp, nextDown } from './interval';
+import RationalOperatorSystem, {
+  Rational,
+  createRationalOperatorSystem,
+  HAS_BIGINT
+} from './rational';
+import registry, {
+  registerSystem,
+  unregisterSystem,
+  listSystems,
+  getSystem,
+  resolveSystem,
+  missingMembers
+} from './registry';
 
 export * from './types';
-export { BaseOperatorSystem, BigOperatorSystem };
-export default {
-  base: BaseOperatorSystem,
-  big: BigOperatorSystem
+export { IBigContext } from './big';
+export { IRationalOptions } from './rational';
+export { IFixedPointOptions } from './fixed';
+export {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  createBigOperatorSystem,
+  RationalOperatorSystem,
+  Rational,
+  createRationalOperatorSystem,
+  IntervalOperatorSystem,
+  Interval,
+  nextUp,
+  nextDown,
+  FixedPointOperatorSystem,
+  FixedPoint,
+  createFixedPointOperatorSystem,
+  registerSystem,
+  unregisterSystem,
+  listSystems,
+  getSystem,
+  resolveSystem,
+  missingMembers
 };
+
+// 内置的算术体系，分数与定点数体系依赖 BigInt，运行环境不支持时不注册
+registerSystem('base', BaseOperatorSystem);
+registerSystem('big', BigOperatorSystem);
+if (HAS_BIGINT) {
+  registerSystem('rational', RationalOperatorSystem);
+}
+registerSystem('interval', IntervalOperatorSystem);
+if (HAS_BIGINT) {
+  registerSystem('fixed', FixedPointOperatorSystem);
+}
+
+export default registry;
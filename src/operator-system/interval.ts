@@ -0,0 +1,401 @@
+import { IOperatorSystem, Operand, Uncertain, UNCERTAIN } from './types';
+import { InvalidOperandError } from '../errors';
+
+/**
+ * Interval operator system: every value is an enclosure `[lo, hi]` of the true result.
+ *
+ * `plus`, `minus`, `multiply`, `divide` and `sqrt` use error-free transformations to round
+ * each bound outward only when the float result is inexact, so integer inputs stay degenerate.
+ * Trigonometry, `exp` and `ln` rely on the platform `Math` functions and widen their results
+ * by a few ulps.
+ */
+
+// 匹配区间字符串，如 "[1, 2]"
+const INTERVAL_REG = /^\s*\[\s*([^,\s]+)\s*,\s*([^\]\s]+)\s*\]\s*$/;
+
+// 三角函数结果额外放宽的 ulp 数，弥补 Math 库本身的误差
+const TRIG_ULPS = 2;
+
+// Dekker 拆分常数 2^27 + 1
+const SPLITTER = 134217729;
+
+const view = new DataView(new ArrayBuffer(8));
+
+/**
+ * The smallest double greater than x
+ */
+export function nextUp(x: number): number {
+  if (x !== x || x === Infinity) {
+    return x;
+  }
+  if (x === 0) {
+    return Number.MIN_VALUE;
+  }
+  view.setFloat64(0, x);
+  let hi = view.getUint32(0);
+  let lo = view.getUint32(4);
+  // 正数的位模式加一、负数的位模式减一，都会让数值变大
+  if (x > 0) {
+    lo = (lo + 1) >>> 0;
+    if (lo === 0) {
+      hi += 1;
+    }
+  } else {
+    if (lo === 0) {
+      hi -= 1;
+    }
+    lo = (lo - 1) >>> 0;
+  }
+  view.setUint32(0, hi);
+  view.setUint32(4, lo);
+  return view.getFloat64(0);
+}
+
+/**
+ * The largest double smaller than x
+ */
+export function nextDown(x: number): number {
+  return -nextUp(-x);
+}
+
+// 无误差变换：a + b = s + err
+function twoSum(a: number, b: number): [number, number] {
+  const s = a + b;
+  const bb = s - a;
+  return [s, a - (s - bb) + (b - bb)];
+}
+
+function split(a: number): [number, number] {
+  const c = SPLITTER * a;
+  const hi = c - (c - a);
+  return [hi, a - hi];
+}
+
+// 无误差变换：a * b = p + err（Dekker 算法，不依赖 FMA）
+function twoProduct(a: number, b: number): [number, number] {
+  const p = a * b;
+  const [ah, al] = split(a);
+  const [bh, bl] = split(b);
+  return [p, ah * bh - p + ah * bl + al * bh + al * bl];
+}
+
+// 根据误差的符号向上或向下取整；误差未知时直接放宽一个 ulp
+function settle(value: number, err: number, up: boolean): number {
+  if (value === Infinity && !up) {
+    return Number.MAX_VALUE;
+  }
+  if (value === -Infinity && up) {
+    return -Number.MAX_VALUE;
+  }
+  if (!isFinite(value)) {
+    return value;
+  }
+  if (!isFinite(err)) {
+    return up ? nextUp(value) : nextDown(value);
+  }
+  if (up) {
+    return err > 0 ? nextUp(value) : value;
+  }
+  return err < 0 ? nextDown(value) : value;
+}
+
+function add(a: number, b: number, up: boolean): number {
+  const [s, err] = twoSum(a, b);
+  return settle(s, err, up);
+}
+
+function mul(a: number, b: number, up: boolean): number {
+  // 0 * Infinity 视为 0，区间端点的无穷只表示无界
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+  const [p, err] = twoProduct(a, b);
+  return settle(p, err, up);
+}
+
+function div(a: number, b: number, up: boolean): number {
+  const q = a / b;
+  const [p, e] = twoProduct(q, b);
+  const r = a - p - e;
+  // 真实的商为 q + r / b，只需要判断 r / b 的符号
+  const err = r === 0 ? 0 : r > 0 === b > 0 ? 1 : -1;
+  return settle(q, isFinite(r) ? err : NaN, up);
+}
+
+function sqrtOf(x: number, up: boolean): number {
+  const s = Math.sqrt(x);
+  const [p, e] = twoProduct(s, s);
+  const r = x - p - e;
+  return settle(s, isFinite(r) ? r : NaN, up);
+}
+
+// 三角函数的结果向外放宽若干 ulp，并限制在 [min, max] 范围内
+function widen(lo: number, hi: number, min: number, max: number): Interval {
+  for (let i = 0; i < TRIG_ULPS; i++) {
+    lo = nextDown(lo);
+    hi = nextUp(hi);
+  }
+  return new Interval(Math.max(lo, min), Math.min(hi, max));
+}
+
+// 判断区间 [lo, hi] 内是否存在 offset + 2kPI 形式的点
+function containsPeriodic(lo: number, hi: number, offset: number): boolean {
+  const period = 2 * Math.PI;
+  const k = Math.ceil((lo - offset) / period);
+  return offset + k * period <= hi;
+}
+
+/**
+ * A closed interval `[lo, hi]` of doubles that encloses a real value
+ *
+ * @export
+ * @class Interval
+ */
+export class Interval {
+  readonly lo: number;
+  readonly hi: number;
+
+  constructor(lo: number, hi: number = lo) {
+    if (lo !== lo || hi !== hi || lo > hi) {
+      throw new InvalidOperandError('IntervalOperatorSystem', `[${lo}, ${hi}]`);
+    }
+    this.lo = lo;
+    this.hi = hi;
+  }
+
+  /**
+   * Creates an interval from an interval string ("[1, 2]"), a number or a decimal string.
+   * Numbers are taken as exact doubles; decimal strings that are not safe integers are widened
+   * by one ulp on each side, so "0.1" gives an interval that really contains 0.1
+   */
+  static from(x: Operand<Interval>): Interval {
+    if (x instanceof Interval) {
+      return x;
+    }
+    if (typeof x === 'number') {
+      return new Interval(x);
+    }
+    const str = String(x);
+    const match = INTERVAL_REG.exec(str);
+    if (match) {
+      return new Interval(Number(match[1]), Number(match[2]));
+    }
+    const value = Number(str);
+    if (str.trim() === '' || value !== value) {
+      throw new InvalidOperandError('IntervalOperatorSystem', x);
+    }
+    if (Number.isSafeInteger(value)) {
+      return new Interval(value);
+    }
+    return new Interval(nextDown(value), nextUp(value));
+  }
+
+  get width(): number {
+    return this.hi - this.lo;
+  }
+
+  get mid(): number {
+    return this.lo / 2 + this.hi / 2;
+  }
+
+  // 是否是退化区间（上下界相同，即精确值）
+  isExact(): boolean {
+    return this.lo === this.hi;
+  }
+
+  contains(value: number): boolean {
+    return this.lo <= value && value <= this.hi;
+  }
+
+  toString(): string {
+    return `[${this.lo}, ${this.hi}]`;
+  }
+}
+
+const from = Interval.from;
+
+// 四个端点组合中取最小、最大值，乘除法共用
+function extremes(a: Interval, b: Interval, op): Interval {
+  const lows = [
+    op(a.lo, b.lo, false),
+    op(a.lo, b.hi, false),
+    op(a.hi, b.lo, false),
+    op(a.hi, b.hi, false)
+  ];
+  const highs = [
+    op(a.lo, b.lo, true),
+    op(a.lo, b.hi, true),
+    op(a.hi, b.lo, true),
+    op(a.hi, b.hi, true)
+  ];
+  return new Interval(Math.min(...lows), Math.max(...highs));
+}
+
+function sinOf(a: Interval): Interval {
+  if (a.width >= 2 * Math.PI) {
+    return new Interval(-1, 1);
+  }
+  const sa = Math.sin(a.lo);
+  const sb = Math.sin(a.hi);
+  const lo = containsPeriodic(a.lo, a.hi, -Math.PI / 2) ? -1 : Math.min(sa, sb);
+  const hi = containsPeriodic(a.lo, a.hi, Math.PI / 2) ? 1 : Math.max(sa, sb);
+  return widen(lo, hi, -1, 1);
+}
+
+function cosOf(a: Interval): Interval {
+  if (a.width >= 2 * Math.PI) {
+    return new Interval(-1, 1);
+  }
+  const ca = Math.cos(a.lo);
+  const cb = Math.cos(a.hi);
+  const lo = containsPeriodic(a.lo, a.hi, Math.PI) ? -1 : Math.min(ca, cb);
+  const hi = containsPeriodic(a.lo, a.hi, 0) ? 1 : Math.max(ca, cb);
+  return widen(lo, hi, -1, 1);
+}
+
+function atan2Of(y: Interval, x: Interval): Interval {
+  const full = widen(-Math.PI, Math.PI, -Infinity, Infinity);
+  // 包含原点，或者跨过负 X 轴（atan2 在此处不连续）时，只能给出整个范围
+  if (y.contains(0) && (x.contains(0) || (x.lo < 0 && y.lo < 0))) {
+    return full;
+  }
+  const angles = [
+    Math.atan2(y.lo, x.lo),
+    Math.atan2(y.lo, x.hi),
+    Math.atan2(y.hi, x.lo),
+    Math.atan2(y.hi, x.hi)
+  ];
+  return widen(Math.min(...angles), Math.max(...angles), full.lo, full.hi);
+}
+
+// 只有两个区间不重叠（或都是相同的精确值）时才能确定大小关系
+function compare(a: Interval, b: Interval): number {
+  if (a.hi < b.lo) {
+    return -1;
+  }
+  if (a.lo > b.hi) {
+    return 1;
+  }
+  return a.isExact() && b.isExact() ? 0 : NaN;
+}
+
+const IntervalOperatorSystem: IOperatorSystem<Interval> = {
+  name: 'IntervalOperatorSystem',
+  // 高于大数体系：十进制字符串都可以转换成包含它的区间
+  precision: 30,
+  // 取区间中点
+  toDecimal: (x: Operand<Interval>) => {
+    return String(from(x).mid);
+  },
+  create: (x: Operand<Interval>) => {
+    return from(x);
+  },
+  plus: (x: Operand<Interval>, y: Operand<Interval>) => {
+    const a = from(x);
+    const b = from(y);
+    return new Interval(add(a.lo, b.lo, false), add(a.hi, b.hi, true));
+  },
+  minus: (x: Operand<Interval>, y: Operand<Interval>) => {
+    const a = from(x);
+    const b = from(y);
+    return new Interval(add(a.lo, -b.hi, false), add(a.hi, -b.lo, true));
+  },
+  divide: (x: Operand<Interval>, y: Operand<Interval>) => {
+    const b = from(y);
+    if (b.contains(0)) {
+      throw Error('[interval] Division by an interval containing zero');
+    }
+    return extremes(from(x), b, div);
+  },
+  multiply: (x: Operand<Interval>, y: Operand<Interval>) => {
+    return extremes(from(x), from(y), mul);
+  },
+  sqrt: (x: Operand<Interval>) => {
+    const a = from(x);
+    if (a.hi < 0) {
+      throw Error('[interval] No square root');
+    }
+    return new Interval(sqrtOf(Math.max(a.lo, 0), false), sqrtOf(a.hi, true));
+  },
+  abs: (x: Operand<Interval>) => {
+    const a = from(x);
+    if (a.lo >= 0) {
+      return a;
+    }
+    if (a.hi <= 0) {
+      return new Interval(-a.hi, -a.lo);
+    }
+    return new Interval(0, Math.max(-a.lo, a.hi));
+  },
+  // 三值比较：确定相等、确定不等，或者区间重叠无法判断
+  equal: (x: Operand<Interval>, y: Operand<Interval>): boolean | Uncertain => {
+    const a = from(x);
+    const b = from(y);
+    if (a.hi < b.lo || b.hi < a.lo) {
+      return false;
+    }
+    if (a.isExact() && b.isExact()) {
+      return true;
+    }
+    return UNCERTAIN;
+  },
+  compare: (x: Operand<Interval>, y: Operand<Interval>) => {
+    return compare(from(x), from(y));
+  },
+  lt: (x: Operand<Interval>, y: Operand<Interval>) => {
+    return from(x).hi < from(y).lo;
+  },
+  gt: (x: Operand<Interval>, y: Operand<Interval>) => {
+    return from(x).lo > from(y).hi;
+  },
+  sign: (x: Operand<Interval>) => {
+    return compare(from(x), new Interval(0));
+  },
+  min: (x: Operand<Interval>, y: Operand<Interval>) => {
+    const a = from(x);
+    const b = from(y);
+    return new Interval(Math.min(a.lo, b.lo), Math.min(a.hi, b.hi));
+  },
+  max: (x: Operand<Interval>, y: Operand<Interval>) => {
+    const a = from(x);
+    const b = from(y);
+    return new Interval(Math.max(a.lo, b.lo), Math.max(a.hi, b.hi));
+  },
+  sin: (x: Operand<Interval>) => {
+    return sinOf(from(x));
+  },
+  cos: (x: Operand<Interval>) => {
+    return cosOf(from(x));
+  },
+  acos: (x: Operand<Interval>) => {
+    const a = from(x);
+    if (a.lo > 1 || a.hi < -1) {
+      throw Error('[interval] acos argument out of range');
+    }
+    // acos 单调递减
+    const lo = Math.acos(Math.min(a.hi, 1));
+    const hi = Math.acos(Math.max(a.lo, -1));
+    return widen(lo, hi, 0, Infinity);
+  },
+  atan2: (y: Operand<Interval>, x: Operand<Interval>) => {
+    return atan2Of(from(y), from(x));
+  },
+  // Math.PI 比真实的 PI 略小
+  pi: new Interval(Math.PI, nextUp(Math.PI)),
+  exp: (x: Operand<Interval>) => {
+    const a = from(x);
+    // exp 单调递增
+    return widen(Math.exp(a.lo), Math.exp(a.hi), 0, Infinity);
+  },
+  ln: (x: Operand<Interval>) => {
+    const a = from(x);
+    if (a.hi <= 0) {
+      throw Error('[interval] ln argument must be positive');
+    }
+    // ln 单调递增，区间包含 0 时下界为 -Infinity
+    const lo = a.lo > 0 ? Math.log(a.lo) : -Infinity;
+    return widen(lo, Math.log(a.hi), -Infinity, Infinity);
+  }
+};
+
+export default IntervalOperatorSystem;
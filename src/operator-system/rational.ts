@@ -0,0 +1,346 @@
+import Big from 'big.js';
+import { IOperatorSystem, Operand } from './types';
+import {
+  bigPi,
+  bigSin,
+  bigCos,
+  bigAcos,
+  bigAtan2,
+  bigExp,
+  bigLn
+} from './big-trig';
+import {
+  IrrationalResultError,
+  InvalidOperandError,
+  UndefinedResultError
+} from '../errors';
+
+// 运行环境是否支持 BigInt（Node.js >= 10.4），不支持时不注册分数与定点数体系
+export const HAS_BIGINT = typeof BigInt !== 'undefined';
+
+/**
+ * Creates a BigInt constant, or `undefined` when the runtime has no BigInt, so that the
+ * BigInt based systems can still be imported (and skipped) there. Only for values that
+ * are not used before an operation is actually called
+ */
+export function bigConstant(value: number): bigint {
+  return HAS_BIGINT ? BigInt(value) : ((undefined as any) as bigint);
+}
+
+const ZERO = bigConstant(0);
+const ONE = bigConstant(1);
+const TWO = bigConstant(2);
+
+// 匹配分数（如 "3/7"）
+const FRACTION_REG = /^\s*([+-]?\d+)\s*\/\s*([+-]?\d+)\s*$/;
+// 匹配十进制小数，支持科学计数法（如 "-1.25e-3"）
+const DECIMAL_REG = /^\s*([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?\s*$/i;
+// 科学计数法指数的上限，过大的指数会生成极长的 BigInt
+const MAX_EXPONENT = 1000;
+
+function abs(x: bigint): bigint {
+  return x < ZERO ? -x : x;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = abs(a);
+  b = abs(b);
+  while (b !== ZERO) {
+    const t = a % b;
+    a = b;
+    b = t;
+  }
+  return a;
+}
+
+// 10 的 n 次方，target 为 ES5 时不能使用 ** 运算符，直接由数字字符串构造
+function pow10(n: number): bigint {
+  return BigInt('1' + new Array(n + 1).join('0'));
+}
+
+// 整数平方根（向下取整），牛顿迭代
+export function isqrt(n: bigint): bigint {
+  if (n < TWO) {
+    return n;
+  }
+  let x = n;
+  let y = (x + ONE) / TWO;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / TWO;
+  }
+  return x;
+}
+
+// 分母恒为正，交叉相乘即可比较大小
+function compare(a: Rational, b: Rational): number {
+  const left = a.num * b.den;
+  const right = b.num * a.den;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Exact fraction stored as a reduced BigInt numerator / denominator pair,
+ * the denominator is always positive
+ *
+ * @export
+ * @class Rational
+ */
+export class Rational {
+  readonly num: bigint;
+  readonly den: bigint;
+
+  constructor(num: bigint, den: bigint = ONE) {
+    if (den === ZERO) {
+      throw new UndefinedResultError('divide', `${num}, 0`);
+    }
+    const divisor = gcd(num, den) || ONE;
+    const sign = den < ZERO ? -ONE : ONE;
+    this.num = (sign * num) / divisor;
+    this.den = (sign * den) / divisor;
+  }
+
+  /**
+   * Creates a rational from a fraction string ("3/7"), a decimal string ("-0.125", "1e-3"),
+   * a number or a bigint. Numbers are read through their shortest decimal representation,
+   * so `0.1` becomes exactly `1/10`
+   */
+  static from(x: Operand<Rational> | bigint): Rational {
+    if (x instanceof Rational) {
+      return x;
+    }
+    if (typeof x === 'bigint') {
+      return new Rational(x);
+    }
+    if (typeof x === 'number' && !isFinite(x)) {
+      throw new InvalidOperandError('RationalOperatorSystem', x);
+    }
+
+    const str = String(x);
+    const fraction = FRACTION_REG.exec(str);
+    if (fraction) {
+      const den = BigInt(fraction[2]);
+      if (den === ZERO) {
+        throw new InvalidOperandError('RationalOperatorSystem', x);
+      }
+      return new Rational(BigInt(fraction[1]), den);
+    }
+
+    const decimal = DECIMAL_REG.exec(str);
+    if (!decimal || (!decimal[2] && !decimal[3])) {
+      throw new InvalidOperandError('RationalOperatorSystem', x);
+    }
+    const [, sign, intPart = '', fracPart = '', exp = '0'] = decimal;
+    let num = BigInt((intPart + fracPart) || '0');
+    let den = pow10(fracPart.length);
+    const exponent = Number(exp);
+    if (Math.abs(exponent) > MAX_EXPONENT) {
+      throw new InvalidOperandError('RationalOperatorSystem', x);
+    }
+    if (exponent > 0) {
+      num *= pow10(exponent);
+    } else {
+      den *= pow10(-exponent);
+    }
+    return new Rational(sign === '-' ? -num : num, den);
+  }
+
+  /**
+   * Decimal representation rounded half up (ties away from zero) to the given number of
+   * decimal places, the default rounding mode of big.js
+   */
+  toDecimal(places: number): string {
+    // |num| * 10^places / den 四舍五入
+    const scaled =
+      (abs(this.num) * pow10(places) * TWO + this.den) / (TWO * this.den);
+    let digits = scaled.toString();
+    while (digits.length < places + 1) {
+      digits = '0' + digits;
+    }
+    const intPart = digits.slice(0, digits.length - places);
+    const fracPart = digits.slice(digits.length - places).replace(/0+$/, '');
+    const sign = this.num < ZERO && scaled !== ZERO ? '-' : '';
+    return sign + intPart + (fracPart ? '.' + fracPart : '');
+  }
+
+  toString(): string {
+    return this.den === ONE
+      ? this.num.toString()
+      : `${this.num.toString()}/${this.den.toString()}`;
+  }
+}
+
+export interface IRationalOptions {
+  // 无理数结果（开方、三角函数、指数与对数）的近似小数位数；不设置时直接抛出 IrrationalResultError
+  decimalPlaces?: number;
+}
+
+/**
+ * Creates an exact rational operator system.
+ *
+ * `plus`, `minus`, `multiply` and `divide` are always exact. `sqrt` is exact for perfect squares,
+ * other irrational results (`sqrt`, trigonometry, `exp`, `ln` and `pi`) either throw `IrrationalResultError`
+ * or, when `decimalPlaces` is set, are approximated to that many decimal places.
+ *
+ * @export
+ * @param {IRationalOptions} [options={}]
+ * @returns {IOperatorSystem<Rational>}
+ */
+export function createRationalOperatorSystem(
+  options: IRationalOptions = {}
+): IOperatorSystem<Rational> {
+  const { decimalPlaces } = options;
+  const from = Rational.from;
+
+  // 按配置的精度近似无理数结果，未配置时抛出异常
+  const approximate = (operation: string, operand: string, compute) => {
+    if (decimalPlaces === undefined) {
+      throw new IrrationalResultError(operation, operand);
+    }
+    const Ctor = Big();
+    Ctor.DP = decimalPlaces;
+    return from(compute(Ctor).toString());
+  };
+
+  // 传给 big.js 的小数表示，多保留几位避免截断误差
+  const toBig = (x: Rational) => x.toDecimal((decimalPlaces || 0) + 10);
+
+  const system: IOperatorSystem<Rational> = {
+    name: 'RationalOperatorSystem',
+    precision: 40,
+    toDecimal: (x: Operand<Rational>) => {
+      return from(x).toDecimal(decimalPlaces === undefined ? 20 : decimalPlaces);
+    },
+    create: (x: Operand<Rational>) => {
+      return from(x);
+    },
+    plus: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return new Rational(a.num * b.den + b.num * a.den, a.den * b.den);
+    },
+    minus: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return new Rational(a.num * b.den - b.num * a.den, a.den * b.den);
+    },
+    divide: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      if (b.num === ZERO) {
+        throw new UndefinedResultError('divide', `${a}, ${b}`);
+      }
+      return new Rational(a.num * b.den, a.den * b.num);
+    },
+    multiply: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return new Rational(a.num * b.num, a.den * b.den);
+    },
+    sqrt: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num < ZERO) {
+        throw new UndefinedResultError('sqrt', a.toString());
+      }
+      const num = isqrt(a.num);
+      const den = isqrt(a.den);
+      if (num * num === a.num && den * den === a.den) {
+        return new Rational(num, den);
+      }
+      return approximate('sqrt', a.toString(), Ctor =>
+        new Ctor(toBig(a)).sqrt()
+      );
+    },
+    abs: (x: Operand<Rational>) => {
+      const a = from(x);
+      return new Rational(abs(a.num), a.den);
+    },
+    equal: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return a.num === b.num && a.den === b.den;
+    },
+    compare: (x: Operand<Rational>, y: Operand<Rational>) => {
+      return compare(from(x), from(y));
+    },
+    lt: (x: Operand<Rational>, y: Operand<Rational>) => {
+      return compare(from(x), from(y)) < 0;
+    },
+    gt: (x: Operand<Rational>, y: Operand<Rational>) => {
+      return compare(from(x), from(y)) > 0;
+    },
+    sign: (x: Operand<Rational>) => {
+      const a = from(x);
+      return a.num > ZERO ? 1 : a.num < ZERO ? -1 : 0;
+    },
+    min: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return compare(a, b) > 0 ? b : a;
+    },
+    max: (x: Operand<Rational>, y: Operand<Rational>) => {
+      const a = from(x);
+      const b = from(y);
+      return compare(a, b) < 0 ? b : a;
+    },
+    sin: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num === ZERO) {
+        return a;
+      }
+      return approximate('sin', a.toString(), Ctor => bigSin(toBig(a), Ctor));
+    },
+    cos: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num === ZERO) {
+        return new Rational(ONE);
+      }
+      return approximate('cos', a.toString(), Ctor => bigCos(toBig(a), Ctor));
+    },
+    acos: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num === ONE && a.den === ONE) {
+        return new Rational(ZERO);
+      }
+      return approximate('acos', a.toString(), Ctor => bigAcos(toBig(a), Ctor));
+    },
+    atan2: (y: Operand<Rational>, x: Operand<Rational>) => {
+      const a = from(y);
+      const b = from(x);
+      // 正 X 轴上（以及原点）的角度为 0
+      if (a.num === ZERO && b.num >= ZERO) {
+        return new Rational(ZERO);
+      }
+      return approximate('atan2', `${a}, ${b}`, Ctor =>
+        bigAtan2(toBig(a), toBig(b), Ctor)
+      );
+    },
+    // pi 是无理数，只有在配置了近似精度时才能读取
+    get pi() {
+      return approximate('pi', '', Ctor => bigPi(Ctor));
+    },
+    exp: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num === ZERO) {
+        return new Rational(ONE);
+      }
+      return approximate('exp', a.toString(), Ctor => bigExp(toBig(a), Ctor));
+    },
+    ln: (x: Operand<Rational>) => {
+      const a = from(x);
+      if (a.num <= ZERO) {
+        throw new UndefinedResultError('ln', a.toString());
+      }
+      if (a.num === ONE && a.den === ONE) {
+        return new Rational(ZERO);
+      }
+      return approximate('ln', a.toString(), Ctor => bigLn(toBig(a), Ctor));
+    }
+  };
+
+  return system;
+}
+
+const RationalOperatorSystem = createRationalOperatorSystem();
+
+export default RationalOperatorSystem;
@@ -0,0 +1,122 @@
+import { IOperatorSystem } from './types';
+import { UnknownSystemError, InvalidSystemError } from '../errors';
+
+// IOperatorSystem 中除 name、pi 之外必须实现的方法
+const REQUIRED_METHODS = [
+  'create',
+  'sqrt',
+  'abs',
+  'plus',
+  'minus',
+  'divide',
+  'multiply',
+  'equal',
+  'compare',
+  'lt',
+  'gt',
+  'sign',
+  'min',
+  'max',
+  'sin',
+  'cos',
+  'acos',
+  'atan2'
+];
+
+// 已注册的算术体系，key 为名字
+const registry: { [name: string]: IOperatorSystem<any> } = {};
+
+/**
+ * Returns the names of the required members the given object does not implement
+ */
+export function missingMembers(impl: any): string[] {
+  if (!impl || typeof impl !== 'object') {
+    return ['name', 'pi'].concat(REQUIRED_METHODS);
+  }
+  const missing = REQUIRED_METHODS.filter(
+    method => typeof impl[method] !== 'function'
+  );
+  if (typeof impl.name !== 'string') {
+    missing.unshift('name');
+  }
+  // pi 可能是只有在配置了精度后才可读取的 getter，这里只检查是否声明
+  if (!('pi' in impl)) {
+    missing.push('pi');
+  }
+  return missing;
+}
+
+/**
+ * Registers an operator system under the given name, replacing any previous one
+ *
+ * @export
+ * @param {String} name
+ * @param {IOperatorSystem} impl
+ * @throws {InvalidSystemError} when a required member is missing
+ */
+export function registerSystem(name: string, impl: IOperatorSystem<any>) {
+  const missing = missingMembers(impl);
+  if (missing.length) {
+    throw new InvalidSystemError(name, missing);
+  }
+  registry[name] = impl;
+}
+
+/**
+ * Removes a registered operator system, returns false when the name was not registered
+ *
+ * @export
+ * @param {String} name
+ * @returns {Boolean}
+ */
+export function unregisterSystem(name: string): boolean {
+  if (!registry.hasOwnProperty(name)) {
+    return false;
+  }
+  delete registry[name];
+  return true;
+}
+
+/**
+ * Returns the names of all registered operator systems
+ *
+ * @export
+ * @returns {String[]}
+ */
+export function listSystems(): string[] {
+  return Object.keys(registry);
+}
+
+/**
+ * Looks up a registered operator system by name
+ *
+ * @export
+ * @param {String} name
+ * @returns {IOperatorSystem}
+ * @throws {UnknownSystemError} when the name is not registered
+ */
+export function getSystem(name: string): IOperatorSystem<any> {
+  if (!registry.hasOwnProperty(name)) {
+    throw new UnknownSystemError(name, listSystems());
+  }
+  return registry[name];
+}
+
+/**
+ * Resolves an operator system given either as an implementation or as a registered name
+ *
+ * @export
+ * @param {(IOperatorSystem|String)} system
+ * @returns {IOperatorSystem}
+ * @throws {UnknownSystemError} when the name is not registered
+ */
+export function resolveSystem(
+  system: IOperatorSystem<any> | string
+): IOperatorSystem<any> {
+  if (typeof system === 'string') {
+    return getSystem(system);
+  }
+  return system;
+}
+
+export default registry;
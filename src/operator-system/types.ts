@@ -9,6 +9,12 @@ export type UnaryOperation<T> = (x: T) => T;
 // 函数类型：二元操作
 export type DualOperation<T> = (x: T, y: T) => T;
 
+/**
+ * 区间等带有误差范围的算术体系中，两个值可能无法判断大小或是否相等，此时返回该值
+ */
+export type Uncertain = 'overlap';
+export const UNCERTAIN: Uncertain = 'overlap';
+
 /**
  * 定义操作的接口，必须要实现这些个接口
  *
@@ -18,6 +24,10 @@ export type DualOperation<T> = (x: T, y: T) => T;
  */
 export interface IOperatorSystem<T> {
   name: string;
+  // 可选：精度等级，不同体系的向量混合运算时提升到等级更高的体系，未设置视为 0
+  precision?: number;
+  // 可选：转换成十进制字符串，toString 不是十进制格式的体系（如分数、区间）转换到其他体系时使用
+  toDecimal?: (x: T) => string;
   create: UnaryOperation<T>;
   sqrt: UnaryOperation<T>;
   abs: UnaryOperation<T>;
@@ -25,5 +35,24 @@ export interface IOperatorSystem<T> {
   minus: DualOperation<T>;
   divide: DualOperation<T>;
   multiply: DualOperation<T>;
-  equal: (x: T, y: T) => boolean;
+  equal: (x: T, y: T) => boolean | Uncertain;
+
+  // 大小比较：compare 返回 -1、0、1，无法判断大小时（如区间重叠）返回 NaN
+  compare: (x: T, y: T) => number;
+  lt: (x: T, y: T) => boolean; // 确定小于
+  gt: (x: T, y: T) => boolean; // 确定大于
+  sign: (x: T) => number; // 返回 -1、0、1，无法判断时返回 NaN
+  min: DualOperation<T>;
+  max: DualOperation<T>;
+
+  // 三角函数，角度单位均为弧度
+  sin: UnaryOperation<T>;
+  cos: UnaryOperation<T>;
+  acos: UnaryOperation<T>;
+  atan2: DualOperation<T>; // atan2(y, x)，与 Math.atan2 参数顺序一致
+  pi: T;
+
+  // 可选：指数与自然对数，向量的复数运算 exp、log、pow、nthRoots 需要
+  exp?: UnaryOperation<T>;
+  ln?: UnaryOperation<T>;
 }
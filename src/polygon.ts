@@ -0,0 +1,372 @@
+import Vector from './vector';
+import { Segment } from './line';
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  UNCERTAIN
+} from './operator-system';
+import { systemOf, convertOperand, atMost } from './util';
+
+/**
+ * Polygon - a closed polygon given by its vertices, the last vertex connects back to the first.
+ *
+ * Area, centroid and the containment tests are computed by the operator system of the vertices
+ * (mixed systems are resolved by `Vector.mixSystems`): `signedArea` only needs `cross`, sums
+ * and a halving, so it is exact for decimal inputs under big. Orientation assumes the y axis
+ * points up, i.e. a positive area means counter-clockwise
+ */
+
+/**
+ * Options of `convexHull`
+ */
+export interface IConvexHullOptions {
+  // 是否保留落在凸包边上的点，默认只保留顶点
+  keepCollinear?: boolean;
+}
+
+/**
+ * Returns the convex hull of the points in counter-clockwise order, starting from the
+ * point with the smallest x (then the smallest y). Uses Andrew's monotone chain, every
+ * orientation test is the sign of a `cross` product in the operator system of the points,
+ * so nearly collinear points are decided exactly under big and rational.
+ *
+ * Duplicated points are kept once. When all the points are on a line, the hull is the two
+ * ends of the line, or every point from one end to the other with `keepCollinear`
+ *
+ * @param {Vector[]} points
+ * @param {IConvexHullOptions} [options={}] - `{ keepCollinear }`
+ * @returns {Vector[]} - The given vector instances on the hull
+ * @example
+ *     convexHull([
+ *       new Vector(0, 0), new Vector(2, 0), new Vector(1, 1), new Vector(2, 2), new Vector(0, 2)
+ *     ]).join('; ');
+ *     // => x:0, y:0; x:2, y:0; x:2, y:2; x:0, y:2
+ */
+export function convexHull<T>(
+  points: Array<Vector<T>>,
+  options: IConvexHullOptions = {}
+): Array<Vector<T>> {
+  if (!points.length) {
+    return [];
+  }
+  const { keepCollinear = false } = options;
+  const system = systemOf(...points);
+  const { compare } = system;
+  // 在选定的体系中比较坐标，返回的仍是传入的向量实例
+  const aligned = points.map(vec => convertOperand(vec, system));
+  const byXY = (i: number, j: number) =>
+    compare(aligned[i].x, aligned[j].x) || compare(aligned[i].y, aligned[j].y);
+  const sorted = points.map((vec, i) => i).sort(byXY);
+  // 排序后相同的点相邻，只保留第一个
+  const unique = sorted
+    .filter((index, i) => i === 0 || byXY(index, sorted[i - 1]) !== 0)
+    .map(index => points[index]);
+  const first = unique[0];
+  const last = unique[unique.length - 1];
+  const turn = (o: Vector<T>, a: Vector<T>, b: Vector<T>) =>
+    compare(a.subtract(o).cross(b.subtract(o)), 0);
+  // 所有点共线（或只有一两个点）
+  if (unique.every(vec => turn(first, last, vec) === 0)) {
+    return keepCollinear || unique.length < 2 ? unique : [first, last];
+  }
+  // 向右转时弹出；不保留共线的点时，不转向也弹出
+  const chain = (list: Array<Vector<T>>) => {
+    const hull: Array<Vector<T>> = [];
+    list.forEach(vec => {
+      while (hull.length >= 2) {
+        const sign = turn(hull[hull.length - 2], hull[hull.length - 1], vec);
+        if (sign > 0 || (sign === 0 && keepCollinear)) {
+          break;
+        }
+        hull.pop();
+      }
+      hull.push(vec);
+    });
+    // 终点是另一条链的起点
+    hull.pop();
+    return hull;
+  };
+  return chain(unique).concat(chain(unique.slice().reverse()));
+}
+
+export default class Polygon<T> {
+  vertices: Array<Vector<T>>;
+
+  static isPolygon<U>(polygon): polygon is Polygon<U> {
+    return polygon instanceof Polygon;
+  }
+
+  /**
+   * Creates the convex hull of the points as a counter-clockwise polygon, see `convexHull`
+   *
+   * @static
+   * @param {Vector[]} points
+   * @param {IConvexHullOptions} [options={}] - `{ keepCollinear }`
+   * @returns {Polygon}
+   * @memberof Polygon
+   */
+  static convexHull<U>(
+    points: Array<Vector<U>>,
+    options: IConvexHullOptions = {}
+  ): Polygon<U> {
+    return new Polygon<U>(convexHull(points, options));
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Vector[]} vertices - In order, without repeating the first vertex at the end
+   * @example
+   *     var square = new Polygon([
+   *       new Vector(0, 0), new Vector(1, 0), new Vector(1, 1), new Vector(0, 1)
+   *     ]);
+   */
+  constructor(vertices: Array<Vector<T>>) {
+    this.vertices = vertices.slice();
+  }
+
+  // 顶点所在的算术体系，没有顶点时为 Vector.SYSTEM
+  get operatorSystem(): IOperatorSystem<any> {
+    return this.vertices.length ? systemOf(...this.vertices) : Vector.SYSTEM;
+  }
+
+  /**
+   * Returns the edges as segments, edge `i` goes from vertex `i` to vertex `i + 1`
+   *
+   * @returns {Segment[]}
+   * @memberof Polygon
+   */
+  edges(): Array<Segment<T>> {
+    const { vertices } = this;
+    return vertices.map(
+      (vec, i) => new Segment(vec, vertices[(i + 1) % vertices.length])
+    );
+  }
+
+  /**
+   * Returns the signed area (shoelace formula), positive when the vertices are counter-clockwise
+   *
+   * @returns {String}
+   * @memberof Polygon
+   * @example
+   *     new Polygon([new Vector(0, 0), new Vector('0.1', 0), new Vector(0, '0.3')]).signedArea();
+   *     // => 0.015
+   */
+  signedArea(): string {
+    return this.operatorSystem.divide(this.crossSum(), 2).toString();
+  }
+
+  // Returns the area
+  area(): string {
+    return this.operatorSystem.abs(this.signedArea()).toString();
+  }
+
+  /**
+   * Returns the perimeter
+   *
+   * @returns {String}
+   * @memberof Polygon
+   */
+  perimeter(): string {
+    const { plus } = this.operatorSystem;
+    const vertices = this.alignedVertices();
+    const n = vertices.length;
+    return vertices
+      .reduce<Operand<any>>(
+        (sum, vec, i) => plus(sum, vec.distance(vertices[(i + 1) % n])),
+        0
+      )
+      .toString();
+  }
+
+  /**
+   * Returns the centroid (center of mass) of the polygon area. A polygon without area
+   * (fewer than 3 vertices, or all of them on a line) gives the average of its vertices
+   *
+   * @returns {Vector}
+   * @memberof Polygon
+   * @example
+   *     new Polygon([new Vector(0, 0), new Vector(4, 0), new Vector(4, 2), new Vector(0, 2)])
+   *       .centroid().toString();
+   *     // => x:2, y:1
+   */
+  centroid(): Vector<T> {
+    const system = this.operatorSystem;
+    const { plus, multiply, divide, compare } = system;
+    const vertices = this.alignedVertices();
+    const crossSum = this.crossSum();
+    if (compare(crossSum, 0) === 0) {
+      const sum = vertices.reduce(
+        (total, vec) => total.add(vec),
+        new Vector<T>(0, 0, system)
+      );
+      return sum.divide(vertices.length || 1);
+    }
+    let x: Operand<any> = 0;
+    let y: Operand<any> = 0;
+    vertices.forEach((a, i) => {
+      const b = vertices[(i + 1) % vertices.length];
+      const cross = a.cross(b);
+      x = plus(x, multiply(plus(a.x, b.x), cross));
+      y = plus(y, multiply(plus(a.y, b.y), cross));
+    });
+    // Σ / (6A) = Σ / (3 · crossSum)
+    const den = multiply(crossSum, 3);
+    return new Vector<T>(divide(x, den), divide(y, den), system);
+  }
+
+  // Returns true if the vertices are clockwise, i.e. the signed area is negative
+  isClockwise(): boolean {
+    return this.operatorSystem.compare(this.crossSum(), 0) < 0;
+  }
+
+  /**
+   * Returns a new polygon with the vertices in reverse order
+   *
+   * @returns {Polygon}
+   * @memberof Polygon
+   */
+  reverse(): Polygon<T> {
+    return new Polygon<T>(this.vertices.slice().reverse());
+  }
+
+  /**
+   * Returns true if no two edges meet except adjacent edges at their shared vertex.
+   * Fewer than 3 vertices is not simple
+   *
+   * @returns {Boolean}
+   * @memberof Polygon
+   */
+  isSimple(): boolean {
+    const edges = this.edges();
+    const n = edges.length;
+    if (n < 3) {
+      return false;
+    }
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const meet = edges[i].intersect(edges[j]);
+        if (meet === null) {
+          continue;
+        }
+        // 相邻的边只能交于公共顶点
+        const adjacent = j === i + 1 || (i === 0 && j === n - 1);
+        if (!adjacent || !(meet instanceof Vector)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Returns true if the polygon is simple and turns the same way at every vertex,
+   * collinear vertices are allowed. A polygon without area is not convex
+   *
+   * @returns {Boolean}
+   * @memberof Polygon
+   */
+  isConvex(): boolean {
+    const { compare } = this.operatorSystem;
+    const vertices = this.alignedVertices();
+    const n = vertices.length;
+    let turn = 0;
+    for (let i = 0; i < n; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % n];
+      const c = vertices[(i + 2) % n];
+      const sign = compare(b.subtract(a).cross(c.subtract(b)), 0);
+      if (sign === 0) {
+        continue;
+      }
+      if (turn !== 0 && sign !== turn) {
+        return false;
+      }
+      turn = sign;
+    }
+    return turn !== 0 && this.isSimple();
+  }
+
+  /**
+   * Tells whether the point is inside the polygon, by the nonzero winding rule.
+   * Points on an edge or a vertex are inside unless `includeBoundary` is false.
+   * Returns `'overlap'` when an interval system can not tell on which side of an edge
+   * the point is
+   *
+   * @param {Vector} point
+   * @param {Boolean} [includeBoundary=true] - Result for points on the boundary
+   * @returns {(Boolean|String)}
+   * @memberof Polygon
+   * @example
+   *     var square = new Polygon([
+   *       new Vector(0, 0), new Vector(2, 0), new Vector(2, 2), new Vector(0, 2)
+   *     ]);
+   *     square.contains(new Vector(1, 1));
+   *     // => true
+   *     square.contains(new Vector(2, 1), false);
+   *     // => false
+   */
+  contains(
+    point: Vector<T>,
+    includeBoundary: boolean = true
+  ): boolean | Uncertain {
+    const edges = this.edges();
+    if (edges.some(edge => edge.contains(point))) {
+      return includeBoundary;
+    }
+    const system = systemOf(point, ...this.vertices);
+    const y = (vec: Vector<T>) => convertOperand(vec, system).y;
+    let winding = 0;
+    let uncertain = false;
+    edges.forEach(edge => {
+      const { start, end } = edge;
+      // 边向上穿过 point 所在的水平线且 point 在左侧时 +1，向下穿过且在右侧时 -1
+      const startBelow = atMost(system, y(start), y(point));
+      const endBelow = atMost(system, y(end), y(point));
+      if (startBelow === UNCERTAIN || endBelow === UNCERTAIN) {
+        uncertain = true;
+      } else if (startBelow !== endBelow) {
+        const side = edge.side(point);
+        if (isNaN(side)) {
+          uncertain = true;
+        } else if (startBelow && side > 0) {
+          winding++;
+        } else if (!startBelow && side < 0) {
+          winding--;
+        }
+      }
+    });
+    return uncertain ? UNCERTAIN : winding !== 0;
+  }
+
+  /**
+   * Returns an string representation of the polygon
+   *
+   * @returns {String}
+   * @memberof Polygon
+   * @example
+   *     new Polygon([new Vector(0, 0), new Vector(1, 0), new Vector(0, 1)]).toString();
+   *     // => Polygon(x:0, y:0; x:1, y:0; x:0, y:1)
+   */
+  toString(): string {
+    return `Polygon(${this.vertices.join('; ')})`;
+  }
+
+  // Σ vertices[i] × vertices[i + 1]，即两倍的有向面积
+  private crossSum(): string {
+    const { plus } = this.operatorSystem;
+    const vertices = this.alignedVertices();
+    let sum: Operand<any> = 0;
+    vertices.forEach((vec, i) => {
+      sum = plus(sum, vec.cross(vertices[(i + 1) % vertices.length]));
+    });
+    return sum.toString();
+  }
+
+  // 转换到 operatorSystem 的顶点，混合体系时逐条边的结果才能在同一体系中累加、比较
+  private alignedVertices(): Array<Vector<T>> {
+    const system = this.operatorSystem;
+    return this.vertices.map(vec => convertOperand(vec, system));
+  }
+}
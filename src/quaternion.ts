@@ -0,0 +1,422 @@
+import Vector, { ITolerance, SystemOption } from './vector';
+import Vector3 from './vector3';
+import { RotationMatrix3 } from './matrix';
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  resolveSystem
+} from './operator-system';
+import {
+  and3,
+  isClose,
+  systemOf,
+  bindSystem,
+  convertValues,
+  alignOperands
+} from './util';
+
+/**
+ * Quaternion - `w + xi + yj + zk`, used for 3D rotations without gimbal lock.
+ * Every operation goes through the operator system, so orientations can be composed
+ * at big precision
+ */
+
+// 欧拉角的旋转顺序，依次绕列出的（固定）坐标轴旋转
+export type EulerOrder = 'XYZ' | 'XZY' | 'YXZ' | 'YZX' | 'ZXY' | 'ZYX';
+
+type Component = 'w' | 'x' | 'y' | 'z';
+
+const COMPONENTS: Component[] = ['w', 'x', 'y', 'z'];
+
+export default class Quaternion<T> {
+  _w: Operand<T>;
+  _x: Operand<T>;
+  _y: Operand<T>;
+  _z: Operand<T>;
+
+  static isQuaternion<U>(q): q is Quaternion<U> {
+    return q instanceof Quaternion;
+  }
+
+  /**
+   * The identity rotation `(1, 0, 0, 0)`
+   *
+   * @static
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  static identity<U>(system: SystemOption = Vector.SYSTEM): Quaternion<U> {
+    return new Quaternion<U>(1, 0, 0, 0).config({ system });
+  }
+
+  /**
+   * Rotation of `angle` radians around `axis` (right-hand rule),
+   * uses the operator system of `axis`
+   *
+   * @static
+   * @param {Vector3} axis - Rotation axis, need not be a unit vector
+   * @param {Number} angle - Angle in radians
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   * @example
+   *     var q = Quaternion.fromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2);
+   *     q.rotateVector(new Vector3(1, 0, 0)).toString();
+   *     // => x:0, y:1, z:0 (approximately)
+   */
+  static fromAxisAngle<U>(axis: Vector3<U>, angle: Operand<U>): Quaternion<U> {
+    const system = axis.operatorSystem;
+    const { multiply, divide, sin, cos } = system;
+    const half = divide(angle, 2);
+    const s = sin(half);
+    const unit = axis.normalize();
+    return new Quaternion<U>(
+      cos(half),
+      multiply(unit.x, s),
+      multiply(unit.y, s),
+      multiply(unit.z, s)
+    ).config({ system });
+  }
+
+  /**
+   * Rotation from Euler angles in radians. The rotations are applied around the fixed
+   * axes in the given order, e.g. `'XYZ'` rotates around X first, then Y, then Z
+   *
+   * @static
+   * @param {Number} x - Angle around the X axis
+   * @param {Number} y - Angle around the Y axis
+   * @param {Number} z - Angle around the Z axis
+   * @param {EulerOrder} [order='XYZ']
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  static fromEuler<U>(
+    x: Operand<U>,
+    y: Operand<U>,
+    z: Operand<U>,
+    order: EulerOrder = 'XYZ',
+    system: SystemOption = Vector.SYSTEM
+  ): Quaternion<U> {
+    const s = resolveSystem(system);
+    const rotations = {
+      X: Quaternion.fromAxisAngle(
+        new Vector3<U>(1, 0, 0).config({ system: s }),
+        x
+      ),
+      Y: Quaternion.fromAxisAngle(
+        new Vector3<U>(0, 1, 0).config({ system: s }),
+        y
+      ),
+      Z: Quaternion.fromAxisAngle(
+        new Vector3<U>(0, 0, 1).config({ system: s }),
+        z
+      )
+    };
+    // 先应用的旋转在乘积的右侧
+    return order
+      .split('')
+      .reduce(
+        (q, axis) => rotations[axis].multiply(q),
+        Quaternion.identity<U>(s)
+      );
+  }
+
+  // 每个实例对应的操作体系，默认与向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({ system = Vector.SYSTEM }: { system?: SystemOption }): Quaternion<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new quaternion bound to the same operator system as this one (or to `system`)
+   *
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  derive(
+    w?: Operand<T>,
+    x?: Operand<T>,
+    y?: Operand<T>,
+    z?: Operand<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): Quaternion<T> {
+    return bindSystem(new Quaternion<T>(w, x, y, z), system);
+  }
+
+  // 与另一个四元数运算时使用的算术体系，见 Vector.mixSystems
+  systemWith(q: Quaternion<T>): IOperatorSystem<any> {
+    return systemOf(this, q);
+  }
+
+  /**
+   * Returns a copy of this quaternion converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  convertTo(system: SystemOption): Quaternion<T> {
+    const target = resolveSystem(system);
+    const values = this.toArray().map(String);
+    const [w, x, y, z] = convertValues(this.operatorSystem, target, values);
+    return this.derive(w, x, y, z, target);
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Number} [w=0] - Real part
+   * @param {Number} [x=0]
+   * @param {Number} [y=0]
+   * @param {Number} [z=0]
+   * @example
+   *     var q = new Quaternion(1, 0, 0, 0);
+   */
+  constructor(w?: Operand<T>, x?: Operand<T>, y?: Operand<T>, z?: Operand<T>) {
+    this._w = w || 0;
+    this._x = x || 0;
+    this._y = y || 0;
+    this._z = z || 0;
+  }
+
+  get w(): string {
+    return this._w.toString();
+  }
+  get x(): string {
+    return this._x.toString();
+  }
+  get y(): string {
+    return this._y.toString();
+  }
+  get z(): string {
+    return this._z.toString();
+  }
+
+  // Returns the norm
+  get length(): string {
+    const { sqrt } = this.operatorSystem;
+    return sqrt(this.lengthSq).toString();
+  }
+
+  // Returns the squared norm
+  get lengthSq(): string {
+    return this.dot(this);
+  }
+
+  /**
+   * Four-dimensional dot product
+   *
+   * @param {Quaternion} q
+   * @returns {String}
+   * @memberof Quaternion
+   */
+  dot(q: Quaternion<T>): string {
+    const [a, b, { plus, multiply }] = this.operands(q);
+    return COMPONENTS.reduce(
+      (sum, c) => plus(sum, multiply(a[c], b[c])),
+      0 as Operand<any>
+    ).toString();
+  }
+
+  /**
+   * Hamilton product `this × q`. As rotations, the result applies `q` first, then this one
+   *
+   * @param {Quaternion} q
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  multiply(q: Quaternion<T>): Quaternion<T> {
+    const [p, r, system] = this.operands(q);
+    const { plus, minus, multiply } = system;
+    const sum = (...values) => values.reduce((a, b) => plus(a, b));
+    // this 的分量 a 乘以 q 的分量 b
+    const m = (a: Component, b: Component) => multiply(p[a], r[b]);
+    return this.derive(
+      minus(m('w', 'w'), sum(m('x', 'x'), m('y', 'y'), m('z', 'z'))),
+      minus(sum(m('w', 'x'), m('x', 'w'), m('y', 'z')), m('z', 'y')),
+      minus(sum(m('w', 'y'), m('y', 'w'), m('z', 'x')), m('x', 'z')),
+      minus(sum(m('w', 'z'), m('z', 'w'), m('x', 'y')), m('y', 'x')),
+      system
+    );
+  }
+
+  /**
+   * Conjugate `(w, -x, -y, -z)`, the inverse rotation of a unit quaternion
+   *
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  conjugate(): Quaternion<T> {
+    const { multiply } = this.operatorSystem;
+    return this.derive(
+      this.w,
+      multiply(this.x, -1),
+      multiply(this.y, -1),
+      multiply(this.z, -1)
+    );
+  }
+
+  /**
+   * Multiplicative inverse, `conjugate / |q|^2`
+   *
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  inverse(): Quaternion<T> {
+    return this.conjugate().scale(this.lengthSq, true);
+  }
+
+  /**
+   * Normalize to unit quaternion
+   *
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  normalize(): Quaternion<T> {
+    return this.scale(this.length, true);
+  }
+
+  /**
+   * Spherical linear interpolation along the shortest arc, `t = 0` gives this one
+   * and `t = 1` gives `q`. Both should be unit quaternions
+   *
+   * @param {Quaternion} q - Target rotation
+   * @param {Number} t - Interpolation factor in [0, 1]
+   * @returns {Quaternion}
+   * @memberof Quaternion
+   */
+  slerp(q: Quaternion<T>, t: Operand<T>): Quaternion<T> {
+    const [source, other, system] = this.operands(q);
+    const { minus, multiply, divide, sqrt, sin, acos, compare } = system;
+
+    // q 与 -q 表示同一个旋转，取夹角较小的一个
+    let cos: Operand<any> = source.dot(other);
+    let target = other;
+    if (compare(cos, 0) < 0) {
+      cos = multiply(cos, -1);
+      target = other.scale(-1);
+    }
+    if (compare(cos, 1) >= 0) {
+      return this.derive(source.w, source.x, source.y, source.z, system);
+    }
+
+    const theta = acos(cos);
+    const sinTheta = sqrt(minus(1, multiply(cos, cos)));
+    const ratioA = divide(sin(multiply(minus(1, t), theta)), sinTheta);
+    const ratioB = divide(sin(multiply(t, theta)), sinTheta);
+    const { plus } = system;
+    const values = COMPONENTS.map(c =>
+      plus(multiply(source[c], ratioA), multiply(target[c], ratioB))
+    );
+    return this.derive(values[0], values[1], values[2], values[3], system);
+  }
+
+  /**
+   * Rotates a 3D vector, `q v q⁻¹`
+   *
+   * @param {Vector3} vec
+   * @returns {Vector3}
+   * @memberof Quaternion
+   * @example
+   *     var q = Quaternion.fromAxisAngle(new Vector3(1, 0, 0), Math.PI);
+   *     q.rotateVector(new Vector3(0, 1, 0)).toString();
+   *     // => x:0, y:-1, z:0 (approximately)
+   */
+  rotateVector(vec: Vector3<T>): Vector3<T> {
+    const [v, q, system] = alignOperands(systemOf(vec, this), vec, this);
+    const p = q.derive(0, v.x, v.y, v.z);
+    const r = q.multiply(p).multiply(q.inverse());
+    return vec.derive(r.x, r.y, r.z, system);
+  }
+
+  /**
+   * The 3x3 rotation matrix of this quaternion, apply it with `Vector3#transform`
+   *
+   * @returns {RotationMatrix3}
+   * @memberof Quaternion
+   * @example
+   *     var q = Quaternion.fromAxisAngle(new Vector3(0, 0, 1), Math.PI / 2);
+   *     new Vector3(1, 0, 0).transform(q.toMatrix()).toString();
+   *     // => x:0, y:1, z:0 (approximately)
+   */
+  toMatrix(): RotationMatrix3<T> {
+    const { plus, minus, multiply, divide } = this.operatorSystem;
+    const { w, x, y, z } = this;
+    // 非单位四元数同样适用：s = 2 / |q|^2
+    const s = divide(2, this.lengthSq);
+    const m = (a, b) => multiply(multiply(a, b), s);
+    return new RotationMatrix3<T>([
+      minus(1, plus(m(y, y), m(z, z))),
+      minus(m(x, y), m(z, w)),
+      plus(m(x, z), m(y, w)),
+      plus(m(x, y), m(z, w)),
+      minus(1, plus(m(x, x), m(z, z))),
+      minus(m(y, z), m(x, w)),
+      minus(m(x, z), m(y, w)),
+      plus(m(y, z), m(x, w)),
+      minus(1, plus(m(x, x), m(y, y)))
+    ]).config({ system: this.operatorSystem });
+  }
+
+  /**
+   * Returns true if every component equals the other quaternion's, see `Vector#isEqualTo`.
+   * Note that `q` and `-q` are the same rotation but not equal
+   *
+   * @param {Quaternion} q
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @returns {Boolean}
+   * @memberof Quaternion
+   */
+  isEqualTo(q: Quaternion<T>, tolerance?: ITolerance<T>): boolean | Uncertain {
+    const [a, b, system] = this.operands(q);
+    if (tolerance) {
+      return and3(
+        ...COMPONENTS.map(c => isClose(system, a[c], b[c], tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...COMPONENTS.map(c => equal(a[c], b[c])));
+  }
+
+  /**
+   * Returns an string representation of the quaternion
+   *
+   * @returns {String}
+   * @memberof Quaternion
+   * @example
+   *     new Quaternion(1, 2, 3, 4).toString();
+   *     // => w:1, x:2, y:3, z:4
+   */
+  toString(): string {
+    return COMPONENTS.map(c => c + ':' + this[c]).join(', ');
+  }
+
+  /**
+   * Returns an array representation `[w, x, y, z]`
+   *
+   * @returns {Array}
+   * @memberof Quaternion
+   */
+  toArray(): Array<Operand<T>> {
+    return COMPONENTS.map(c => this[c]);
+  }
+
+  // 二元运算的两个四元数都转换到 systemWith 选出的体系，返回 [this, q, system]
+  private operands(
+    q: Quaternion<T>
+  ): [Quaternion<T>, Quaternion<T>, IOperatorSystem<any>] {
+    return alignOperands(this.systemWith(q), this, q);
+  }
+
+  // 每个分量乘以（或除以）同一个数
+  private scale(factor: Operand<T>, inverse: boolean = false): Quaternion<T> {
+    const { multiply, divide } = this.operatorSystem;
+    const values = COMPONENTS.map(c =>
+      inverse ? divide(this[c], factor) : multiply(this[c], factor)
+    );
+    return this.derive(values[0], values[1], values[2], values[3]);
+  }
+}
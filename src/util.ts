@@ -1,17 +1,210 @@
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  UNCERTAIN
+} from './operator-system/types';
+import { resolveSystem } from './operator-system/registry';
+import Vector, { ITolerance, SystemOption } from './vector';
+import Big from 'big.js';
+
 const defaultDegreeUnit = 180 / Math.PI;
 
-export function radian2degree(rad, multiply?) {
-  if (!!multiply) {
-    return multiply(rad, defaultDegreeUnit).toString();
+// 绑定了算术体系的值：Vector、Vector3、VectorN、矩阵、四元数
+interface ISystemBound {
+  operatorSystem: IOperatorSystem<any>;
+}
+
+// 可以转换算术体系的值
+interface IConvertible extends ISystemBound {
+  convertTo(system: IOperatorSystem<any>): any;
+}
+
+function isSystemBound(value): value is ISystemBound {
+  return !!value && typeof value === 'object' && 'operatorSystem' in value;
+}
+
+function isConvertible(value): value is IConvertible {
+  return isSystemBound(value) && typeof value['convertTo'] === 'function';
+}
+
+/**
+ * Converts radians to degrees, when an operator system is given the conversion
+ * uses its own `pi` so precision is kept
+ */
+export function radian2degree(rad, system?: IOperatorSystem<any>) {
+  if (!!system) {
+    const { multiply, divide, pi } = system;
+    return divide(multiply(rad, 180), pi).toString();
   } else {
     return rad * defaultDegreeUnit;
   }
 }
 
-export function degree2radian(deg, divide?) {
-  if (!!divide) {
-    return divide(deg, defaultDegreeUnit);
+/**
+ * Converts degrees to radians, when an operator system is given the conversion
+ * uses its own `pi` so precision is kept
+ */
+export function degree2radian(deg, system?: IOperatorSystem<any>) {
+  if (!!system) {
+    const { multiply, divide, pi } = system;
+    return divide(multiply(deg, pi), 180);
   } else {
     return deg / defaultDegreeUnit;
   }
 }
+
+/**
+ * Three-valued logical AND, `false` wins over uncertain and uncertain wins over `true`
+ */
+export function and3(
+  ...values: Array<boolean | Uncertain>
+): boolean | Uncertain {
+  if (values.some(v => v === false)) {
+    return false;
+  }
+  return values.every(v => v === true) ? true : UNCERTAIN;
+}
+
+/**
+ * Three-valued `a <= b`, uncertain when the operator system can not order the values
+ * (`compare` gives NaN for overlapping intervals)
+ */
+export function atMost(
+  system: IOperatorSystem<any>,
+  a: Operand<any>,
+  b: Operand<any>
+): boolean | Uncertain {
+  const order = system.compare(a, b);
+  return isNaN(order) ? UNCERTAIN : order <= 0;
+}
+
+/**
+ * Approximate equality: `|a - b| <= max(absTol, relTol * max(|a|, |b|))`,
+ * uncertain when an interval system can not decide
+ */
+export function isClose(
+  system: IOperatorSystem<any>,
+  a: Operand<any>,
+  b: Operand<any>,
+  { absTol = 0, relTol = 0 }: ITolerance<any>
+): boolean | Uncertain {
+  const { abs, minus, multiply, max } = system;
+  const bound = max(absTol, multiply(relTol, max(abs(a), abs(b))));
+  return atMost(system, abs(minus(a, b)), bound);
+}
+
+/**
+ * `product^2 <= tol^2 * |a|^2 * |b|^2`, i.e. the sine (or cosine) of the angle between
+ * a and b is within `tol`, without any square root. Uncertain when an interval system
+ * can not decide
+ */
+export function withinAngle(
+  system: IOperatorSystem<any>,
+  product: Operand<any>,
+  lengthSqA: Operand<any>,
+  lengthSqB: Operand<any>,
+  tol: Operand<any>
+): boolean | Uncertain {
+  const { multiply } = system;
+  const bound = multiply(multiply(tol, tol), multiply(lengthSqA, lengthSqB));
+  return atMost(system, multiply(product, product), bound);
+}
+
+// hashKey 保留的小数位数，与默认的 big、分数体系相同
+const KEY_DECIMAL_PLACES = 20;
+
+/**
+ * Canonical decimal string of a value, `'1.0'`, `'1'` and `'1e0'` all give `'1'`.
+ * Values of systems with `toDecimal` (fractions, intervals) are converted first, then
+ * every value is rounded half up to 20 decimal places, so the same quotient computed by
+ * different systems gives the same string. Strings that are not finite decimals
+ * (`'NaN'`, `'Infinity'`) are kept as they are
+ */
+export function canonicalDecimal(
+  system: IOperatorSystem<any>,
+  value: string
+): string {
+  const { toDecimal } = system;
+  const decimal = toDecimal ? toDecimal(value) : value;
+  try {
+    return new Big(decimal).round(KEY_DECIMAL_PLACES, 1).toFixed();
+  } catch (e) {
+    return decimal;
+  }
+}
+
+/**
+ * The operator system used when all the given vectors (or matrices...) meet, resolved
+ * pairwise by `Vector.mixSystems`
+ */
+export function systemOf(...values: ISystemBound[]): IOperatorSystem<any> {
+  return values.reduce(
+    (system, value) => Vector.mixSystems(system, value.operatorSystem),
+    values[0].operatorSystem
+  );
+}
+
+/**
+ * The operator system used when `value` meets `other` in a binary method: the system
+ * of `value` for scalars, otherwise `Vector.mixSystems` decides
+ */
+export function systemWith(
+  value: ISystemBound,
+  other: any
+): IOperatorSystem<any> {
+  return isSystemBound(other)
+    ? Vector.mixSystems(value.operatorSystem, other.operatorSystem)
+    : value.operatorSystem;
+}
+
+/**
+ * Binds `value` to an operator system (or a registered system name) and returns it,
+ * shared by the `config` and `derive` methods
+ */
+export function bindSystem<V extends ISystemBound>(
+  value: V,
+  system: SystemOption
+): V {
+  value.operatorSystem = resolveSystem(system);
+  return value;
+}
+
+/**
+ * Re-creates the values of a `source` system in the `target` system, through
+ * `source.toDecimal` when it has one (fractions, intervals). Used by `convertTo`
+ */
+export function convertValues(
+  source: IOperatorSystem<any>,
+  target: IOperatorSystem<any>,
+  values: string[]
+): Array<Operand<any>> {
+  const { toDecimal } = source;
+  return values.map(value =>
+    target.create(toDecimal && target !== source ? toDecimal(value) : value)
+  );
+}
+
+/**
+ * Converts an operand to the operator system picked for a binary operation, so its
+ * raw values can be fed to that system. Vectors (and matrices...) of another system go
+ * through their `convertTo`, scalars and values already in `system` are kept as they are
+ */
+export function convertOperand<V>(value: V, system: IOperatorSystem<any>): V {
+  if (isConvertible(value) && value.operatorSystem !== system) {
+    return value.convertTo(system);
+  }
+  return value;
+}
+
+/**
+ * Converts both operands of a binary method to `system` (usually picked by `systemWith`),
+ * returns `[a, b, system]`
+ */
+export function alignOperands<A, B>(
+  system: IOperatorSystem<any>,
+  a: A,
+  b: B
+): [A, B, IOperatorSystem<any>] {
+  return [convertOperand(a, system), convertOperand(b, system), system];
+}
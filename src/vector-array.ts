@@ -0,0 +1,320 @@
+import Vector, { IReadonlyVector } from './vector';
+import { Matrix2, Matrix3 } from './matrix';
+import { BaseOperatorSystem } from './operator-system';
+import { DimensionMismatchError } from './errors';
+
+/**
+ * VectorArray - structure-of-arrays storage for large batches of 2D points, x and y live in
+ * two `Float64Array`s. Only the base (float) operator system is supported: every batch method
+ * performs the same float operations as the per-element `Vector` method of the base system,
+ * so the results are identical.
+ *
+ * Batch methods are immutable and return a new `VectorArray` (or a `Float64Array` of scalars).
+ */
+
+export type VectorArrayOperand = VectorArray | IReadonlyVector<any> | number;
+
+export default class VectorArray {
+  xs: Float64Array;
+  ys: Float64Array;
+
+  static isVectorArray(arr): arr is VectorArray {
+    return arr instanceof VectorArray;
+  }
+
+  /**
+   * Creates a new instance from a list of vectors
+   *
+   * @static
+   * @param {IReadonlyVector[]} vectors
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   * @example
+   *     VectorArray.fromVectors([new Vector(1, 2), new Vector(3, 4)]).get(1).toString();
+   *     // => x:3, y:4
+   */
+  static fromVectors(vectors: Array<IReadonlyVector<any>>): VectorArray {
+    const arr = new VectorArray(vectors.length);
+    vectors.forEach((vec, i) => {
+      arr.xs[i] = Number(vec.x);
+      arr.ys[i] = Number(vec.y);
+    });
+    return arr;
+  }
+
+  /**
+   * Creates a new instance from interleaved coordinates `[x0, y0, x1, y1, ...]`
+   *
+   * @static
+   * @param {Number[]} coords
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  static fromArray(coords: ArrayLike<number>): VectorArray {
+    const arr = new VectorArray(Math.floor(coords.length / 2));
+    for (let i = 0; i < arr.length; i++) {
+      arr.xs[i] = coords[2 * i];
+      arr.ys[i] = coords[2 * i + 1];
+    }
+    return arr;
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {(Number|Float64Array)} xs - Number of points (all zero), or the x values
+   * @param {Float64Array} [ys] - The y values, required when `xs` is an array
+   * @example
+   *     var points = new VectorArray(100000);
+   *     var same = new VectorArray(points.xs, points.ys);
+   */
+  constructor(xs: number | Float64Array, ys?: Float64Array) {
+    if (typeof xs === 'number') {
+      this.xs = new Float64Array(xs);
+      this.ys = new Float64Array(xs);
+      return;
+    }
+    if (!ys || ys.length !== xs.length) {
+      throw new DimensionMismatchError(xs.length, ys ? ys.length : 0);
+    }
+    this.xs = xs;
+    this.ys = ys;
+  }
+
+  // 点的个数
+  get length(): number {
+    return this.xs.length;
+  }
+
+  /**
+   * Returns the i-th point as a `Vector` of the base operator system
+   *
+   * @param {Number} i
+   * @returns {Vector}
+   * @memberof VectorArray
+   */
+  get(i: number): Vector<number> {
+    return new Vector<number>(this.xs[i], this.ys[i], BaseOperatorSystem);
+  }
+
+  /**
+   * Sets the i-th point in place
+   *
+   * @param {Number} i
+   * @param {Number} x
+   * @param {Number} y
+   * @returns {VectorArray} - this array
+   * @memberof VectorArray
+   */
+  set(i: number, x: number, y: number): VectorArray {
+    this.xs[i] = x;
+    this.ys[i] = y;
+    return this;
+  }
+
+  /**
+   * Adds another array (point by point), a vector or a number to every point
+   *
+   * @param {(VectorArray|Vector|Number)} other
+   * @returns {VectorArray}
+   * @throws {DimensionMismatchError} when the arrays have different lengths
+   * @memberof VectorArray
+   */
+  add(other: VectorArrayOperand): VectorArray {
+    return this.combine(other, 1);
+  }
+
+  /**
+   * Subtracts another array (point by point), a vector or a number from every point
+   *
+   * @param {(VectorArray|Vector|Number)} other
+   * @returns {VectorArray}
+   * @throws {DimensionMismatchError} when the arrays have different lengths
+   * @memberof VectorArray
+   */
+  subtract(other: VectorArrayOperand): VectorArray {
+    return this.combine(other, -1);
+  }
+
+  /**
+   * Multiplies every point by a number, or each axis by its own factor
+   *
+   * @param {Number} sx
+   * @param {Number} [sy=sx]
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  scale(sx: number, sy: number = sx): VectorArray {
+    const { xs, ys } = this;
+    const result = new VectorArray(this.length);
+    for (let i = 0; i < xs.length; i++) {
+      result.xs[i] = xs[i] * sx;
+      result.ys[i] = ys[i] * sy;
+    }
+    return result;
+  }
+
+  /**
+   * Rotates every point around the origin, same as `Vector#rotate`
+   *
+   * @param {Number} angle - Angle in radians CCW
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  rotate(angle: number): VectorArray {
+    const sinA = Math.sin(angle);
+    const cosA = Math.cos(angle);
+    const { xs, ys } = this;
+    const result = new VectorArray(this.length);
+    for (let i = 0; i < xs.length; i++) {
+      result.xs[i] = xs[i] * cosA - ys[i] * sinA;
+      result.ys[i] = xs[i] * sinA + ys[i] * cosA;
+    }
+    return result;
+  }
+
+  /**
+   * Normalizes every point to unit length, the zero vector stays (0, 0) like `Vector#normalize`
+   *
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  normalize(): VectorArray {
+    const { xs, ys } = this;
+    const result = new VectorArray(this.length);
+    for (let i = 0; i < xs.length; i++) {
+      const length = Math.sqrt(xs[i] * xs[i] + ys[i] * ys[i]);
+      result.xs[i] = length ? xs[i] / length : 0;
+      result.ys[i] = length ? ys[i] / length : 0;
+    }
+    return result;
+  }
+
+  /**
+   * Dot product of each point with the matching point of another array, or with one vector
+   *
+   * @param {(VectorArray|Vector)} other
+   * @returns {Float64Array}
+   * @throws {DimensionMismatchError} when the arrays have different lengths
+   * @memberof VectorArray
+   */
+  dot(other: VectorArray | IReadonlyVector<any>): Float64Array {
+    const { xs, ys } = this;
+    const result = new Float64Array(this.length);
+    if (VectorArray.isVectorArray(other)) {
+      this.assertSameLength(other);
+      for (let i = 0; i < xs.length; i++) {
+        result[i] = xs[i] * other.xs[i] + ys[i] * other.ys[i];
+      }
+      return result;
+    }
+    const x = Number(other.x);
+    const y = Number(other.y);
+    for (let i = 0; i < xs.length; i++) {
+      result[i] = xs[i] * x + ys[i] * y;
+    }
+    return result;
+  }
+
+  /**
+   * Length of every point
+   *
+   * @returns {Float64Array}
+   * @memberof VectorArray
+   */
+  lengths(): Float64Array {
+    const { xs, ys } = this;
+    const result = new Float64Array(this.length);
+    for (let i = 0; i < xs.length; i++) {
+      result[i] = Math.sqrt(xs[i] * xs[i] + ys[i] * ys[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Applies a linear (`Matrix2`) or affine (`Matrix3`) transform to every point,
+   * the matrix elements are converted to numbers
+   *
+   * @param {(Matrix2|Matrix3)} m
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  transform(m: Matrix2<any> | Matrix3<any>): VectorArray {
+    const e = m.elements.map(Number);
+    const affine = e.length === 9;
+    const [a, b, c, d] = affine ? [e[0], e[1], e[3], e[4]] : e;
+    const tx = affine ? e[2] : 0;
+    const ty = affine ? e[5] : 0;
+    const { xs, ys } = this;
+    const result = new VectorArray(this.length);
+    for (let i = 0; i < xs.length; i++) {
+      const x = a * xs[i] + b * ys[i];
+      const y = c * xs[i] + d * ys[i];
+      // 与 Matrix3#apply 一致：(a * x + b * y) + tx
+      result.xs[i] = affine ? x + tx : x;
+      result.ys[i] = affine ? y + ty : y;
+    }
+    return result;
+  }
+
+  /**
+   * Creates a new array with the results of calling `fn` on every point. Convenient but
+   * allocates a `Vector` per point, prefer the batch methods in hot paths
+   *
+   * @param {Function} fn - `(vec, index) => vector`
+   * @returns {VectorArray}
+   * @memberof VectorArray
+   */
+  map(
+    fn: (vec: Vector<number>, index: number) => IReadonlyVector<any>
+  ): VectorArray {
+    const result = new VectorArray(this.length);
+    for (let i = 0; i < this.length; i++) {
+      const vec = fn(this.get(i), i);
+      result.xs[i] = Number(vec.x);
+      result.ys[i] = Number(vec.y);
+    }
+    return result;
+  }
+
+  /**
+   * Returns every point as a `Vector` of the base operator system
+   *
+   * @returns {Vector[]}
+   * @memberof VectorArray
+   */
+  toVectors(): Array<Vector<number>> {
+    const vectors: Array<Vector<number>> = [];
+    for (let i = 0; i < this.length; i++) {
+      vectors.push(this.get(i));
+    }
+    return vectors;
+  }
+
+  private assertSameLength(other: VectorArray) {
+    if (other.length !== this.length) {
+      throw new DimensionMismatchError(this.length, other.length);
+    }
+  }
+
+  // 逐点加上（sign 为 -1 时减去）另一个数组，或同一个向量、数值；乘以 ±1 是精确的
+  private combine(other: VectorArrayOperand, sign: number): VectorArray {
+    const { xs, ys } = this;
+    const result = new VectorArray(this.length);
+    if (VectorArray.isVectorArray(other)) {
+      this.assertSameLength(other);
+      for (let i = 0; i < xs.length; i++) {
+        result.xs[i] = xs[i] + sign * other.xs[i];
+        result.ys[i] = ys[i] + sign * other.ys[i];
+      }
+      return result;
+    }
+    const dx = sign * (typeof other === 'number' ? other : Number(other.x));
+    const dy = sign * (typeof other === 'number' ? other : Number(other.y));
+    for (let i = 0; i < xs.length; i++) {
+      result.xs[i] = xs[i] + dx;
+      result.ys[i] = ys[i] + dy;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,132 @@
+import { IReadonlyVector } from './vector';
+
+/**
+ * VectorMap - a map keyed by vector value instead of object identity, two vectors with equal
+ * values (see `Vector#hashKey`) are the same key whatever their operator system.
+ *
+ * Keys are hashed when they are inserted, do not change a `MutableVector` while it is a key.
+ */
+
+export type VectorMapEntry<V, T> = [IReadonlyVector<T>, V];
+
+export default class VectorMap<V, T = any> {
+  // 以 hashKey 为键，保存插入时的向量与值；键中总含有逗号，遍历时保持插入顺序
+  private table: { [hash: string]: VectorMapEntry<V, T> } = Object.create(
+    null
+  );
+  private count = 0;
+
+  /**
+   * Constructor
+   *
+   * @param {Array} [entries=[]] - `[vector, value]` pairs, later pairs overwrite earlier ones
+   * @example
+   *     var names = new VectorMap([[new Vector(0, 0), 'origin']]);
+   *     names.get(new Vector('0.0', 0).config({ system: 'base' }));
+   *     // => origin
+   */
+  constructor(entries: Array<VectorMapEntry<V, T>> = []) {
+    entries.forEach(([vec, value]) => this.set(vec, value));
+  }
+
+  // 键值对的个数
+  get size(): number {
+    return this.count;
+  }
+
+  // Returns true if a vector with the same value is a key
+  has(vec: IReadonlyVector<T>): boolean {
+    return vec.hashKey() in this.table;
+  }
+
+  /**
+   * Returns the value stored for a vector with the same value, or undefined
+   *
+   * @param {IReadonlyVector} vec
+   * @returns {*}
+   * @memberof VectorMap
+   */
+  get(vec: IReadonlyVector<T>): V | undefined {
+    const entry = this.table[vec.hashKey()];
+    return entry ? entry[1] : undefined;
+  }
+
+  /**
+   * Stores a value for the vector. When a vector with the same value is already a key,
+   * its value is replaced and the original key vector is kept
+   *
+   * @param {IReadonlyVector} vec
+   * @param {*} value
+   * @returns {VectorMap} - this map
+   * @memberof VectorMap
+   */
+  set(vec: IReadonlyVector<T>, value: V): VectorMap<V, T> {
+    const hash = vec.hashKey();
+    const entry = this.table[hash];
+    if (entry) {
+      entry[1] = value;
+    } else {
+      this.table[hash] = [vec, value];
+      this.count++;
+    }
+    return this;
+  }
+
+  /**
+   * Removes the entry of a vector with the same value
+   *
+   * @param {IReadonlyVector} vec
+   * @returns {Boolean} - true if an entry was removed
+   * @memberof VectorMap
+   */
+  delete(vec: IReadonlyVector<T>): boolean {
+    const hash = vec.hashKey();
+    if (!(hash in this.table)) {
+      return false;
+    }
+    delete this.table[hash];
+    this.count--;
+    return true;
+  }
+
+  // Removes every entry
+  clear() {
+    this.table = Object.create(null);
+    this.count = 0;
+  }
+
+  /**
+   * Returns the `[vector, value]` pairs in insertion order
+   *
+   * @returns {Array}
+   * @memberof VectorMap
+   */
+  entries(): Array<VectorMapEntry<V, T>> {
+    return Object.keys(this.table).map(hash => {
+      const [vec, value] = this.table[hash];
+      return [vec, value] as VectorMapEntry<V, T>;
+    });
+  }
+
+  // Returns the key vectors in insertion order
+  keys(): Array<IReadonlyVector<T>> {
+    return this.entries().map(([vec]) => vec);
+  }
+
+  // Returns the values in insertion order
+  values(): V[] {
+    return this.entries().map(([, value]) => value);
+  }
+
+  /**
+   * Calls `fn` for every entry in insertion order
+   *
+   * @param {Function} fn - `(value, vec, map) => void`
+   * @memberof VectorMap
+   */
+  forEach(
+    fn: (value: V, vec: IReadonlyVector<T>, map: VectorMap<V, T>) => void
+  ) {
+    this.entries().forEach(([vec, value]) => fn(value, vec, this));
+  }
+}
@@ -0,0 +1,396 @@
+import Vector, { ITolerance, SystemOption } from './vector';
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  DualOperation,
+  resolveSystem
+} from './operator-system';
+import {
+  and3,
+  isClose,
+  systemWith,
+  bindSystem,
+  convertValues,
+  alignOperands
+} from './util';
+import { DimensionMismatchError } from './errors';
+
+/**
+ * VectorN - N-dimensional vector backed by an array of operands, shares the operator
+ * systems (and `Vector.SYSTEM`, `Vector.MIXED_POLICY`) with the 2D `Vector`
+ */
+
+export type VectorNOperand<T> = VectorN<T> | Operand<T>;
+
+export default class VectorN<T> {
+  _values: Array<Operand<T>>;
+
+  static isVectorN<U>(vec: VectorNOperand<U>): vec is VectorN<U> {
+    return vec instanceof VectorN;
+  }
+
+  /**
+   * Creates a new instance from an array
+   *
+   * @static
+   * @param {Array} arr
+   * @returns {VectorN}
+   * @memberof VectorN
+   * @example
+   *     VectorN.fromArray([1, 2, 3, 4]).toString();
+   *     // => (1, 2, 3, 4)
+   */
+  static fromArray<U>(arr: Array<Operand<U>>): VectorN<U> {
+    return new VectorN<U>(arr);
+  }
+
+  /**
+   * Creates the zero vector of the given dimension
+   *
+   * @static
+   * @param {Number} dimension
+   * @returns {VectorN}
+   * @memberof VectorN
+   */
+  static zeros<U>(dimension: number): VectorN<U> {
+    const values: Array<Operand<U>> = [];
+    for (let i = 0; i < dimension; i++) {
+      values.push(0);
+    }
+    return new VectorN<U>(values);
+  }
+
+  // 每个实例对应的操作体系，默认与 2D 向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({ system = Vector.SYSTEM }: { system?: SystemOption }): VectorN<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new vector bound to the same operator system as this one (or to `system`)
+   *
+   * @param {Array} values
+   * @param {IOperatorSystem} [system] - Defaults to this vector's operator system
+   * @returns {VectorN}
+   * @memberof VectorN
+   */
+  derive(
+    values: Array<Operand<T>>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): VectorN<T> {
+    return bindSystem(new VectorN<T>(values), system);
+  }
+
+  /**
+   * Returns the operator system used when this vector meets `vec` in a binary method,
+   * see `Vector.mixSystems`. Vectors must have the same dimension
+   *
+   * @param {(VectorN|Number)} vec - The other operand
+   * @returns {IOperatorSystem}
+   * @throws {DimensionMismatchError} when the dimensions differ
+   * @memberof VectorN
+   */
+  systemWith(vec: VectorNOperand<T>): IOperatorSystem<any> {
+    if (VectorN.isVectorN<T>(vec) && vec.dimension !== this.dimension) {
+      throw new DimensionMismatchError(this.dimension, vec.dimension);
+    }
+    return systemWith(this, vec);
+  }
+
+  /**
+   * Returns a copy of this vector converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {VectorN}
+   * @memberof VectorN
+   */
+  convertTo(system: SystemOption): VectorN<T> {
+    const target = resolveSystem(system);
+    const values = convertValues(this.operatorSystem, target, this.values);
+    return this.derive(values, target);
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Array} [values=[]] - Value of each axis
+   * @example
+   *     var vec = new VectorN([1, 2, 3, 4]);
+   */
+  constructor(values: Array<Operand<T>> = []) {
+    this._values = values.map(v => v || 0);
+  }
+
+  get dimension(): number {
+    return this._values.length;
+  }
+
+  get values(): string[] {
+    return this._values.map(v => v.toString());
+  }
+
+  /**
+   * Value of the i-th axis
+   *
+   * @param {Number} i - Index of the axis, starting at 0
+   * @returns {String}
+   * @memberof VectorN
+   */
+  get(i: number): string {
+    return this._values[i].toString();
+  }
+
+  // Returns the length
+  get length(): string {
+    const { sqrt } = this.operatorSystem;
+    return sqrt(this.lengthSq).toString();
+  }
+
+  // Returns the squared length. If the length is only needed for comparison, this function is faster than length.
+  get lengthSq(): string {
+    return this.dot(this);
+  }
+
+  /**
+   * # Manipulation
+   *
+   * These functions are chainable and immutable.
+   */
+
+  // 逐个坐标轴执行二元运算，vec 为数值时作用于每个坐标轴
+  private operate(
+    vec: VectorNOperand<T>,
+    operation: (system: IOperatorSystem<any>) => DualOperation<any>
+  ): VectorN<T> {
+    const [self, other, system] = this.operands(vec);
+    const fn = operation(system);
+    const values = self.values.map((v, i) =>
+      fn(v, VectorN.isVectorN<T>(other) ? other.get(i) : other)
+    );
+    return this.derive(values, system);
+  }
+
+  // 二元运算的两个操作数都转换到 systemWith 选出的体系，返回 [this, vec, system]
+  private operands<V extends VectorNOperand<T>>(
+    vec: V
+  ): [VectorN<T>, V, IOperatorSystem<any>] {
+    return alignOperands<VectorN<T>, V>(this.systemWith(vec), this, vec);
+  }
+
+  /**
+   * Adds another vector or number to this one
+   *
+   * @param {(VectorN|Number)} vec
+   * @return {VectorN}
+   * @memberof VectorN
+   * @example
+   *     new VectorN([1, 2, 3, 4]).add(1).toString();
+   *     // => (2, 3, 4, 5)
+   */
+  add(vec: VectorNOperand<T>): VectorN<T> {
+    return this.operate(vec, s => s.plus);
+  }
+
+  /**
+   * Subtracts another vector or number from this one
+   *
+   * @param {(VectorN|Number)} vec
+   * @return {VectorN}
+   * @memberof VectorN
+   */
+  subtract(vec: VectorNOperand<T>): VectorN<T> {
+    return this.operate(vec, s => s.minus);
+  }
+
+  /**
+   * Multiplies by another vector (axis by axis) or certain number
+   *
+   * @param {(VectorN|Number)} vec
+   * @return {VectorN}
+   * @memberof VectorN
+   */
+  multiply(vec: VectorNOperand<T>): VectorN<T> {
+    return this.operate(vec, s => s.multiply);
+  }
+
+  /**
+   * Divides by another vector (axis by axis) or certain number
+   *
+   * @param {(VectorN|Number)} vec
+   * @return {VectorN}
+   * @memberof VectorN
+   */
+  divide(vec: VectorNOperand<T>): VectorN<T> {
+    return this.operate(vec, s => s.divide);
+  }
+
+  // inverts all axes
+  invert(): VectorN<T> {
+    return this.multiply(-1);
+  }
+
+  /**
+   * Normalize to unit vector
+   *
+   * @returns {VectorN}
+   * @memberof VectorN
+   */
+  normalize(): VectorN<T> {
+    return this.divide(this.length);
+  }
+
+  /**
+   * alias of normalize
+   *
+   * @memberof VectorN
+   */
+  norm(): VectorN<T> {
+    return this.normalize();
+  }
+
+  /**
+   * # Products
+   */
+
+  /**
+   * Calculates the dot product of this vector and another
+   *
+   * @param {VectorN} vec2
+   * @returns {Number} - dot product
+   * @memberof VectorN
+   * @example
+   *     new VectorN([1, 2, 3, 4]).dot(new VectorN([1, 1, 1, 1]));
+   *     // => 10
+   */
+  dot(vec2: VectorN<T>): string {
+    const [a, b, { plus, multiply }] = this.operands(vec2);
+    return a.values
+      .reduce((sum, v, i) => plus(sum, multiply(v, b.get(i))), 0)
+      .toString();
+  }
+
+  /**
+   * Projects this vector onto another vector
+   *
+   * @param {VectorN} vec2
+   * @returns {VectorN}
+   * @memberof VectorN
+   */
+  projectOnto(vec2: VectorN<T>): VectorN<T> {
+    const [self, other, system] = this.operands(vec2);
+    const { multiply, divide } = system;
+
+    // 求解向量上的分解因子
+    const coeff = divide(self.dot(other), other.lengthSq);
+    return this.derive(other.values.map(v => multiply(coeff, v)), system);
+  }
+
+  /**
+   * get cos angle between of two vectors
+   *
+   * @param {VectorN} vec2
+   * @returns {Number} - cos value of angle
+   * @memberof VectorN
+   */
+  cosAngleBetween(vec2: VectorN<T>): string {
+    const [a, b, { multiply, divide }] = this.operands(vec2);
+    return divide(a.dot(b), multiply(a.length, b.length)).toString();
+  }
+
+  /**
+   * get angle between of two vectors in radians, in [0, PI]
+   *
+   * @param {VectorN} vec2
+   * @returns {Number}
+   * @memberof VectorN
+   */
+  angleBetween(vec2: VectorN<T>): string {
+    const { acos } = this.systemWith(vec2);
+    return acos(this.cosAngleBetween(vec2)).toString();
+  }
+
+  /**
+   * # Utility Methods
+   */
+
+  /**
+   * Calculates euclidean distance between this vector and another
+   *
+   * @param {VectorN} vec
+   * @return {Number}
+   * @memberof VectorN
+   */
+  distance(vec: VectorN<T>): string {
+    const { sqrt } = this.systemWith(vec);
+    return sqrt(this.distanceSq(vec)).toString();
+  }
+
+  // Calculates the squared euclidean distance between this vector and another
+  distanceSq(vec: VectorN<T>): string {
+    return this.subtract(vec).lengthSq;
+  }
+
+  /**
+   * Returns true if every axis is 0, see `Vector#isZero`
+   *
+   * @param {Number} [tol] - Absolute tolerance
+   * @returns {Boolean}
+   * @memberof VectorN
+   */
+  isZero(tol?: Operand<T>): boolean | Uncertain {
+    if (tol !== undefined) {
+      const zero = this.derive(this.values.map(() => 0));
+      return this.isEqualTo(zero, { absTol: tol });
+    }
+    const { equal } = this.operatorSystem;
+    return and3(...this.values.map(v => equal(v, 0)));
+  }
+
+  /**
+   * Returns true if this vector is the same as another, see `Vector#isEqualTo`
+   *
+   * @param {VectorN} vec2
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @return {Boolean}
+   * @throws {DimensionMismatchError} when the dimensions differ
+   * @memberof VectorN
+   */
+  isEqualTo(
+    vec2: VectorN<T>,
+    tolerance?: ITolerance<T>
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    if (tolerance) {
+      return and3(
+        ...a.values.map((v, i) => isClose(system, v, b.get(i), tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...a.values.map((v, i) => equal(v, b.get(i))));
+  }
+
+  /**
+   * Returns an string representation of the vector
+   *
+   * @return {String}
+   * @memberof VectorN
+   * @example
+   *     new VectorN([1, 2, 3, 4]).toString();
+   *     // => (1, 2, 3, 4)
+   */
+  toString(): string {
+    return '(' + this.values.join(', ') + ')';
+  }
+
+  /**
+   * Returns an array representation of the vector
+   *
+   * @return {Array}
+   * @memberof VectorN
+   */
+  toArray(): Array<Operand<T>> {
+    return this.values;
+  }
+}
@@ -0,0 +1,94 @@
+import Vector, { MutableVector, SystemOption } from './vector';
+import { IOperatorSystem, Operand, resolveSystem } from './operator-system';
+
+/**
+ * VectorPool - recycles `MutableVector`s so that hot loops do not allocate a new vector
+ * on every step. Vectors are taken with `acquire` and handed back with `release`.
+ */
+
+export interface IVectorPoolOptions {
+  // 池中向量使用的算术体系，默认为 Vector.SYSTEM
+  system?: SystemOption;
+  // 预先创建的向量个数
+  initialSize?: number;
+  // 最多保留的空闲向量个数，超出后 release 的向量交给垃圾回收
+  maxSize?: number;
+}
+
+export default class VectorPool<T> {
+  system: IOperatorSystem<any>;
+  maxSize: number;
+  private free: Array<MutableVector<T>> = [];
+
+  /**
+   * Constructor
+   *
+   * @param {IVectorPoolOptions} [options={}] - `{ system, initialSize, maxSize }`
+   * @example
+   *     var pool = new VectorPool({ system: 'base', initialSize: 100 });
+   */
+  constructor(options: IVectorPoolOptions = {}) {
+    const {
+      system = Vector.SYSTEM,
+      initialSize = 0,
+      maxSize = Infinity
+    } = options;
+    this.system = resolveSystem(system);
+    this.maxSize = maxSize;
+    for (let i = 0; i < Math.min(initialSize, maxSize); i++) {
+      this.free.push(this.create());
+    }
+  }
+
+  // 当前空闲的向量个数
+  get available(): number {
+    return this.free.length;
+  }
+
+  /**
+   * Takes a vector from the pool (or creates one when the pool is empty) and sets its axes.
+   * The vector is bound to the pool's operator system
+   *
+   * @param {Number} [x=0]
+   * @param {Number} [y=0]
+   * @returns {MutableVector}
+   * @memberof VectorPool
+   * @example
+   *     var velocity = pool.acquire(1, 2);
+   *     position.addInPlace(velocity);
+   *     pool.release(velocity);
+   */
+  acquire(x?: Operand<T>, y?: Operand<T>): MutableVector<T> {
+    const vec = this.free.pop() || this.create();
+    vec.operatorSystem = this.system;
+    return vec.set(x, y);
+  }
+
+  /**
+   * Hands a vector back to the pool. It must not be used afterwards,
+   * and releasing the same vector twice hands it out twice
+   *
+   * @param {MutableVector} vec
+   * @memberof VectorPool
+   */
+  release(vec: MutableVector<T>) {
+    if (this.free.length < this.maxSize) {
+      this.free.push(vec);
+    }
+  }
+
+  /**
+   * Drops every idle vector
+   *
+   * @memberof VectorPool
+   */
+  clear() {
+    this.free.length = 0;
+  }
+
+  private create(): MutableVector<T> {
+    const vec = new MutableVector<T>();
+    vec.operatorSystem = this.system;
+    return vec;
+  }
+}
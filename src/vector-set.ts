@@ -0,0 +1,80 @@
+import { IReadonlyVector } from './vector';
+import VectorMap from './vector-map';
+
+/**
+ * VectorSet - a set of vectors compared by value instead of object identity (see
+ * `Vector#hashKey`), e.g. to drop duplicated points. The first vector added for each
+ * value is kept.
+ */
+
+export default class VectorSet<T = any> {
+  private map: VectorMap<IReadonlyVector<T>, T> = new VectorMap();
+
+  /**
+   * Constructor
+   *
+   * @param {IReadonlyVector[]} [vectors=[]]
+   * @example
+   *     var points = new VectorSet([new Vector(1, 2), new Vector('1.0', 2), new Vector(3, 4)]);
+   *     points.size;
+   *     // => 2
+   */
+  constructor(vectors: Array<IReadonlyVector<T>> = []) {
+    vectors.forEach(vec => this.add(vec));
+  }
+
+  // 向量的个数
+  get size(): number {
+    return this.map.size;
+  }
+
+  // Returns true if a vector with the same value is in the set
+  has(vec: IReadonlyVector<T>): boolean {
+    return this.map.has(vec);
+  }
+
+  /**
+   * Adds the vector unless a vector with the same value is already in the set
+   *
+   * @param {IReadonlyVector} vec
+   * @returns {VectorSet} - this set
+   * @memberof VectorSet
+   */
+  add(vec: IReadonlyVector<T>): VectorSet<T> {
+    if (!this.map.has(vec)) {
+      this.map.set(vec, vec);
+    }
+    return this;
+  }
+
+  /**
+   * Removes the vector with the same value
+   *
+   * @param {IReadonlyVector} vec
+   * @returns {Boolean} - true if a vector was removed
+   * @memberof VectorSet
+   */
+  delete(vec: IReadonlyVector<T>): boolean {
+    return this.map.delete(vec);
+  }
+
+  // Removes every vector
+  clear() {
+    this.map.clear();
+  }
+
+  // Returns the vectors in insertion order
+  values(): Array<IReadonlyVector<T>> {
+    return this.map.values();
+  }
+
+  /**
+   * Calls `fn` for every vector in insertion order
+   *
+   * @param {Function} fn - `(vec, set) => void`
+   * @memberof VectorSet
+   */
+  forEach(fn: (vec: IReadonlyVector<T>, set: VectorSet<T>) => void) {
+    this.values().forEach(vec => fn(vec, this));
+  }
+}
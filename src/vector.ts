@@ -1,5 +1,55 @@
-import OperatorSystem, { BigOperatorSystem, Operand } from './operator-system';
-import { radian2degree, degree2radian } from './util';
+import {
+  BigOperatorSystem,
+  createBigOperatorSystem,
+  IBigContext,
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  resolveSystem,
+  registerSystem,
+  unregisterSystem,
+  listSystems
+} from './operator-system';
+import {
+  radian2degree,
+  degree2radian,
+  and3,
+  canonicalDecimal,
+  isClose,
+  withinAngle,
+  systemWith,
+  bindSystem,
+  convertValues,
+  alignOperands
+} from './util';
+import {
+  MixedSystemError,
+  VectorError,
+  UnsupportedOperationError,
+  FrozenVectorError
+} from './errors';
+import { Matrix2, Matrix3 } from './matrix';
+
+export * from './operator-system';
+export * from './errors';
+export * from './vector3';
+export { default as Vector3 } from './vector3';
+export * from './vector-n';
+export { default as VectorN } from './vector-n';
+export * from './matrix';
+export * from './quaternion';
+export { default as Quaternion } from './quaternion';
+export * from './vector-pool';
+export { default as VectorPool } from './vector-pool';
+export * from './vector-array';
+export { default as VectorArray } from './vector-array';
+export * from './vector-map';
+export { default as VectorMap } from './vector-map';
+export { default as VectorSet } from './vector-set';
+export * from './line';
+export * from './polygon';
+export { default as Polygon } from './polygon';
+export { default as Box } from './box';
 
 /**
  * Vector - 2D vector class for common vector operations, support [big.js](https://github.com/MikeMcl/big.js) for arbitrary-precision decimal arithmetic
@@ -10,27 +60,340 @@ export interface IVector<T> {
   _y: Operand<T>;
 }
 
+/**
+ * Read-only view shared by `Vector` and `MutableVector`, code that only reads vectors
+ * can accept either of them
+ */
+export interface IReadonlyVector<T> {
+  readonly operatorSystem: IOperatorSystem<any>;
+  readonly x: string;
+  readonly y: string;
+  readonly xValue: T;
+  readonly yValue: T;
+  readonly length: string;
+  readonly lengthSq: string;
+  readonly angle: string;
+  dot(vec2: Vector<T>): string;
+  cross(vec2: Vector<T>): string;
+  distance(vec: Vector<T>): string;
+  distanceSq(vec: Vector<T>): string;
+  isZero(tol?: Operand<T>): boolean | Uncertain;
+  isEqualTo(vec2: Vector<T>, tolerance?: ITolerance<T>): boolean | Uncertain;
+  hashKey(): string;
+  toString(): string;
+  toArray(): Array<Operand<T>>;
+  toObject(): { x: Operand<T>; y: Operand<T> };
+}
+
 export type VectorOperand<T> = Vector<T> | Operand<T>;
 
-export default class Vector<T> implements IVector<T> {
+/**
+ * How binary methods treat two vectors bound to different operator systems:
+ * - `'promote'`: use the system with the higher `precision`
+ * - `'throw'`: throw a `MixedSystemError`
+ * - a resolver function that picks the system to use
+ */
+export type MixedSystemPolicy =
+  | 'promote'
+  | 'throw'
+  | ((a: IOperatorSystem<any>, b: IOperatorSystem<any>) => IOperatorSystem<any>);
+
+// 算术体系可以直接传入实现，也可以通过名字（如 'base'、'big'）指定
+export type SystemOption = IOperatorSystem<any> | string;
+
+/**
+ * Factory returned by `Vector.withSystem`, every vector it builds is bound to the same operator system
+ */
+export interface IVectorFactory<T> {
+  system: IOperatorSystem<any>;
+  create(x?: Operand<T>, y?: Operand<T>): Vector<T>;
+  fromArray(arr): Vector<T>;
+  fromObject(obj): Vector<T>;
+  fromPolar(length: Operand<T>, angle: Operand<T>): Vector<T>;
+  fromPolarDegree(length: Operand<T>, degree: Operand<T>): Vector<T>;
+}
+
+/**
+ * Tolerance used by the approximate comparisons, both default to 0 (exact)
+ */
+export interface ITolerance<T> {
+  absTol?: Operand<T>;
+  relTol?: Operand<T>;
+}
+
+/**
+ * Polar form returned by `Vector#toPolar`, `theta` is in radians CCW from +X axis
+ */
+export interface IPolar {
+  r: string;
+  theta: string;
+}
+
+export default class Vector<T> implements IVector<T>, IReadonlyVector<T> {
   _x: Operand<T>;
   _y: Operand<T>;
 
   // 设置默认算术体系，默认采用 大数 算术体系
-  static SYSTEM = BigOperatorSystem;
+  static SYSTEM: IOperatorSystem<any> = BigOperatorSystem;
+
+  // 不同算术体系的向量相遇时的处理策略，默认提升到精度更高的体系
+  static MIXED_POLICY: MixedSystemPolicy = 'promote';
+
+  // 冻结模式，开启后新建的 Vector 实例都会被 Object.freeze（MutableVector 除外）
+  static FROZEN: boolean = false;
 
   static isVector<U>(vec: VectorOperand<U>): vec is Vector<U> {
     return vec instanceof Vector;
   }
 
+  /**
+   * Registers an operator system so it can be selected by name, e.g. from a config file.
+   * Every required `IOperatorSystem` member is checked, an `InvalidSystemError` is thrown
+   * when one is missing. Registering an existing name replaces it
+   *
+   * @static
+   * @param {String} name
+   * @param {IOperatorSystem} impl
+   * @memberof Vector
+   * @example
+   *     Vector.registerSystem('decimal', DecimalOperatorSystem);
+   *     new Vector(1, 2).config({ system: 'decimal' });
+   */
+  static registerSystem(name: string, impl: IOperatorSystem<any>) {
+    registerSystem(name, impl);
+  }
+
+  /**
+   * Removes a registered operator system, returns false when the name was not registered
+   *
+   * @static
+   * @param {String} name
+   * @returns {Boolean}
+   * @memberof Vector
+   */
+  static unregisterSystem(name: string): boolean {
+    return unregisterSystem(name);
+  }
+
+  /**
+   * Names of all registered operator systems
+   *
+   * @static
+   * @returns {String[]}
+   * @memberof Vector
+   * @example
+   *     Vector.listSystems();
+   *     // => ['base', 'big', 'rational', 'interval', 'fixed']
+   */
+  static listSystems(): string[] {
+    return listSystems();
+  }
+
+  /**
+   * Returns a factory whose vectors are all bound to the given operator system,
+   * so that several systems can coexist without touching `Vector.SYSTEM`
+   *
+   * @static
+   * @param {(IOperatorSystem|String)} system - The operator system or its name
+   * @returns {IVectorFactory}
+   * @memberof Vector
+   * @example
+   *     var BaseVector = Vector.withSystem('base');
+   *     var vec = BaseVector.create(1, 2);
+   *
+   *     vec.add(new Vector(3, 4)).operatorSystem.name;
+   *     // => BaseOperatorSystem
+   */
+  static withSystem<U>(system: SystemOption): IVectorFactory<U> {
+    const operatorSystem = resolveSystem(system);
+    const bind = (vec: Vector<U>) => vec.config({ system: operatorSystem });
+    return {
+      system: operatorSystem,
+      create: (x?: Operand<U>, y?: Operand<U>) =>
+        new Vector<U>(x, y, operatorSystem),
+      fromArray: arr => bind(Vector.fromArray<U>(arr)),
+      fromObject: obj => bind(Vector.fromObject<U>(obj)),
+      fromPolar: (length, angle) =>
+        Vector.fromPolar<U>(length, angle, operatorSystem),
+      fromPolarDegree: (length, degree) =>
+        Vector.fromPolarDegree<U>(length, degree, operatorSystem)
+    };
+  }
+
+  /**
+   * Runs `fn` with `Vector.SYSTEM` temporarily replaced by a big operator system of the given
+   * precision, then restores the previous default. Vectors created inside (and every vector
+   * derived from them) keep that precision. `fn` receives a factory bound to the same system.
+   *
+   * Only synchronous work is covered, the default is restored as soon as `fn` returns.
+   *
+   * @static
+   * @param {IBigContext} context - Precision context, `{ decimalPlaces, roundingMode }`
+   * @param {Function} fn - The calculation to run
+   * @returns {*} - Whatever `fn` returns
+   * @memberof Vector
+   * @example
+   *     Vector.withPrecision({ decimalPlaces: 40 }, function() {
+   *       return new Vector(1, 0).divide(3).x;
+   *     });
+   *     // => 0.3333333333333333333333333333333333333333
+   */
+  static withPrecision<R>(
+    context: IBigContext,
+    fn: (factory: IVectorFactory<any>) => R
+  ): R {
+    const previous = Vector.SYSTEM;
+    const system = createBigOperatorSystem(context);
+    Vector.SYSTEM = system;
+    try {
+      return fn(Vector.withSystem(system));
+    } finally {
+      Vector.SYSTEM = previous;
+    }
+  }
+
+  /**
+   * Returns the operator system used when values of systems `a` and `b` meet,
+   * `a` itself when they are the same, otherwise `Vector.MIXED_POLICY` decides
+   *
+   * @static
+   * @param {IOperatorSystem} a - The system of the receiving operand
+   * @param {IOperatorSystem} b - The system of the other operand
+   * @returns {IOperatorSystem}
+   * @memberof Vector
+   */
+  static mixSystems(
+    a: IOperatorSystem<any>,
+    b: IOperatorSystem<any>
+  ): IOperatorSystem<any> {
+    if (a === b) {
+      return a;
+    }
+    const policy = Vector.MIXED_POLICY;
+    if (typeof policy === 'function') {
+      return policy(a, b);
+    }
+    if (policy === 'throw') {
+      throw new MixedSystemError(a.name, b.name);
+    }
+    // 提升到精度更高的体系，精度相同时保持当前向量的体系
+    return (b.precision || 0) > (a.precision || 0) ? b : a;
+  }
+
   // 每个实例对应的操作体系
-  operatorSystem = Vector.SYSTEM;
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
 
-  config({ system = BigOperatorSystem }) {
-    if (typeof system === 'string') {
-      this.operatorSystem = OperatorSystem[system] || Vector.SYSTEM;
-    } else {
-      this.operatorSystem = system;
+  config({
+    system = BigOperatorSystem
+  }: { system?: SystemOption }): Vector<T> {
+    // 冻结的向量不能修改，返回绑定到新体系的副本
+    if (this.isFrozen()) {
+      return new Vector<T>(this._x, this._y, system);
+    }
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new vector bound to the same operator system as this one (or to `system`
+   * when given), every vector produced by the manipulation methods goes through it
+   *
+   * @param {Number} [x=0] - Value of the x axis
+   * @param {Number} [y=0] - Value of the y axis
+   * @param {IOperatorSystem} [system] - Defaults to this vector's operator system
+   * @returns {Vector}
+   * @memberof Vector
+   */
+  derive(
+    x?: Operand<T>,
+    y?: Operand<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): Vector<T> {
+    return new Vector<T>(x, y, system);
+  }
+
+  /**
+   * Returns the operator system used when this vector meets `vec` in a binary method.
+   * Scalars and vectors of the same system use this vector's system, otherwise
+   * `Vector.MIXED_POLICY` decides. Both vectors are converted to that system (see
+   * `convertTo`) before any arithmetic
+   *
+   * @param {(Vector|Number)} vec - The other operand
+   * @returns {IOperatorSystem}
+   * @memberof Vector
+   */
+  systemWith(vec: VectorOperand<T>): IOperatorSystem<any> {
+    return systemWith(this, vec);
+  }
+
+  // 二元运算的两个操作数都转换到 systemWith 选出的体系，返回 [this, vec, system]
+  protected operands<V extends VectorOperand<T>>(
+    vec: V
+  ): [Vector<T>, V, IOperatorSystem<any>] {
+    return alignOperands<Vector<T>, V>(this.systemWith(vec), this, vec);
+  }
+
+  /**
+   * Returns a copy of this vector converted to another operator system,
+   * each axis is re-created by the target system from its string form
+   * (or from the source system's `toDecimal`, e.g. fractions and intervals)
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     var vec = Vector.withSystem('base').create(0.1, 0.2);
+   *     vec.convertTo('rational').toString();
+   *     // => x:1/10, y:1/5
+   */
+  convertTo(system: SystemOption): Vector<T> {
+    const target = resolveSystem(system);
+    const [x, y] = convertValues(this.operatorSystem, target, [this.x, this.y]);
+    return this.derive(x, y, target);
+  }
+
+  /**
+   * Returns a mutable copy of this vector, see `MutableVector`
+   *
+   * @returns {MutableVector}
+   * @memberof Vector
+   * @example
+   *     var pos = new Vector(0, 0).mut();
+   *     pos.addInPlace(new Vector(1, 2)).addInPlace(new Vector(1, 2));
+   *     pos.toString();
+   *     // => x:2, y:4
+   */
+  mut(): MutableVector<T> {
+    return MutableVector.from<T>(this);
+  }
+
+  /**
+   * Freezes this vector with `Object.freeze` and returns it. Setting `x` or `y` of a frozen
+   * vector throws a `FrozenVectorError`, writing `_x` or `_y` directly throws a `TypeError`
+   * in strict mode code and is ignored otherwise. `config` returns a copy instead.
+   *
+   * Set `Vector.FROZEN = true` to freeze every new `Vector`
+   *
+   * @returns {Vector} - this vector
+   * @memberof Vector
+   * @example
+   *     var vec = new Vector(1, 2).freeze();
+   *     vec.x = 3;
+   *     // => FrozenVectorError
+   */
+  freeze(): Vector<T> {
+    Object.freeze(this);
+    return this;
+  }
+
+  // Returns true if this vector is frozen
+  isFrozen(): boolean {
+    return Object.isFrozen(this);
+  }
+
+  // 冻结的向量不能通过 x、y 的 setter 修改
+  private assertNotFrozen() {
+    if (this.isFrozen()) {
+      throw new FrozenVectorError();
     }
   }
 
@@ -39,58 +402,173 @@ export default class Vector<T> implements IVector<T> {
    *
    * @param {Number} [x=0] - Value of the x axis
    * @param {Number} [y=0] - Value of the y axis
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM] - The operator system or its name
    * @return {Vector}
    * @example
    *     var vec1 = new Vector(100, 50);
    *     var vec2 = Vector(42, 1337);
+   *     var vec3 = new Vector(0.1, 0.2, 'base');
    */
-  constructor(x?: Operand<T>, y?: Operand<T>) {
+  constructor(x?: Operand<T>, y?: Operand<T>, system?: SystemOption) {
     // 默认采用大数操作
     this._x = x || 0;
     this._y = y || 0;
+    if (system !== undefined) {
+      this.operatorSystem = resolveSystem(system);
+    }
+    if (Vector.FROZEN && !MutableVector.isMutableVector(this)) {
+      Object.freeze(this);
+    }
   }
 
   get x(): string {
     return this._x.toString();
   }
   set x(v) {
+    this.assertNotFrozen();
     this._x = this.operatorSystem.create(v);
   }
   get y(): string {
     return this._y.toString();
   }
   set y(v) {
+    this.assertNotFrozen();
     this._y = this.operatorSystem.create(v);
   }
 
   // Returns the length
   get length(): string {
-    const { sqrt } = this.operatorSystem;
-    return sqrt(this.lengthSq).toString();
+    return this.lengthValue().toString();
   }
 
   // Returns the squared length. If the length is only needed for comparison, this function is faster than length.
   get lengthSq(): string {
-    const { plus, multiply } = this.operatorSystem;
-    return plus(multiply(this.x, this.x), multiply(this.y, this.y)).toString();
+    return this.lengthSqValue().toString();
   }
 
   get angle(): string {
-    return Math.atan2(Number(this.y), Number(this.x)).toString();
+    return this.angleValue().toString();
   }
 
   get angleDegree(): string {
-    const { multiply } = this.operatorSystem;
-    return radian2degree(this.angle, multiply).toString();
+    return this.angleDegreeValue().toString();
   }
 
   get verticalAngle(): string {
-    return Math.atan2(Number(this.x), Number(this.y)).toString();
+    return this.verticalAngleValue().toString();
   }
 
   get verticalAngleDegree(): string {
-    const { multiply } = this.operatorSystem;
-    return radian2degree(this.verticalAngle, multiply).toString();
+    return this.verticalAngleDegreeValue().toString();
+  }
+
+  /**
+   * # Typed values
+   *
+   * The getters and scalar methods above return strings. Each of them has a `...Value`
+   * counterpart returning the native operand type `T` of the operator system (`Big` for
+   * the big system, `number` for the base system...), e.g. `xValue`, `lengthValue()`
+   * and `dotValue(vec)`. Binary methods return the type of the system chosen by
+   * `Vector.mixSystems`.
+   *
+   * Declare `T` to get the static type, e.g.
+   *
+   *     var vec = Vector.withSystem<number>('base').create(3, 4);
+   *     vec.lengthValue() + 1;
+   *     // => 6
+   */
+
+  get xValue(): T {
+    return this.operatorSystem.create(this._x);
+  }
+
+  get yValue(): T {
+    return this.operatorSystem.create(this._y);
+  }
+
+  lengthValue(): T {
+    const { sqrt } = this.operatorSystem;
+    return sqrt(this.lengthSqValue());
+  }
+
+  lengthSqValue(): T {
+    const { plus, multiply } = this.operatorSystem;
+    return plus(multiply(this.x, this.x), multiply(this.y, this.y));
+  }
+
+  angleValue(): T {
+    const { atan2 } = this.operatorSystem;
+    return atan2(this.y, this.x);
+  }
+
+  angleDegreeValue(): T {
+    const { create } = this.operatorSystem;
+    return create(radian2degree(this.angleValue(), this.operatorSystem));
+  }
+
+  verticalAngleValue(): T {
+    const { atan2 } = this.operatorSystem;
+    return atan2(this.x, this.y);
+  }
+
+  verticalAngleDegreeValue(): T {
+    const { create } = this.operatorSystem;
+    return create(radian2degree(this.verticalAngleValue(), this.operatorSystem));
+  }
+
+  dotValue(vec2: Vector<T>): T {
+    const [a, b, { plus, multiply }] = this.operands(vec2);
+    return plus(multiply(a.x, b.x), multiply(a.y, b.y));
+  }
+
+  crossValue(vec2: Vector<T>): T {
+    const [a, b, { minus, multiply }] = this.operands(vec2);
+    return minus(multiply(a.x, b.y), multiply(a.y, b.x));
+  }
+
+  cosAngleBetweenValue(vec2: Vector<T>): T {
+    const [a, b] = this.operands(vec2);
+    return a
+      .divide(a.length)
+      .divide(b.length)
+      .dotValue(b);
+  }
+
+  angleBetweenValue(vec2: Vector<T>): T {
+    const { acos } = this.systemWith(vec2);
+    return acos(this.cosAngleBetweenValue(vec2));
+  }
+
+  distanceXValue(vec: Vector<T>): T {
+    const [a, b, { minus }] = this.operands(vec);
+    return minus(a.x, b.x);
+  }
+
+  absDistanceXValue(vec: Vector<T>): T {
+    const { abs } = this.systemWith(vec);
+    return abs(this.distanceXValue(vec));
+  }
+
+  distanceYValue(vec: Vector<T>): T {
+    const [a, b, { minus }] = this.operands(vec);
+    return minus(a.y, b.y);
+  }
+
+  absDistanceYValue(vec: Vector<T>): T {
+    const { abs } = this.systemWith(vec);
+    return abs(this.distanceYValue(vec));
+  }
+
+  distanceValue(vec: Vector<T>): T {
+    const { sqrt } = this.systemWith(vec);
+    return sqrt(this.distanceSqValue(vec));
+  }
+
+  distanceSqValue(vec: Vector<T>): T {
+    const { plus, multiply } = this.systemWith(vec);
+    const dx = this.distanceXValue(vec);
+    const dy = this.distanceYValue(vec);
+    return plus(multiply(dx, dx), multiply(dy, dy));
   }
 
   /**
@@ -127,6 +605,56 @@ export default class Vector<T> implements IVector<T> {
     return new Vector<U>(obj.x || 0, obj.y || 0);
   }
 
+  /**
+   * Creates a new instance from polar coordinates
+   *
+   * @static
+   * @param {Number} length - Distance from the origin
+   * @param {Number} angle - Angle in radians CCW from +X axis
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     Vector.fromPolar(2, Math.PI / 2).toString();
+   *     // => x:0, y:2 (approximately)
+   */
+  static fromPolar<U>(
+    length: Operand<U>,
+    angle: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Vector<U> {
+    const operatorSystem = resolveSystem(system);
+    const { multiply, sin, cos } = operatorSystem;
+    return new Vector<U>(
+      multiply(length, cos(angle)),
+      multiply(length, sin(angle)),
+      operatorSystem
+    );
+  }
+
+  /**
+   * Same as fromPolar but uses degrees
+   *
+   * @static
+   * @param {Number} length - Distance from the origin
+   * @param {Number} degree - Angle in degrees CCW from +X axis
+   * @param {(IOperatorSystem|String)} [system=Vector.SYSTEM]
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     Vector.fromPolarDegree(2, 180).toString();
+   *     // => x:-2, y:0 (approximately)
+   */
+  static fromPolarDegree<U>(
+    length: Operand<U>,
+    degree: Operand<U>,
+    system: SystemOption = Vector.SYSTEM
+  ): Vector<U> {
+    const operatorSystem = resolveSystem(system);
+    const angle = degree2radian(degree, operatorSystem);
+    return Vector.fromPolar<U>(length, angle, operatorSystem);
+  }
+
   /**
    * # Manipulation
    *
@@ -151,9 +679,10 @@ export default class Vector<T> implements IVector<T> {
    */
   addX(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { plus } = this.operatorSystem;
-    const targetX = plus(this.x, isVector<T>(vec) ? vec.x : vec);
-    return new Vector<T>(targetX, this.y);
+    const [self, other, system] = this.operands(vec);
+    const { plus } = system;
+    const targetX = plus(self.x, isVector<T>(other) ? other.x : other);
+    return this.derive(targetX, self.y, system);
   }
 
   /**
@@ -174,9 +703,10 @@ export default class Vector<T> implements IVector<T> {
    */
   addY(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { plus } = this.operatorSystem;
-    const targetY = plus(this.y, isVector<T>(vec) ? vec.y : vec);
-    return new Vector<T>(this.x, targetY);
+    const [self, other, system] = this.operands(vec);
+    const { plus } = system;
+    const targetY = plus(self.y, isVector<T>(other) ? other.y : other);
+    return this.derive(self.x, targetY, system);
   }
 
   /**
@@ -216,9 +746,10 @@ export default class Vector<T> implements IVector<T> {
    */
   subtractX(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { minus } = this.operatorSystem;
-    const targetX = minus(this.x, isVector<T>(vec) ? vec.x : vec);
-    return new Vector<T>(targetX, this.y);
+    const [self, other, system] = this.operands(vec);
+    const { minus } = system;
+    const targetX = minus(self.x, isVector<T>(other) ? other.x : other);
+    return this.derive(targetX, self.y, system);
   }
 
   /**
@@ -239,9 +770,10 @@ export default class Vector<T> implements IVector<T> {
    */
   subtractY(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { minus } = this.operatorSystem;
-    const targetY = minus(this.y, isVector<T>(vec) ? vec.y : vec);
-    return new Vector<T>(this.x, targetY);
+    const [self, other, system] = this.operands(vec);
+    const { minus } = system;
+    const targetY = minus(self.y, isVector<T>(other) ? other.y : other);
+    return this.derive(self.x, targetY, system);
   }
 
   /**
@@ -282,9 +814,10 @@ export default class Vector<T> implements IVector<T> {
    */
   divideX(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { divide } = this.operatorSystem;
-    const targetX = divide(this.x, isVector<T>(vec) ? vec.x : vec);
-    return new Vector<T>(targetX, this.y);
+    const [self, other, system] = this.operands(vec);
+    const { divide } = system;
+    const targetX = divide(self.x, isVector<T>(other) ? other.x : other);
+    return this.derive(targetX, self.y, system);
   }
 
   /**
@@ -305,9 +838,10 @@ export default class Vector<T> implements IVector<T> {
    */
   divideY(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { divide } = this.operatorSystem;
-    const targetY = divide(this.y, isVector<T>(vec) ? vec.y : vec);
-    return new Vector<T>(this.x, targetY);
+    const [self, other, system] = this.operands(vec);
+    const { divide } = system;
+    const targetY = divide(self.y, isVector<T>(other) ? other.y : other);
+    return this.derive(self.x, targetY, system);
   }
 
   /**
@@ -348,9 +882,10 @@ export default class Vector<T> implements IVector<T> {
    */
   multiplyX(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { multiply } = this.operatorSystem;
-    const targetX = multiply(this.x, isVector<T>(vec) ? vec.x : vec);
-    return new Vector<T>(targetX, this.y);
+    const [self, other, system] = this.operands(vec);
+    const { multiply } = system;
+    const targetX = multiply(self.x, isVector<T>(other) ? other.x : other);
+    return this.derive(targetX, self.y, system);
   }
 
   /**
@@ -371,9 +906,10 @@ export default class Vector<T> implements IVector<T> {
    */
   multiplyY(vec: VectorOperand<T>): Vector<T> {
     const { isVector } = Vector;
-    const { multiply } = this.operatorSystem;
-    const targetY = multiply(this.y, isVector<T>(vec) ? vec.y : vec);
-    return new Vector<T>(this.x, targetY);
+    const [self, other, system] = this.operands(vec);
+    const { multiply } = system;
+    const targetY = multiply(self.y, isVector<T>(other) ? other.y : other);
+    return this.derive(self.x, targetY, system);
   }
 
   /**
@@ -465,19 +1001,15 @@ export default class Vector<T> implements IVector<T> {
    *  vec.rotate(-Math.PI).toString(); // vec is immutable
    *  // => x: -100, y: 0
    */
-  rotate(angle: number): Vector<T> {
-    const { multiply, plus, minus } = this.operatorSystem;
+  rotate(angle: Operand<T>): Vector<T> {
+    const { multiply, plus, minus, sin, cos } = this.operatorSystem;
 
-    //
-    const nx = minus(
-      multiply(this.x, Math.cos(angle)),
-      multiply(this.y, Math.sin(angle))
-    );
-    const ny = plus(
-      multiply(this.x, Math.sin(angle)),
-      multiply(this.y, Math.cos(angle))
-    );
-    return new Vector(nx, ny);
+    // 三角函数同样交给算术体系计算，保持精度
+    const sinA = sin(angle);
+    const cosA = cos(angle);
+    const nx = minus(multiply(this.x, cosA), multiply(this.y, sinA));
+    const ny = plus(multiply(this.x, sinA), multiply(this.y, cosA));
+    return this.derive(nx, ny);
   }
 
   /**
@@ -490,12 +1022,77 @@ export default class Vector<T> implements IVector<T> {
    *  vec.rotate(90).toString(); // vec is immutable
    *  // => x: 0, y: 100
    */
-  rotateDegree(degree: number): Vector<T> {
-    const { divide } = this.operatorSystem;
-    const angle = degree2radian(degree, divide);
+  rotateDegree(degree: Operand<T>): Vector<T> {
+    const angle = degree2radian(degree, this.operatorSystem);
     return this.rotate(angle);
   }
 
+  /**
+   * Returns the polar form `{ r, theta }`, `theta` is in (-PI, PI].
+   * The zero vector gives `{ r: '0', theta: '0' }`
+   *
+   * @returns {IPolar}
+   * @memberof Vector
+   * @example
+   *     new Vector(0, 2).toPolar();
+   *     // => { r: '2', theta: PI / 2 }
+   */
+  toPolar(): IPolar {
+    const { create } = this.operatorSystem;
+    // 零向量的方向没有意义，约定为 0（区间体系的 atan2 在原点附近给出整个范围）
+    const theta = this.isZero() === true ? create(0).toString() : this.angle;
+    return { r: this.length, theta };
+  }
+
+  /**
+   * Returns a vector with the same direction and the given length, a negative length
+   * points the opposite way. The zero vector is taken as pointing along +X axis
+   *
+   * @param {Number} len - The new length
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(3, 4).withLength(10).toString();
+   *     // => x:6, y:8
+   */
+  withLength(len: Operand<T>): Vector<T> {
+    if (this.isZero() === true) {
+      return this.derive(len, 0);
+    }
+    const { divide } = this.operatorSystem;
+    return this.multiply(divide(len, this.length));
+  }
+
+  /**
+   * Returns a vector with the same length pointing at the given angle,
+   * the zero vector stays zero
+   *
+   * @param {Number} theta - Angle in radians CCW from +X axis
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(3, 4).withAngle(Math.PI).toString();
+   *     // => x:-5, y:0 (approximately)
+   */
+  withAngle(theta: Operand<T>): Vector<T> {
+    return Vector.fromPolar<T>(this.length, theta, this.operatorSystem);
+  }
+
+  /**
+   * Applies a linear (`Matrix2`) or affine (`Matrix3`) transform to this vector
+   *
+   * @param {(Matrix2|Matrix3)} m - The transform
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     var m = Matrix3.scaling(2).compose(Matrix3.translation(1, 0));
+   *     new Vector(1, 1).transform(m).toString();
+   *     // => x:3, y:2
+   */
+  transform(m: Matrix2<T> | Matrix3<T>): Vector<T> {
+    return m.apply(this);
+  }
+
   /**
    * Calculates the dot product of this vector and another
    *
@@ -510,8 +1107,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => 23000
    */
   dot(vec2: Vector<T>): string {
-    const { plus, multiply } = this.operatorSystem;
-    return plus(multiply(this.x, vec2.x), multiply(this.y, vec2.y)).toString();
+    return this.dotValue(vec2).toString();
   }
 
   /**
@@ -531,8 +1127,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => -4000
    */
   cross(vec2: Vector<T>): string {
-    const { minus, multiply } = this.operatorSystem;
-    return minus(multiply(this.x, vec2.y), multiply(this.y, vec2.x)).toString();
+    return this.crossValue(vec2).toString();
   }
 
   /**
@@ -549,11 +1144,16 @@ export default class Vector<T> implements IVector<T> {
    *
    */
   projectOnto(vec2: Vector<T>): Vector<T> {
-    const { multiply, divide } = this.operatorSystem;
+    const [self, other, system] = this.operands(vec2);
+    const { multiply, divide } = system;
 
     // 求解向量上的分解因子
-    var coeff = divide(this.dot(vec2), vec2.lengthSq);
-    return new Vector(multiply(coeff, vec2.x), multiply(coeff, vec2.y));
+    var coeff = divide(self.dot(other), other.lengthSq);
+    return this.derive(
+      multiply(coeff, other.x),
+      multiply(coeff, other.y),
+      system
+    );
   }
 
   /**
@@ -569,9 +1169,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => 1
    */
   cosAngleBetween(vec2: Vector<T>): string {
-    return this.divide(this.length)
-      .divide(vec2.length)
-      .dot(vec2);
+    return this.cosAngleBetweenValue(vec2).toString();
   }
 
   /**
@@ -587,7 +1185,214 @@ export default class Vector<T> implements IVector<T> {
    *     // => PI / 4
    */
   angleBetween(vec2: Vector<T>): string {
-    return Math.acos(Number(this.cosAngleBetween(vec2))).toString();
+    return this.angleBetweenValue(vec2).toString();
+  }
+
+  /**
+   * # Complex numbers
+   *
+   * The vector `(x, y)` is treated as the complex number `x + yi`. `exp`, `log`, `pow` with
+   * a non-integer exponent and `nthRoots` (unless `n` is a power of 2) require the optional
+   * `exp` / `ln` of the operator system.
+   */
+
+  /**
+   * Complex multiplication `(a + bi)(c + di)`, i.e. scales by the length of `vec` and rotates
+   * by its angle. A number is treated as a real number
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(1, 2).complexMultiply(new Vector(3, 4)).toString();
+   *     // => x:-5, y:10
+   */
+  complexMultiply(vec: VectorOperand<T>): Vector<T> {
+    if (!Vector.isVector<T>(vec)) {
+      return this.multiply(vec);
+    }
+    const [a, b, system] = this.operands(vec);
+    const { plus, minus, multiply } = system;
+    return this.derive(
+      minus(multiply(a.x, b.x), multiply(a.y, b.y)),
+      plus(multiply(a.x, b.y), multiply(a.y, b.x)),
+      system
+    );
+  }
+
+  /**
+   * Complex division `(a + bi) / (c + di)`. A number is treated as a real number
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(-5, 10).complexDivide(new Vector(3, 4)).toString();
+   *     // => x:1, y:2
+   */
+  complexDivide(vec: VectorOperand<T>): Vector<T> {
+    if (!Vector.isVector<T>(vec)) {
+      return this.divide(vec);
+    }
+    const [a, b, system] = this.operands(vec);
+    const { plus, minus, multiply, divide } = system;
+    const denominator = b.lengthSq;
+    return this.derive(
+      divide(plus(multiply(a.x, b.x), multiply(a.y, b.y)), denominator),
+      divide(minus(multiply(a.y, b.x), multiply(a.x, b.y)), denominator),
+      system
+    );
+  }
+
+  /**
+   * Complex conjugate `a - bi`, the reflection across the X axis
+   *
+   * @returns {Vector}
+   * @memberof Vector
+   */
+  conjugate(): Vector<T> {
+    return this.invertY();
+  }
+
+  /**
+   * Raises the complex number to the power of `n`. Integer exponents use repeated
+   * multiplication and are exact in exact systems, other exponents use the principal
+   * value `exp(n * log(z))`
+   *
+   * @param {Number} n - Real exponent
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(1, 1).pow(2).toString();
+   *     // => x:0, y:2
+   */
+  pow(n: Operand<T>): Vector<T> {
+    const { equal, sign } = this.operatorSystem;
+    const k = Number(n);
+    if (k % 1 === 0 && equal(n, k) === true) {
+      // 快速幂，负指数取倒数
+      let result = this.derive(1, 0);
+      let base: Vector<T> = this;
+      for (let e = Math.abs(k); e > 0; e = Math.floor(e / 2)) {
+        if (e % 2) {
+          result = result.complexMultiply(base);
+        }
+        base = base.complexMultiply(base);
+      }
+      return k < 0 ? this.derive(1, 0).complexDivide(result) : result;
+    }
+    if (this.isZero() === true && sign(n) > 0) {
+      return this.derive(0, 0);
+    }
+    return this.log()
+      .multiply(n)
+      .exp();
+  }
+
+  /**
+   * Returns the `n` complex `n`-th roots, starting at the principal root and
+   * going counterclockwise. When `n` is a power of 2 the roots only take square roots
+   * (no `pi` or trigonometry), so they stay exact under rational when possible
+   *
+   * @param {Number} n - Positive integer
+   * @returns {Vector[]}
+   * @memberof Vector
+   * @example
+   *     new Vector(-4, 0).nthRoots(2).map(String);
+   *     // => ['x:0, y:2', 'x:0, y:-2'] (approximately)
+   */
+  nthRoots(n: number): Array<Vector<T>> {
+    if (!(n >= 1 && n % 1 === 0)) {
+      throw new VectorError(
+        `nthRoots expects a positive integer, received: ${n}`
+      );
+    }
+    const { plus, multiply, divide, sin, cos } = this.operatorSystem;
+    const roots: Array<Vector<T>> = [];
+    if (this.isZero() === true) {
+      for (let k = 0; k < n; k++) {
+        roots.push(this.derive(0, 0));
+      }
+      return roots;
+    }
+    if (!(n & (n - 1))) {
+      // n 为 2 的幂时反复取主平方根，精确体系中结果可能是精确的
+      let root = this.derive(this.x, this.y);
+      // n 次单位根 e^(2πi / n)
+      let unit = this.derive(1, 0);
+      for (let m = 1; m < n; m *= 2) {
+        root = root.principalSqrt();
+        unit = m === 1 ? this.derive(-1, 0) : unit.principalSqrt();
+      }
+      for (let k = 0; k < n; k++) {
+        roots.push(root);
+        root = root.complexMultiply(unit);
+      }
+      return roots;
+    }
+    // |z|^(1/n) = exp(ln(|z|^2) / 2n)
+    const exp = this.requireOperation('exp');
+    const ln = this.requireOperation('ln');
+    const radius = exp(divide(ln(this.lengthSq), 2 * n));
+    const { pi } = this.operatorSystem;
+    for (let k = 0; k < n; k++) {
+      const theta = divide(plus(this.angle, multiply(multiply(pi, 2), k)), n);
+      roots.push(
+        this.derive(multiply(radius, cos(theta)), multiply(radius, sin(theta)))
+      );
+    }
+    return roots;
+  }
+
+  /**
+   * Complex exponential `e^(a + bi) = e^a * (cos b + i sin b)`
+   *
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(0, Math.PI).exp().toString();
+   *     // => x:-1, y:0 (approximately)
+   */
+  exp(): Vector<T> {
+    const { multiply, sin, cos } = this.operatorSystem;
+    const r = this.requireOperation('exp')(this.x);
+    return this.derive(multiply(r, cos(this.y)), multiply(r, sin(this.y)));
+  }
+
+  /**
+   * Principal complex logarithm `ln|z| + i arg(z)`, the imaginary part is in (-PI, PI]
+   *
+   * @returns {Vector}
+   * @memberof Vector
+   * @example
+   *     new Vector(-1, 0).log().toString();
+   *     // => x:0, y:PI
+   */
+  log(): Vector<T> {
+    const { divide } = this.operatorSystem;
+    // ln|z| = ln(|z|^2) / 2，避免开方带来的舍入
+    const ln = this.requireOperation('ln');
+    return this.derive(divide(ln(this.lengthSq), 2), this.angle);
+  }
+
+  // 复数的主平方根 (√((|z| + x) / 2), ±√((|z| - x) / 2))，虚部与 y 同号
+  private principalSqrt(): Vector<T> {
+    const system = this.operatorSystem;
+    const { plus, minus, multiply, divide, sqrt, max, compare } = system;
+    const r = this.length;
+    // |z| 经过舍入后可能略小于 |x|，避免对负数开方
+    const re = sqrt(divide(max(plus(r, this.x), 0), 2));
+    const im = sqrt(divide(max(minus(r, this.x), 0), 2));
+    return this.derive(re, compare(this.y, 0) < 0 ? multiply(im, -1) : im);
+  }
+
+  // 取出算术体系中可选的运算，未实现时抛出 UnsupportedOperationError
+  private requireOperation(operation: 'exp' | 'ln') {
+    const fn = this.operatorSystem[operation];
+    if (!fn) {
+      throw new UnsupportedOperationError(this.operatorSystem.name, operation);
+    }
+    return fn;
   }
 
   /**
@@ -604,9 +1409,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => -100
    */
   distanceX(vec: Vector<T>): string {
-    const { minus } = this.operatorSystem;
-
-    return minus(this.x, vec.x).toString();
+    return this.distanceXValue(vec).toString();
   }
 
   /**
@@ -623,8 +1426,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => 100
    */
   absDistanceX(vec: Vector<T>): string {
-    const { abs } = this.operatorSystem;
-    return abs(this.distanceX(vec)).toString();
+    return this.absDistanceXValue(vec).toString();
   }
 
   /**
@@ -641,8 +1443,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => -100
    */
   distanceY(vec: Vector<T>): string {
-    const { minus } = this.operatorSystem;
-    return minus(this.y, vec.y).toString();
+    return this.distanceYValue(vec).toString();
   }
 
   /**
@@ -659,8 +1460,7 @@ export default class Vector<T> implements IVector<T> {
    *     // => 100
    */
   absDistanceY(vec: Vector<T>): string {
-    const { abs } = this.operatorSystem;
-    return abs(this.distanceY(vec)).toString();
+    return this.absDistanceYValue(vec).toString();
   }
 
   /**
@@ -678,8 +1478,7 @@ export default class Vector<T> implements IVector<T> {
    *
    */
   distance(vec: Vector<T>): string {
-    const { sqrt } = this.operatorSystem;
-    return sqrt(this.distanceSq(vec)).toString();
+    return this.distanceValue(vec).toString();
   }
 
   /**
@@ -698,15 +1497,16 @@ export default class Vector<T> implements IVector<T> {
    *
    */
   distanceSq(vec: Vector<T>): string {
-    const { plus, multiply } = this.operatorSystem;
-    const dx = this.distanceX(vec);
-    const dy = this.distanceY(vec);
-    return plus(multiply(dx, dx), multiply(dy, dy)).toString();
+    return this.distanceSqValue(vec).toString();
   }
 
   /**
    * Returns a true if vector is (0, 0)
    *
+   * For interval systems the answer is `'overlap'` when it can not be decided.
+   * When `tol` is given, each axis only needs to be within `tol` of zero
+   *
+   * @param {Number} [tol] - Absolute tolerance
    * @returns {Boolean} -
    * @memberof Vector
    * @example
@@ -714,15 +1514,26 @@ export default class Vector<T> implements IVector<T> {
    *     vec.isZero();
    *     // => true
    *
+   *     new Vector(1e-12, 0).isZero(1e-9);
+   *     // => true
+   *
    */
-  isZero(): boolean {
+  isZero(tol?: Operand<T>): boolean | Uncertain {
+    if (tol !== undefined) {
+      return this.isEqualTo(this.derive(0, 0), { absTol: tol });
+    }
     const { equal } = this.operatorSystem;
-    return equal(this.x, 0) && equal(this.y, 0);
+    return and3(equal(this.x, 0), equal(this.y, 0));
   }
   /**
    * Returns a true if this vector is the same as another
+   * For interval systems the answer is `'overlap'` when it can not be decided
    *
+   * With a tolerance, each axis is compared as `|a - b| <= max(absTol, relTol * max(|a|, |b|))`,
+   * which suits results of `rotate` or `normalize` that rarely compare exactly
    *
+   * @param {Vector} vec2
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
    * @return {Boolean}
    * @memberof Vector
    * @example
@@ -732,10 +1543,103 @@ export default class Vector<T> implements IVector<T> {
    *
    *     // => true
    *
+   *     new Vector(1, 0).rotateDegree(360).isEqualTo(new Vector(1, 0), { absTol: 1e-9 });
+   *     // => true
    */
-  isEqualTo(vec2: Vector<T>) : boolean{
-    const { equal } = this.operatorSystem;
-    return equal(this.x, vec2.x) && equal(this.y, vec2.y);
+  isEqualTo(
+    vec2: Vector<T>,
+    tolerance?: ITolerance<T>
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    if (tolerance) {
+      return and3(
+        isClose(system, a.x, b.x, tolerance),
+        isClose(system, a.y, b.y, tolerance)
+      );
+    }
+    const { equal } = system;
+    return and3(equal(a.x, b.x), equal(a.y, b.y));
+  }
+
+  /**
+   * Returns true if the two vectors are parallel (same or opposite direction),
+   * i.e. `|a x b| <= tol * |a| * |b|`. The zero vector is parallel to any vector.
+   * For interval systems the answer is `'overlap'` when it can not be decided
+   *
+   * @param {Vector} vec2
+   * @param {Number} [tol=0] - Tolerance on the sine of the angle between them
+   * @returns {Boolean}
+   * @memberof Vector
+   * @example
+   *     new Vector(1, 2).isParallelTo(new Vector(-2, -4));
+   *     // => true
+   */
+  isParallelTo(vec2: Vector<T>, tol: Operand<T> = 0): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    return withinAngle(system, a.cross(b), a.lengthSq, b.lengthSq, tol);
+  }
+
+  /**
+   * Returns true if the two vectors are perpendicular, i.e. `|a . b| <= tol * |a| * |b|`.
+   * The zero vector is perpendicular to any vector.
+   * For interval systems the answer is `'overlap'` when it can not be decided
+   *
+   * @param {Vector} vec2
+   * @param {Number} [tol=0] - Tolerance on the cosine of the angle between them
+   * @returns {Boolean}
+   * @memberof Vector
+   * @example
+   *     new Vector(1, 2).isPerpendicularTo(new Vector(-2, 1));
+   *     // => true
+   */
+  isPerpendicularTo(
+    vec2: Vector<T>,
+    tol: Operand<T> = 0
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    return withinAngle(system, a.dot(b), a.lengthSq, b.lengthSq, tol);
+  }
+
+  /**
+   * Compares the length of this vector with another one, without any square root
+   *
+   * @param {Vector} vec2
+   * @returns {Number} - -1, 0 or 1; NaN when an interval system can not decide
+   * @memberof Vector
+   * @example
+   *     new Vector(3, 4).compareLength(new Vector(0, 6));
+   *     // => -1
+   */
+  compareLength(vec2: Vector<T>): number {
+    const [a, b, { compare }] = this.operands(vec2);
+    return compare(a.lengthSq, b.lengthSq);
+  }
+
+  /**
+   * Returns a canonical string of the value of this vector, vectors with equal values get
+   * the same key whatever their operator system or string form (`'1.0'` and `'1'`).
+   * Use it to key plain objects, or see `VectorMap` and `VectorSet`.
+   *
+   * Values that are not finite decimals are keyed by their decimal approximation
+   * (`toDecimal`, e.g. 20 places for fractions, the midpoint for intervals). Every key is
+   * rounded half up to 20 decimal places, so `2/3` gets the same key under rational and big
+   *
+   * @returns {String}
+   * @memberof Vector
+   * @example
+   *     new Vector('1.0', -0.5).hashKey();
+   *     // => 1,-0.5
+   *
+   *     new Vector(0.5, 2).config({ system: 'rational' }).hashKey();
+   *     // => 0.5,2
+   */
+  hashKey(): string {
+    const { operatorSystem } = this;
+    return (
+      canonicalDecimal(operatorSystem, this.x) +
+      ',' +
+      canonicalDecimal(operatorSystem, this.y)
+    );
   }
 
   /**
@@ -784,3 +1688,192 @@ export default class Vector<T> implements IVector<T> {
     return { x: this.x, y: this.y };
   }
 }
+
+/**
+ * MutableVector - a `Vector` with in-place operations for allocation-free hot loops.
+ *
+ * The `...InPlace` methods change this vector and return it, the inherited methods
+ * (`add`, `rotate`...) still return new immutable `Vector`s. Binary operations with a
+ * vector of another operator system switch this vector to the system picked by
+ * `Vector.mixSystems`.
+ *
+ * 定义在 Vector 之后的同一个模块中：跨模块继承会形成循环依赖，打包后基类可能尚未定义
+ */
+export class MutableVector<T> extends Vector<T> {
+  static isMutableVector<U>(vec): vec is MutableVector<U> {
+    return vec instanceof MutableVector;
+  }
+
+  /**
+   * Creates a mutable copy of the given vector, bound to the same operator system
+   *
+   * @static
+   * @param {IReadonlyVector} vec
+   * @returns {MutableVector}
+   * @memberof MutableVector
+   */
+  static from<U>(vec: IReadonlyVector<U>): MutableVector<U> {
+    const copy = new MutableVector<U>(vec.xValue, vec.yValue);
+    copy.operatorSystem = vec.operatorSystem;
+    return copy;
+  }
+
+  /**
+   * Sets both axes
+   *
+   * @param {Number} [x=0]
+   * @param {Number} [y=0]
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  set(x?: Operand<T>, y?: Operand<T>): MutableVector<T> {
+    this._x = x || 0;
+    this._y = y || 0;
+    return this;
+  }
+
+  /**
+   * Copies the axes and the operator system of another vector
+   *
+   * @param {IReadonlyVector} vec
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  copy(vec: IReadonlyVector<T>): MutableVector<T> {
+    this.operatorSystem = vec.operatorSystem;
+    return this.set(vec.xValue, vec.yValue);
+  }
+
+  /**
+   * Adds another vector or number to this one, in place
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   * @example
+   *     var vec = new MutableVector(1, 2);
+   *     vec.addInPlace(new Vector(3, 4));
+   *     vec.toString();
+   *     // => x:4, y:6
+   */
+  addInPlace(vec: VectorOperand<T>): MutableVector<T> {
+    return this.operateInPlace(vec, system => system.plus);
+  }
+
+  /**
+   * Subtracts another vector or number from this one, in place
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  subtractInPlace(vec: VectorOperand<T>): MutableVector<T> {
+    return this.operateInPlace(vec, system => system.minus);
+  }
+
+  /**
+   * Multiplies by another vector (axis by axis) or number, in place
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  multiplyInPlace(vec: VectorOperand<T>): MutableVector<T> {
+    return this.operateInPlace(vec, system => system.multiply);
+  }
+
+  /**
+   * Divides by another vector (axis by axis) or number, in place
+   *
+   * @param {(Vector|Number)} vec
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  divideInPlace(vec: VectorOperand<T>): MutableVector<T> {
+    return this.operateInPlace(vec, system => system.divide);
+  }
+
+  // inverts both axes in place
+  invertInPlace(): MutableVector<T> {
+    return this.multiplyInPlace(-1);
+  }
+
+  /**
+   * Normalize to unit vector, in place
+   *
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  normalizeInPlace(): MutableVector<T> {
+    return this.divideInPlace(this.lengthValue());
+  }
+
+  /**
+   * Rotates by the angle in radians CCW, in place
+   *
+   * @param {Number} angle - Angle in radians
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  rotateInPlace(angle: Operand<T>): MutableVector<T> {
+    const { multiply, plus, minus, sin, cos } = this.operatorSystem;
+    const sinA = sin(angle);
+    const cosA = cos(angle);
+    const x = this._x;
+    const y = this._y;
+    this._x = minus(multiply(x, cosA), multiply(y, sinA));
+    this._y = plus(multiply(x, sinA), multiply(y, cosA));
+    return this;
+  }
+
+  /**
+   * Same as rotateInPlace but uses degrees
+   *
+   * @param {Number} degree - Angle in degrees
+   * @returns {MutableVector} - this vector
+   * @memberof MutableVector
+   */
+  rotateDegreeInPlace(degree: Operand<T>): MutableVector<T> {
+    return this.rotateInPlace(degree2radian(degree, this.operatorSystem));
+  }
+
+  /**
+   * Returns an immutable copy of this vector
+   *
+   * @returns {Vector}
+   * @memberof MutableVector
+   */
+  toVector(): Vector<T> {
+    return this.derive(this.xValue, this.yValue);
+  }
+
+  /**
+   * A mutable vector is never frozen, returns a frozen immutable copy instead
+   *
+   * @returns {Vector}
+   * @memberof MutableVector
+   */
+  freeze(): Vector<T> {
+    return this.toVector().freeze();
+  }
+
+  // 逐个坐标轴执行二元运算并写回，vec 为数值时作用于两个坐标轴
+  private operateInPlace(
+    vec: VectorOperand<T>,
+    operation: (system: IOperatorSystem<any>) => (x, y) => any
+  ): MutableVector<T> {
+    // 直接使用（转换后的）内部的值，避免转换成字符串
+    const [self, other, system] = this.operands(vec);
+    const fn = operation(system);
+    if (Vector.isVector<T>(other)) {
+      this._x = fn(self._x, other._x);
+      this._y = fn(self._y, other._y);
+    } else {
+      this._x = fn(self._x, other);
+      this._y = fn(self._y, other);
+    }
+    this.operatorSystem = system;
+    return this;
+  }
+}
+
@@ -0,0 +1,757 @@
+import Vector, { ITolerance, SystemOption } from './vector';
+import {
+  IOperatorSystem,
+  Operand,
+  Uncertain,
+  DualOperation,
+  resolveSystem
+} from './operator-system';
+import {
+  and3,
+  isClose,
+  atMost,
+  withinAngle,
+  systemOf,
+  systemWith,
+  bindSystem,
+  convertValues,
+  alignOperands
+} from './util';
+import { RotationMatrix3 } from './matrix';
+
+/**
+ * Vector3 - 3D vector class, shares the operator systems (and `Vector.SYSTEM`,
+ * `Vector.MIXED_POLICY`) with the 2D `Vector`
+ */
+
+export interface IVector3<T> {
+  _x: Operand<T>;
+  _y: Operand<T>;
+  _z: Operand<T>;
+}
+
+export type Vector3Operand<T> = Vector3<T> | Operand<T>;
+
+type Axis = 'x' | 'y' | 'z';
+
+export default class Vector3<T> implements IVector3<T> {
+  _x: Operand<T>;
+  _y: Operand<T>;
+  _z: Operand<T>;
+
+  static isVector3<U>(vec: Vector3Operand<U>): vec is Vector3<U> {
+    return vec instanceof Vector3;
+  }
+
+  /**
+   * Creates a new instance from an array
+   *
+   * @static
+   * @param {Array} arr - Array with the x, y and z values at index 0, 1 and 2
+   * @returns {Vector3}
+   * @memberof Vector3
+   * @example
+   *     Vector3.fromArray([1, 2, 3]).toString();
+   *     // => x:1, y:2, z:3
+   */
+  static fromArray<U>(arr): Vector3<U> {
+    return new Vector3<U>(arr[0] || 0, arr[1] || 0, arr[2] || 0);
+  }
+
+  /**
+   * Creates a new instance from an object
+   *
+   * @static
+   * @param {Object} obj - Object with the values for x, y and z
+   * @returns {Vector3}
+   * @memberof Vector3
+   * @example
+   *     Vector3.fromObject({ x: 1, y: 2, z: 3 }).toString();
+   *     // => x:1, y:2, z:3
+   */
+  static fromObject<U>(obj): Vector3<U> {
+    return new Vector3<U>(obj.x || 0, obj.y || 0, obj.z || 0);
+  }
+
+  /**
+   * Lifts a 2D vector into 3D, keeping its operator system
+   *
+   * @static
+   * @param {Vector} vec - The 2D vector
+   * @param {Number} [z=0] - Value of the z axis
+   * @returns {Vector3}
+   * @memberof Vector3
+   * @example
+   *     Vector3.fromVector(new Vector(1, 2), 3).toString();
+   *     // => x:1, y:2, z:3
+   */
+  static fromVector<U>(vec: Vector<U>, z: Operand<U> = 0): Vector3<U> {
+    const vec3 = new Vector3<U>(vec.x, vec.y, z);
+    vec3.operatorSystem = vec.operatorSystem;
+    return vec3;
+  }
+
+  // 每个实例对应的操作体系，默认与 2D 向量相同
+  operatorSystem: IOperatorSystem<any> = Vector.SYSTEM;
+
+  config({ system = Vector.SYSTEM }: { system?: SystemOption }): Vector3<T> {
+    return bindSystem(this, system);
+  }
+
+  /**
+   * Creates a new vector bound to the same operator system as this one (or to `system`)
+   *
+   * @param {Number} [x=0]
+   * @param {Number} [y=0]
+   * @param {Number} [z=0]
+   * @param {IOperatorSystem} [system] - Defaults to this vector's operator system
+   * @returns {Vector3}
+   * @memberof Vector3
+   */
+  derive(
+    x?: Operand<T>,
+    y?: Operand<T>,
+    z?: Operand<T>,
+    system: IOperatorSystem<any> = this.operatorSystem
+  ): Vector3<T> {
+    return bindSystem(new Vector3<T>(x, y, z), system);
+  }
+
+  /**
+   * Returns the operator system used when this vector meets `vec` in a binary method,
+   * see `Vector.mixSystems`
+   *
+   * @param {(Vector3|Number)} vec - The other operand
+   * @returns {IOperatorSystem}
+   * @memberof Vector3
+   */
+  systemWith(vec: Vector3Operand<T>): IOperatorSystem<any> {
+    return systemWith(this, vec);
+  }
+
+  /**
+   * Returns a copy of this vector converted to another operator system
+   *
+   * @param {(IOperatorSystem|String)} system - The target operator system or its name
+   * @returns {Vector3}
+   * @memberof Vector3
+   */
+  convertTo(system: SystemOption): Vector3<T> {
+    const target = resolveSystem(system);
+    const [x, y, z] = convertValues(this.operatorSystem, target, [
+      this.x,
+      this.y,
+      this.z
+    ]);
+    return this.derive(x, y, z, target);
+  }
+
+  /**
+   * Drops the z axis, the 2D vector keeps this vector's operator system
+   *
+   * @returns {Vector}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).toVector().toString();
+   *     // => x:1, y:2
+   */
+  toVector(): Vector<T> {
+    return new Vector<T>(this.x, this.y).config({
+      system: this.operatorSystem
+    });
+  }
+
+  /**
+   * Constructor
+   *
+   * @param {Number} [x=0] - Value of the x axis
+   * @param {Number} [y=0] - Value of the y axis
+   * @param {Number} [z=0] - Value of the z axis
+   * @example
+   *     var vec = new Vector3(1, 2, 3);
+   */
+  constructor(x?: Operand<T>, y?: Operand<T>, z?: Operand<T>) {
+    this._x = x || 0;
+    this._y = y || 0;
+    this._z = z || 0;
+  }
+
+  get x(): string {
+    return this._x.toString();
+  }
+  set x(v) {
+    this._x = this.operatorSystem.create(v);
+  }
+  get y(): string {
+    return this._y.toString();
+  }
+  set y(v) {
+    this._y = this.operatorSystem.create(v);
+  }
+  get z(): string {
+    return this._z.toString();
+  }
+  set z(v) {
+    this._z = this.operatorSystem.create(v);
+  }
+
+  // Returns the length
+  get length(): string {
+    const { sqrt } = this.operatorSystem;
+    return sqrt(this.lengthSq).toString();
+  }
+
+  // Returns the squared length. If the length is only needed for comparison, this function is faster than length.
+  get lengthSq(): string {
+    return this.dot(this);
+  }
+
+  /**
+   * # Manipulation
+   *
+   * These functions are chainable and immutable.
+   */
+
+  // 对单个坐标轴执行二元运算，其余坐标轴保持不变
+  private operateAxis(
+    axis: Axis,
+    vec: Vector3Operand<T>,
+    operation: (system: IOperatorSystem<any>) => DualOperation<any>
+  ): Vector3<T> {
+    const [self, other, system] = this.operands(vec);
+    const value = Vector3.isVector3<T>(other) ? other[axis] : other;
+    const result = { x: self.x, y: self.y, z: self.z };
+    result[axis] = operation(system)(self[axis], value);
+    return this.derive(result.x, result.y, result.z, system);
+  }
+
+  // 二元运算的两个操作数都转换到 systemWith 选出的体系，返回 [this, vec, system]
+  private operands<V extends Vector3Operand<T>>(
+    vec: V
+  ): [Vector3<T>, V, IOperatorSystem<any>] {
+    return alignOperands<Vector3<T>, V>(this.systemWith(vec), this, vec);
+  }
+
+  /**
+   * Adds another vector's X axis or certain number to this one
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).addX(10).toString();
+   *     // => x:11, y:2, z:3
+   */
+  addX(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('x', vec, s => s.plus);
+  }
+
+  // Same as `addX()` on the Y axis
+  addY(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('y', vec, s => s.plus);
+  }
+
+  // Same as `addX()` on the Z axis
+  addZ(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('z', vec, s => s.plus);
+  }
+
+  /**
+   * Adds another vector or number to this one
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).add(new Vector3(10, 20, 30)).toString();
+   *     // => x:11, y:22, z:33
+   */
+  add(vec: Vector3Operand<T>): Vector3<T> {
+    return this.addX(vec)
+      .addY(vec)
+      .addZ(vec);
+  }
+
+  /**
+   * Subtracts another vector's X axis or certain number from this one
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   */
+  subtractX(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('x', vec, s => s.minus);
+  }
+
+  // Same as `subtractX()` on the Y axis
+  subtractY(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('y', vec, s => s.minus);
+  }
+
+  // Same as `subtractX()` on the Z axis
+  subtractZ(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('z', vec, s => s.minus);
+  }
+
+  /**
+   * Subtracts another vector or number from this one
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(10, 20, 30).subtract(1).toString();
+   *     // => x:9, y:19, z:29
+   */
+  subtract(vec: Vector3Operand<T>): Vector3<T> {
+    return this.subtractX(vec)
+      .subtractY(vec)
+      .subtractZ(vec);
+  }
+
+  /**
+   * Divides X axis by another vector's X axis or certain number
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   */
+  divideX(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('x', vec, s => s.divide);
+  }
+
+  // Same as `divideX()` on the Y axis
+  divideY(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('y', vec, s => s.divide);
+  }
+
+  // Same as `divideX()` on the Z axis
+  divideZ(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('z', vec, s => s.divide);
+  }
+
+  /**
+   * Divides by another vector or certain number
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(10, 20, 30).divide(10).toString();
+   *     // => x:1, y:2, z:3
+   */
+  divide(vec: Vector3Operand<T>): Vector3<T> {
+    return this.divideX(vec)
+      .divideY(vec)
+      .divideZ(vec);
+  }
+
+  /**
+   * Multiplies X axis by another vector's X axis or certain number
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   */
+  multiplyX(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('x', vec, s => s.multiply);
+  }
+
+  // Same as `multiplyX()` on the Y axis
+  multiplyY(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('y', vec, s => s.multiply);
+  }
+
+  // Same as `multiplyX()` on the Z axis
+  multiplyZ(vec: Vector3Operand<T>): Vector3<T> {
+    return this.operateAxis('z', vec, s => s.multiply);
+  }
+
+  /**
+   * Multiplies by another vector or certain number
+   *
+   * @param {(Vector3|Number)} vec
+   * @return {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).multiply(2).toString();
+   *     // => x:2, y:4, z:6
+   */
+  multiply(vec: Vector3Operand<T>): Vector3<T> {
+    return this.multiplyX(vec)
+      .multiplyY(vec)
+      .multiplyZ(vec);
+  }
+
+  // inverts X axis
+  invertX(): Vector3<T> {
+    return this.multiplyX(-1);
+  }
+
+  // inverts Y axis
+  invertY(): Vector3<T> {
+    return this.multiplyY(-1);
+  }
+
+  // inverts Z axis
+  invertZ(): Vector3<T> {
+    return this.multiplyZ(-1);
+  }
+
+  // inverts all axes
+  invert(): Vector3<T> {
+    return this.multiply(-1);
+  }
+
+  /**
+   * Normalize to unit vector
+   *
+   * @returns {Vector3}
+   * @memberof Vector3
+   */
+  normalize(): Vector3<T> {
+    return this.divide(this.length);
+  }
+
+  /**
+   * alias of normalize
+   *
+   * @memberof Vector3
+   */
+  norm(): Vector3<T> {
+    return this.normalize();
+  }
+
+  /**
+   * Rotates this vector by a 3x3 rotation matrix, e.g. the one from `Quaternion#toMatrix`
+   *
+   * @param {RotationMatrix3} m
+   * @returns {Vector3}
+   * @memberof Vector3
+   */
+  transform(m: RotationMatrix3<T>): Vector3<T> {
+    const [self, matrix, system] = alignOperands(systemOf(this, m), this, m);
+    const { plus, multiply } = system;
+    const e = matrix.elements;
+    const { x, y, z } = self;
+    const row = (i: number) =>
+      plus(
+        plus(multiply(e[i * 3], x), multiply(e[i * 3 + 1], y)),
+        multiply(e[i * 3 + 2], z)
+      );
+    return this.derive(row(0), row(1), row(2), system);
+  }
+
+  /**
+   * # Products
+   */
+
+  /**
+   * Calculates the dot product of this vector and another
+   *
+   * @param {Vector3} vec2
+   * @returns {Number} - dot product
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).dot(new Vector3(4, 5, 6));
+   *     // => 32
+   */
+  dot(vec2: Vector3<T>): string {
+    const [a, b, { plus, multiply }] = this.operands(vec2);
+    return plus(
+      plus(multiply(a.x, b.x), multiply(a.y, b.y)),
+      multiply(a.z, b.z)
+    ).toString();
+  }
+
+  /**
+   * Calculates the cross product of this vector and another, the result is perpendicular
+   * to both and follows the right-hand rule, its length is the area of the parallelogram
+   * spanned by them
+   *
+   * @param {Vector3} vec2
+   * @returns {Vector3} - cross product
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 0, 0).cross(new Vector3(0, 1, 0)).toString();
+   *     // => x:0, y:0, z:1
+   */
+  cross(vec2: Vector3<T>): Vector3<T> {
+    const [a, b, system] = this.operands(vec2);
+    const { minus, multiply } = system;
+    return this.derive(
+      minus(multiply(a.y, b.z), multiply(a.z, b.y)),
+      minus(multiply(a.z, b.x), multiply(a.x, b.z)),
+      minus(multiply(a.x, b.y), multiply(a.y, b.x)),
+      system
+    );
+  }
+
+  /**
+   * Scalar triple product `this . (b x c)`, the signed volume of the parallelepiped
+   * spanned by the three vectors; 0 when they are coplanar
+   *
+   * @param {Vector3} b
+   * @param {Vector3} c
+   * @returns {Number}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 0, 0).tripleProduct(new Vector3(0, 1, 0), new Vector3(0, 0, 1));
+   *     // => 1
+   */
+  tripleProduct(b: Vector3<T>, c: Vector3<T>): string {
+    return this.dot(b.cross(c));
+  }
+
+  /**
+   * Projects this vector onto another vector
+   *
+   * @param {Vector3} vec2
+   * @returns {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).projectOnto(new Vector3(0, 0, 2)).toString();
+   *     // => x:0, y:0, z:3
+   */
+  projectOnto(vec2: Vector3<T>): Vector3<T> {
+    const [self, other, system] = this.operands(vec2);
+    const { multiply, divide } = system;
+
+    // 求解向量上的分解因子
+    const coeff = divide(self.dot(other), other.lengthSq);
+    return this.derive(
+      multiply(coeff, other.x),
+      multiply(coeff, other.y),
+      multiply(coeff, other.z),
+      system
+    );
+  }
+
+  /**
+   * Projects this vector onto the plane through the origin with the given normal,
+   * i.e. removes the component along the normal
+   *
+   * @param {Vector3} normal - Normal of the plane, need not be a unit vector
+   * @returns {Vector3}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).projectOntoPlane(new Vector3(0, 0, 1)).toString();
+   *     // => x:1, y:2, z:0
+   */
+  projectOntoPlane(normal: Vector3<T>): Vector3<T> {
+    return this.subtract(this.projectOnto(normal));
+  }
+
+  /**
+   * get cos angle between of two vectors
+   *
+   * @param {Vector3} vec2
+   * @returns {Number} - cos value of angle
+   * @memberof Vector3
+   */
+  cosAngleBetween(vec2: Vector3<T>): string {
+    const [a, b, { multiply, divide }] = this.operands(vec2);
+    return divide(a.dot(b), multiply(a.length, b.length)).toString();
+  }
+
+  /**
+   * get angle between of two vectors in radians, in [0, PI]
+   *
+   * @param {Vector3} vec2
+   * @returns {Number}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 0, 0).angleBetween(new Vector3(0, 0, 1));
+   *     // => PI / 2
+   */
+  angleBetween(vec2: Vector3<T>): string {
+    const { acos } = this.systemWith(vec2);
+    return acos(this.cosAngleBetween(vec2)).toString();
+  }
+
+  /**
+   * # Utility Methods
+   */
+
+  // 单个坐标轴上的距离
+  private distanceAxis(axis: Axis, vec: Vector3<T>): string {
+    const [a, b, { minus }] = this.operands(vec);
+    return minus(a[axis], b[axis]).toString();
+  }
+
+  // Calculates the distance of the X axis between this vector and another
+  distanceX(vec: Vector3<T>): string {
+    return this.distanceAxis('x', vec);
+  }
+
+  // Same as `distanceX()` but always returns an absolute number
+  absDistanceX(vec: Vector3<T>): string {
+    const { abs } = this.systemWith(vec);
+    return abs(this.distanceX(vec)).toString();
+  }
+
+  // Calculates the distance of the Y axis between this vector and another
+  distanceY(vec: Vector3<T>): string {
+    return this.distanceAxis('y', vec);
+  }
+
+  // Same as `distanceY()` but always returns an absolute number
+  absDistanceY(vec: Vector3<T>): string {
+    const { abs } = this.systemWith(vec);
+    return abs(this.distanceY(vec)).toString();
+  }
+
+  // Calculates the distance of the Z axis between this vector and another
+  distanceZ(vec: Vector3<T>): string {
+    return this.distanceAxis('z', vec);
+  }
+
+  // Same as `distanceZ()` but always returns an absolute number
+  absDistanceZ(vec: Vector3<T>): string {
+    const { abs } = this.systemWith(vec);
+    return abs(this.distanceZ(vec)).toString();
+  }
+
+  /**
+   * Calculates euclidean distance between this vector and another
+   *
+   * @param {Vector3} vec
+   * @return {Number}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).distance(new Vector3(3, 4, 4));
+   *     // => 3
+   */
+  distance(vec: Vector3<T>): string {
+    const { sqrt } = this.systemWith(vec);
+    return sqrt(this.distanceSq(vec)).toString();
+  }
+
+  // Calculates the squared euclidean distance between this vector and another
+  distanceSq(vec: Vector3<T>): string {
+    return this.subtract(vec).lengthSq;
+  }
+
+  /**
+   * Returns true if vector is (0, 0, 0), see `Vector#isZero`
+   *
+   * @param {Number} [tol] - Absolute tolerance
+   * @returns {Boolean}
+   * @memberof Vector3
+   */
+  isZero(tol?: Operand<T>): boolean | Uncertain {
+    if (tol !== undefined) {
+      return this.isEqualTo(this.derive(0, 0, 0), { absTol: tol });
+    }
+    const { equal } = this.operatorSystem;
+    return and3(equal(this.x, 0), equal(this.y, 0), equal(this.z, 0));
+  }
+
+  /**
+   * Returns true if this vector is the same as another, see `Vector#isEqualTo`
+   *
+   * @param {Vector3} vec2
+   * @param {ITolerance} [tolerance] - `{ absTol, relTol }`, both default to 0
+   * @return {Boolean}
+   * @memberof Vector3
+   */
+  isEqualTo(
+    vec2: Vector3<T>,
+    tolerance?: ITolerance<T>
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    const axes: Axis[] = ['x', 'y', 'z'];
+    if (tolerance) {
+      return and3(
+        ...axes.map(axis => isClose(system, a[axis], b[axis], tolerance))
+      );
+    }
+    const { equal } = system;
+    return and3(...axes.map(axis => equal(a[axis], b[axis])));
+  }
+
+  /**
+   * Returns true if the two vectors are parallel, i.e. `|a x b| <= tol * |a| * |b|`.
+   * The zero vector is parallel to any vector, `'overlap'` when an interval system
+   * can not decide
+   *
+   * @param {Vector3} vec2
+   * @param {Number} [tol=0] - Tolerance on the sine of the angle between them
+   * @returns {Boolean}
+   * @memberof Vector3
+   */
+  isParallelTo(vec2: Vector3<T>, tol: Operand<T> = 0): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    const { multiply } = system;
+    // 叉积是向量，用其长度的平方比较
+    const crossSq = a.cross(b).lengthSq;
+    const bound = multiply(
+      multiply(tol, tol),
+      multiply(a.lengthSq, b.lengthSq)
+    );
+    return atMost(system, crossSq, bound);
+  }
+
+  /**
+   * Returns true if the two vectors are perpendicular, i.e. `|a . b| <= tol * |a| * |b|`.
+   * The zero vector is perpendicular to any vector, `'overlap'` when an interval system
+   * can not decide
+   *
+   * @param {Vector3} vec2
+   * @param {Number} [tol=0] - Tolerance on the cosine of the angle between them
+   * @returns {Boolean}
+   * @memberof Vector3
+   */
+  isPerpendicularTo(
+    vec2: Vector3<T>,
+    tol: Operand<T> = 0
+  ): boolean | Uncertain {
+    const [a, b, system] = this.operands(vec2);
+    return withinAngle(system, a.dot(b), a.lengthSq, b.lengthSq, tol);
+  }
+
+  /**
+   * Compares the length of this vector with another one, without any square root
+   *
+   * @param {Vector3} vec2
+   * @returns {Number} - -1, 0 or 1; NaN when an interval system can not decide
+   * @memberof Vector3
+   */
+  compareLength(vec2: Vector3<T>): number {
+    const [a, b, { compare }] = this.operands(vec2);
+    return compare(a.lengthSq, b.lengthSq);
+  }
+
+  /**
+   * Returns an string representation of the vector
+   *
+   * @return {String}
+   * @memberof Vector3
+   * @example
+   *     new Vector3(1, 2, 3).toString();
+   *     // => x:1, y:2, z:3
+   */
+  toString(): string {
+    return 'x:' + this.x + ', y:' + this.y + ', z:' + this.z;
+  }
+
+  /**
+   * Returns an array representation of the vector
+   *
+   * @return {Array}
+   * @memberof Vector3
+   */
+  toArray(): Array<Operand<T>> {
+    return [this.x, this.y, this.z];
+  }
+
+  /**
+   * Returns an object representation of the vector
+   *
+   * @return {Object}
+   * @memberof Vector3
+   */
+  toObject(): { x: Operand<T>; y: Operand<T>; z: Operand<T> } {
+    return { x: this.x, y: this.y, z: this.z };
+  }
+}
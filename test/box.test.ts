@@ -0,0 +1,146 @@
+import Vector, { Box, VectorError } from '../src/vector';
+import { BaseOperatorSystem, UNCERTAIN } from '../src/operator-system';
+
+const v = (x, y) => new Vector(x, y);
+const box = (x1, y1, x2, y2) => new Box(v(x1, y1), v(x2, y2));
+
+/* ----------------------------------------------------
+    构造
+----------------------------------------------------- */
+describe('[Box] 构造 - Box、fromPoints', () => {
+  test('min 不能大于 max', () => {
+    expect(box(0, 0, 4, 2).toString()).toBe('Box(x:0, y:0 -> x:4, y:2)');
+    expect(box(1, 1, 1, 1).size().toString()).toBe('x:0, y:0');
+    expect(() => box(0, 3, 4, 2)).toThrow(VectorError);
+  });
+
+  test('fromPoints', () => {
+    const b = Box.fromPoints([v(1, 5), v(3, 2), v(-1, 4)]);
+    expect(b.toString()).toBe('Box(x:-1, y:2 -> x:3, y:5)');
+    expect(Box.fromPoints([v(1, 2)]).toString()).toBe(
+      'Box(x:1, y:2 -> x:1, y:2)'
+    );
+    expect(() => Box.fromPoints([])).toThrow(
+      'Can not create a box from no points'
+    );
+  });
+
+  test('保持算术体系', () => {
+    const b = Box.fromPoints([
+      new Vector(1, 2, 'base'),
+      new Vector(3, 0, 'base')
+    ]);
+    expect(b.operatorSystem).toBe(BaseOperatorSystem);
+    expect(b.min.operatorSystem).toBe(BaseOperatorSystem);
+    expect(b.center().operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('不同体系的角点先转换到同一体系', () => {
+    // 区间按中点转换成分数
+    const b = Box.fromPoints([
+      new Vector('1/3', '1/2', 'rational'),
+      new Vector('[0.5, 1.5]', '[-1, 1]', 'interval')
+    ]);
+    expect(b.toString()).toBe('Box(x:1/3, y:0 -> x:1, y:1/2)');
+    expect(b.contains(new Vector('[0, 1]', '[0, 0.5]', 'interval'))).toBe(true);
+    expect(b.contains(new Vector('[0, 3]', 0, 'interval'))).toBe(false);
+    const c = new Box(
+      new Vector('[1, 3]', 0, 'interval'),
+      new Vector(3, 1, 'interval')
+    );
+    expect(b.intersects(c)).toBe(false);
+    expect(b.union(c).toString()).toBe('Box(x:1/3, y:0 -> x:3, y:1)');
+  });
+});
+
+/* ----------------------------------------------------
+    度量
+----------------------------------------------------- */
+describe('[Box] 度量 - center、size、expand', () => {
+  const b = box(0, 0, 4, 2);
+
+  test('center、size', () => {
+    expect(b.center().toString()).toBe('x:2, y:1');
+    expect(b.size().toString()).toBe('x:4, y:2');
+    expect(box('0.1', '0.2', '0.4', '0.3').center().toString()).toBe(
+      'x:0.25, y:0.25'
+    );
+  });
+
+  test('expand', () => {
+    expect(b.expand(1).toString()).toBe('Box(x:-1, y:-1 -> x:5, y:3)');
+    expect(b.expand(v(0, 1)).toString()).toBe('Box(x:0, y:-1 -> x:4, y:3)');
+    expect(b.expand(-1).toString()).toBe('Box(x:1, y:1 -> x:3, y:1)');
+    expect(() => b.expand(-2)).toThrow(VectorError);
+  });
+});
+
+/* ----------------------------------------------------
+    集合运算
+----------------------------------------------------- */
+describe('[Box] 集合运算 - union、intersection、intersects、contains', () => {
+  const a = box(0, 0, 4, 2);
+
+  test('union', () => {
+    expect(a.union(box(3, 1, 5, 5)).toString()).toBe(
+      'Box(x:0, y:0 -> x:5, y:5)'
+    );
+    expect(a.union(box(1, 1, 2, 2)).toString()).toBe(a.toString());
+  });
+
+  test('intersection、intersects', () => {
+    const b = box(3, 1, 5, 5);
+    expect(a.intersects(b)).toBe(true);
+    expect(a.intersection(b)!.toString()).toBe('Box(x:3, y:1 -> x:4, y:2)');
+    // 只有边界相接
+    const c = box(4, 2, 6, 6);
+    expect(a.intersects(c)).toBe(true);
+    expect(a.intersection(c)!.toString()).toBe('Box(x:4, y:2 -> x:4, y:2)');
+    const d = box(5, 0, 6, 2);
+    expect(a.intersects(d)).toBe(false);
+    expect(a.intersection(d)).toBeNull();
+    expect(a.intersects(box(0, 3, 4, 4))).toBe(false);
+  });
+
+  test('contains 包含边界', () => {
+    expect(a.contains(v(1, 1))).toBe(true);
+    expect(a.contains(v(4, 2))).toBe(true);
+    expect(a.contains(v(4, '2.0000000000000000001'))).toBe(false);
+    expect(a.contains(v(-1, 1))).toBe(false);
+    expect(a.contains(box(1, 0, 4, 1))).toBe(true);
+    expect(a.contains(box(1, 1, 5, 1))).toBe(false);
+  });
+
+  test('区间无法判断时返回 UNCERTAIN', () => {
+    const iv = (x, y) => new Vector(x, y, 'interval');
+    const b = new Box(iv(0, 0), iv(4, 2));
+    expect(b.contains(iv(1, 1))).toBe(true);
+    expect(b.contains(iv('[3.9, 4.1]', 1))).toBe(UNCERTAIN);
+    expect(b.contains(iv('[4.5, 5]', '[1.9, 2.1]'))).toBe(false);
+    expect(b.contains(new Box(iv(1, 1), iv('[3.9, 4.1]', 1)))).toBe(UNCERTAIN);
+    const touching = new Box(iv('[3.9, 4.1]', 0), iv(6, 2));
+    expect(b.intersects(touching)).toBe(UNCERTAIN);
+    expect(b.intersection(touching)).not.toBeNull();
+    expect(b.intersects(new Box(iv(5, 0), iv(6, 2)))).toBe(false);
+  });
+});
+
+/* ----------------------------------------------------
+    点与盒子
+----------------------------------------------------- */
+describe('[Box] 点与盒子 - clamp、distanceTo', () => {
+  const a = box(0, 0, 4, 2);
+
+  test('clamp', () => {
+    expect(a.clamp(v(5, 1)).toString()).toBe('x:4, y:1');
+    expect(a.clamp(v(-3, -3)).toString()).toBe('x:0, y:0');
+    expect(a.clamp(v(1, 1)).toString()).toBe('x:1, y:1');
+  });
+
+  test('distanceTo', () => {
+    expect(a.distanceTo(v(1, 1))).toBe('0');
+    expect(a.distanceTo(v(1, 5))).toBe('3');
+    expect(a.distanceTo(v(7, 6))).toBe('5');
+    expect(a.distanceTo(v(-0.3, 2.4))).toBe('0.5');
+  });
+});
@@ -0,0 +1,143 @@
+import Vector from '../src/vector';
+import {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  RationalOperatorSystem,
+  IntervalOperatorSystem,
+  Interval
+} from '../src/operator-system';
+
+const systems = [
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  RationalOperatorSystem,
+  IntervalOperatorSystem
+];
+
+/* ----------------------------------------------------
+    算术体系的大小比较
+----------------------------------------------------- */
+systems.forEach(system => {
+  describe(`[${system.name}] 比较 - compare, lt, gt, sign, min, max`, () => {
+    const { compare, lt, gt, sign, min, max, equal } = system as any;
+
+    test('compare 返回 -1、0、1', () => {
+      expect(compare(1, 2)).toBe(-1);
+      expect(compare(2, 1)).toBe(1);
+      expect(compare(2, 2)).toBe(0);
+      expect(compare(-3, 2)).toBe(-1);
+    });
+
+    test('lt、gt', () => {
+      expect(lt(1, 2)).toBe(true);
+      expect(lt(2, 2)).toBe(false);
+      expect(gt(3, 2)).toBe(true);
+      expect(gt(2, 3)).toBe(false);
+    });
+
+    test('sign', () => {
+      expect(sign(-5)).toBe(-1);
+      expect(sign(0)).toBe(0);
+      expect(sign(7)).toBe(1);
+    });
+
+    test('min、max', () => {
+      expect(equal(min(1, 2), 1)).toBe(true);
+      expect(equal(min(-1, -2), -2)).toBe(true);
+      expect(equal(max(1, 2), 2)).toBe(true);
+      expect(equal(max(-1, -2), -1)).toBe(true);
+    });
+  });
+});
+
+describe('[IntervalOperatorSystem] 比较 - 重叠的区间无法判断大小', () => {
+  const { compare, lt, gt, sign, min } = IntervalOperatorSystem;
+  const a = new Interval(0, 2);
+  const b = new Interval(1, 3);
+
+  test('compare、sign 返回 NaN', () => {
+    expect(compare(a, b)).toBeNaN();
+    expect(sign(new Interval(-1, 1))).toBeNaN();
+  });
+  test('lt、gt 只在确定时返回 true', () => {
+    expect(lt(a, b)).toBe(false);
+    expect(gt(a, b)).toBe(false);
+  });
+  test('min 按端点分别取值', () => {
+    expect(min(a, b).toString()).toBe('[0, 2]');
+  });
+});
+
+/* ----------------------------------------------------
+    容差比较
+----------------------------------------------------- */
+describe('[Base Operator] 容差比较 - isEqualTo(v, { absTol, relTol })', () => {
+  const BaseVector = Vector.withSystem<number>('base');
+
+  test('旋转后的浮点结果在容差内相等', () => {
+    const a = BaseVector.create(1, 0).rotateDegree(360);
+    const b = BaseVector.create(1, 0);
+    expect(a.isEqualTo(b)).toBe(false);
+    expect(a.isEqualTo(b, { absTol: 1e-12 })).toBe(true);
+  });
+
+  test('相对容差按数值大小缩放', () => {
+    const a = BaseVector.create(1e9, 1e9);
+    const b = BaseVector.create(1e9 + 1, 1e9);
+    expect(a.isEqualTo(b, { absTol: 1e-6 })).toBe(false);
+    expect(a.isEqualTo(b, { relTol: 1e-8 })).toBe(true);
+  });
+
+  test('isZero(tol)', () => {
+    const a = BaseVector.create(1, 1).subtract(
+      BaseVector.create(1, 1).rotateDegree(360)
+    );
+    expect(a.isZero(1e-12)).toBe(true);
+    expect(BaseVector.create(0.1, 0).isZero(1e-12)).toBe(false);
+  });
+});
+
+describe('[Big Operator] 容差比较 - 大数体系', () => {
+  test('isEqualTo 和 isZero 支持容差', () => {
+    const a = new Vector(1, 1).normalize().multiply(new Vector(1, 1).length);
+    expect(a.isEqualTo(new Vector(1, 1))).toBe(false);
+    expect(a.isEqualTo(new Vector(1, 1), { absTol: '1e-18' })).toBe(true);
+    expect(new Vector('1e-30', 0).isZero('1e-20')).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    平行、垂直、长度比较
+----------------------------------------------------- */
+describe('[Big Operator] 方向判断 - isParallelTo, isPerpendicularTo', () => {
+  test('精确判断', () => {
+    expect(new Vector(1, 2).isParallelTo(new Vector(-2, -4))).toBe(true);
+    expect(new Vector(1, 2).isParallelTo(new Vector(2, 3))).toBe(false);
+    expect(new Vector(1, 2).isPerpendicularTo(new Vector(-2, 1))).toBe(true);
+    expect(new Vector(1, 2).isPerpendicularTo(new Vector(1, 1))).toBe(false);
+  });
+
+  test('零向量与任意向量平行且垂直', () => {
+    expect(new Vector(0, 0).isParallelTo(new Vector(3, 1))).toBe(true);
+    expect(new Vector(0, 0).isPerpendicularTo(new Vector(3, 1))).toBe(true);
+  });
+
+  test('旋转后的向量在容差内判断', () => {
+    const BaseVector = Vector.withSystem<number>('base');
+    const a = BaseVector.create(3, 4);
+    const b = a.rotateDegree(90);
+    const c = a.rotateDegree(180);
+    expect(a.isPerpendicularTo(b)).toBe(false);
+    expect(a.isPerpendicularTo(b, 1e-12)).toBe(true);
+    expect(a.isParallelTo(c, 1e-12)).toBe(true);
+    expect(a.isParallelTo(b, 1e-12)).toBe(false);
+  });
+});
+
+describe('[Big Operator] 长度比较 - compareLength', () => {
+  test('返回 -1、0、1', () => {
+    expect(new Vector(3, 4).compareLength(new Vector(0, 6))).toBe(-1);
+    expect(new Vector(3, 4).compareLength(new Vector(5, 0))).toBe(0);
+    expect(new Vector(3, 4).compareLength(new Vector(1, 1))).toBe(1);
+  });
+});
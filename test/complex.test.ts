@@ -0,0 +1,200 @@
+import Vector, {
+  IrrationalResultError,
+  UnsupportedOperationError,
+  VectorError
+} from '../src/vector';
+import {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  FixedPointOperatorSystem,
+  RationalOperatorSystem,
+  IntervalOperatorSystem,
+  createRationalOperatorSystem
+} from '../src/operator-system';
+
+const PI = '3.14159265358979323846';
+
+/* ----------------------------------------------------
+    算术体系的 exp、ln
+----------------------------------------------------- */
+describe('[Operator] 指数与对数 - exp、ln', () => {
+  test('BigOperatorSystem 保留 20 位小数', () => {
+    const { exp, ln } = BigOperatorSystem;
+    expect(exp(1).toString()).toBe('2.71828182845904523536');
+    expect(exp(-3.25).toString()).toBe('0.03877420783172200989');
+    expect(ln(2).toString()).toBe('0.69314718055994530942');
+    expect(ln('1e-20').toString()).toBe('-46.05170185988091368036');
+    expect(() => ln(0)).toThrow(/ln argument must be positive/);
+  });
+
+  test('BigOperatorSystem 的 exp 结果整数部分同样精确', () => {
+    const { exp } = BigOperatorSystem;
+    expect(exp(50).toString()).toBe(
+      '5.18470552858707246408745332293348538482747e+21'
+    );
+  });
+
+  test('RationalOperatorSystem 只在结果为有理数时精确计算', () => {
+    const { exp, ln } = RationalOperatorSystem;
+    expect(exp(0).toString()).toBe('1');
+    expect(ln(1).toString()).toBe('0');
+    expect(() => exp(1)).toThrow(IrrationalResultError);
+    const approx = createRationalOperatorSystem({ decimalPlaces: 10 });
+    expect(approx.ln(2).toString()).toBe('3465735903/5000000000');
+  });
+
+  test('FixedPointOperatorSystem 的结果与浮点值一致', () => {
+    const { exp, ln } = FixedPointOperatorSystem;
+    expect(Number(exp(1).toString())).toBeCloseTo(Math.E, 9);
+    expect(Number(ln(10).toString())).toBeCloseTo(Math.LN10, 9);
+    expect(Number(ln(0.125).toString())).toBeCloseTo(Math.log(0.125), 9);
+    expect(exp(-40).toString()).toBe('0');
+  });
+
+  test('IntervalOperatorSystem 的结果包含真实值', () => {
+    const { exp, ln } = IntervalOperatorSystem;
+    expect(exp(1).contains(Math.E)).toBe(true);
+    expect(ln(2).contains(Math.LN2)).toBe(true);
+    expect(() => ln(-1)).toThrow(/ln argument must be positive/);
+  });
+});
+
+/* ----------------------------------------------------
+    复数运算
+----------------------------------------------------- */
+describe('[Vector] 复数 - complexMultiply、complexDivide、conjugate', () => {
+  const a = new Vector(1, 2);
+  const b = new Vector(3, 4);
+
+  test('complexMultiply 结果精确', () => {
+    expect(a.complexMultiply(b).toString()).toBe('x:-5, y:10');
+    expect(new Vector(0, 1).complexMultiply(new Vector(0, 1)).toString()).toBe(
+      'x:-1, y:0'
+    );
+    expect(a.complexMultiply(3).toString()).toBe('x:3, y:6');
+  });
+
+  test('complexMultiply 等价于缩放与旋转', () => {
+    const phasor = new Vector(0, 2);
+    const v = new Vector(3, 1);
+    const expected = v.rotateDegree(90).multiply(2);
+    expect(v.complexMultiply(phasor).isEqualTo(expected, { absTol: 1e-18 })).toBe(
+      true
+    );
+  });
+
+  test('complexDivide 是 complexMultiply 的逆运算', () => {
+    expect(new Vector(-5, 10).complexDivide(b).toString()).toBe('x:1, y:2');
+    expect(a.complexDivide(b).toString()).toBe('x:0.44, y:0.08');
+    expect(a.complexDivide(2).toString()).toBe('x:0.5, y:1');
+  });
+
+  test('conjugate', () => {
+    expect(a.conjugate().toString()).toBe('x:1, y:-2');
+    expect(a.complexMultiply(a.conjugate()).toString()).toBe('x:5, y:0');
+  });
+
+  test('RationalOperatorSystem 下除法为分数', () => {
+    const r = new Vector(1, 0).config({ system: 'rational' });
+    expect(r.complexDivide(new Vector(1, 1)).toString()).toBe(
+      'x:1/2, y:-1/2'
+    );
+  });
+});
+
+describe('[Vector] 复数 - pow、nthRoots', () => {
+  test('整数次幂使用乘法，结果精确', () => {
+    expect(new Vector(1, 1).pow(2).toString()).toBe('x:0, y:2');
+    expect(new Vector(1, 1).pow(8).toString()).toBe('x:16, y:0');
+    expect(new Vector(1, 2).pow(-1).toString()).toBe('x:0.2, y:-0.4');
+    expect(new Vector(3, 4).pow(0).toString()).toBe('x:1, y:0');
+    const r = new Vector(1, 2).config({ system: 'rational' });
+    expect(r.pow(-2).toString()).toBe('x:-3/25, y:-4/25');
+  });
+
+  test('非整数次幂取主值', () => {
+    const root = new Vector(0, 2).pow(0.5);
+    expect(root.isEqualTo(new Vector(1, 1), { absTol: 1e-18 })).toBe(true);
+    expect(new Vector(0, 0).pow(0.5).toString()).toBe('x:0, y:0');
+  });
+
+  test('nthRoots 从主值开始逆时针排列', () => {
+    const roots = new Vector(-4, 0).nthRoots(2);
+    expect(roots.length).toBe(2);
+    expect(roots[0].isEqualTo(new Vector(0, 2), { absTol: 1e-18 })).toBe(true);
+    expect(roots[1].isEqualTo(new Vector(0, -2), { absTol: 1e-18 })).toBe(true);
+
+    const cube = new Vector(8, 0).nthRoots(3);
+    expect(cube[0].isEqualTo(new Vector(2, 0), { absTol: 1e-18 })).toBe(true);
+    cube.forEach(z => {
+      expect(z.pow(3).isEqualTo(new Vector(8, 0), { absTol: 1e-17 })).toBe(
+        true
+      );
+    });
+  });
+
+  test('nthRoots 的参数必须是正整数', () => {
+    expect(() => new Vector(1, 0).nthRoots(0)).toThrow(VectorError);
+    expect(() => new Vector(1, 0).nthRoots(1.5)).toThrow(VectorError);
+    expect(new Vector(0, 0).nthRoots(3).map(String)).toEqual([
+      'x:0, y:0',
+      'x:0, y:0',
+      'x:0, y:0'
+    ]);
+  });
+
+  test('2 的幂次方根只开方，分数体系中结果精确', () => {
+    const rational = (x, y) => new Vector(x, y).config({ system: 'rational' });
+    expect(rational(0, 0).nthRoots(2).map(String)).toEqual([
+      'x:0, y:0',
+      'x:0, y:0'
+    ]);
+    expect(rational(1, 0).nthRoots(2).map(String)).toEqual([
+      'x:1, y:0',
+      'x:-1, y:0'
+    ]);
+    expect(rational(-4, 0).nthRoots(2).map(String)).toEqual([
+      'x:0, y:2',
+      'x:0, y:-2'
+    ]);
+    expect(rational(16, 0).nthRoots(4).map(String)).toEqual([
+      'x:2, y:0',
+      'x:0, y:2',
+      'x:-2, y:0',
+      'x:0, y:-2'
+    ]);
+    expect(rational(3, 4).nthRoots(2).map(String)).toEqual([
+      'x:2, y:1',
+      'x:-2, y:-1'
+    ]);
+  });
+});
+
+describe('[Vector] 复数 - exp、log', () => {
+  test('欧拉公式 e^(iπ) = -1', () => {
+    const z = new Vector(0, PI).exp();
+    expect(z.isEqualTo(new Vector(-1, 0), { absTol: 1e-18 })).toBe(true);
+    expect(new Vector(0, 0).exp().toString()).toBe('x:1, y:0');
+  });
+
+  test('log 取主值', () => {
+    expect(new Vector(-1, 0).log().toString()).toBe(`x:0, y:${PI}`);
+    const z = new Vector(3, 4).log();
+    expect(Number(z.x)).toBeCloseTo(Math.log(5), 15);
+    expect(z.exp().isEqualTo(new Vector(3, 4), { absTol: 1e-18 })).toBe(true);
+  });
+
+  test('算术体系没有实现 exp、ln 时抛出 UnsupportedOperationError', () => {
+    const system = Object.assign({}, BaseOperatorSystem, {
+      name: 'NoExpOperatorSystem',
+      exp: undefined,
+      ln: undefined
+    });
+    const v = new Vector(1, 1).config({ system });
+    expect(() => v.exp()).toThrow(UnsupportedOperationError);
+    expect(() => v.log()).toThrow('NoExpOperatorSystem does not support ln');
+    // 整数次幂与 2 的幂次方根不需要 exp、ln
+    expect(v.pow(2).toString()).toBe('x:0, y:2');
+    expect(v.nthRoots(2).length).toBe(2);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  RationalOperatorSystem,
+  IntervalOperatorSystem,
+  FixedPointOperatorSystem,
+  createBigOperatorSystem,
+  createRationalOperatorSystem,
+  createFixedPointOperatorSystem
+} from '../src/operator-system';
+import { runOperatorSystemConformance } from '../src/conformance';
+
+/* ----------------------------------------------------
+    内置算术体系均通过一致性检查
+----------------------------------------------------- */
+runOperatorSystemConformance(BaseOperatorSystem);
+runOperatorSystemConformance(BigOperatorSystem);
+runOperatorSystemConformance(createBigOperatorSystem({ decimalPlaces: 40 }), {
+  tolerance: 1e-30
+});
+runOperatorSystemConformance(IntervalOperatorSystem);
+runOperatorSystemConformance(RationalOperatorSystem, { irrational: false });
+runOperatorSystemConformance(
+  createRationalOperatorSystem({ decimalPlaces: 20 })
+);
+runOperatorSystemConformance(FixedPointOperatorSystem);
+runOperatorSystemConformance(
+  createFixedPointOperatorSystem({ fractionalBits: 48 })
+);
+
+/* ----------------------------------------------------
+    不符合要求的实现会被检查出来
+----------------------------------------------------- */
+describe('[Conformance] 检查结果 - 不符合的实现', () => {
+  test('错误的实现会抛出带有体系名称的异常', () => {
+    const broken = Object.assign({}, BaseOperatorSystem, {
+      name: 'BrokenOperatorSystem',
+      plus: (x, y) => Number(x) + Number(y) + 1e-3
+    });
+    const failures: string[] = [];
+    runOperatorSystemConformance(broken, {
+      describe: (name, fn) => fn(),
+      it: (name, fn) => {
+        try {
+          fn();
+        } catch (e) {
+          failures.push(e.message);
+        }
+      }
+    });
+    expect(failures.length).toBeGreaterThan(0);
+    expect(failures[0]).toMatch(/^\[BrokenOperatorSystem\] plus/);
+  });
+});
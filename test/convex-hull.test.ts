@@ -0,0 +1,83 @@
+import Vector, { Polygon, convexHull } from '../src/vector';
+
+const v = (x, y) => new Vector(x, y);
+const points = (...coords: Array<[any, any]>) =>
+  coords.map(([x, y]) => v(x, y));
+const show = (hull: Array<Vector<any>>) => hull.join('; ');
+
+/* ----------------------------------------------------
+    凸包
+----------------------------------------------------- */
+describe('[Polygon] 凸包 - convexHull', () => {
+  const square = points([0, 0], [2, 0], [2, 2], [0, 2]);
+  // 内部的点与边上的点
+  const cloud = square.concat(points([1, 1], [1, 0], [2, 1], [0.5, 1.5]));
+
+  test('逆时针顺序，从最左下的点开始', () => {
+    expect(show(convexHull(cloud))).toBe(
+      'x:0, y:0; x:2, y:0; x:2, y:2; x:0, y:2'
+    );
+    expect(show(convexHull(cloud.slice().reverse()))).toBe(
+      'x:0, y:0; x:2, y:0; x:2, y:2; x:0, y:2'
+    );
+    const hull = convexHull(points([3, 1], [0, 0], [1, 3], [-1, 2], [1, 1]));
+    expect(show(hull)).toBe('x:-1, y:2; x:0, y:0; x:3, y:1; x:1, y:3');
+  });
+
+  test('返回传入的向量实例', () => {
+    const hull = convexHull(square);
+    expect(hull).toHaveLength(4);
+    hull.forEach(vec => expect(square).toContain(vec));
+  });
+
+  test('keepCollinear 保留边上的点', () => {
+    const hull = convexHull(cloud, { keepCollinear: true });
+    expect(show(hull)).toBe(
+      'x:0, y:0; x:1, y:0; x:2, y:0; x:2, y:1; x:2, y:2; x:0, y:2'
+    );
+    // 左右两条竖直边上的点
+    const box = points([0, 0], [0, 1], [0, 2], [1, 0], [1, 1], [1, 2]);
+    expect(show(convexHull(box, { keepCollinear: true }))).toBe(
+      'x:0, y:0; x:1, y:0; x:1, y:1; x:1, y:2; x:0, y:2; x:0, y:1'
+    );
+    expect(show(convexHull(box))).toBe('x:0, y:0; x:1, y:0; x:1, y:2; x:0, y:2');
+  });
+
+  test('重复的点只保留一次', () => {
+    const hull = convexHull(square.concat(points([2, 2], ['2.0', '0'])));
+    expect(hull).toHaveLength(4);
+  });
+
+  test('少于 3 个点或所有点共线', () => {
+    expect(convexHull([])).toEqual([]);
+    expect(show(convexHull(points([1, 1], ['1.0', 1])))).toBe('x:1, y:1');
+    const line = points([2, 2], [0, 0], [1, 1], [3, 3]);
+    expect(show(convexHull(line))).toBe('x:0, y:0; x:3, y:3');
+    expect(show(convexHull(line, { keepCollinear: true }))).toBe(
+      'x:0, y:0; x:1, y:1; x:2, y:2; x:3, y:3'
+    );
+  });
+
+  test('BigOperatorSystem 下判断几乎共线的点', () => {
+    // 中间的点偏离边 (0, 0) - (1, 1) 1e-30，浮点数无法区分
+    const near = points(
+      [0, 0],
+      [1, 1],
+      ['0.5', '0.500000000000000000000000000001'],
+      [1, 0]
+    );
+    expect(convexHull(near)).toHaveLength(4);
+    const float = near.map(vec => vec.convertTo('base'));
+    expect(convexHull(float)).toHaveLength(3);
+    // 小数输入的共线判断精确
+    const exact = points([0, 0], ['0.3', '0.6'], ['0.1', '0.2'], [1, 0]);
+    expect(show(convexHull(exact))).toBe('x:0, y:0; x:1, y:0; x:0.3, y:0.6');
+  });
+
+  test('Polygon.convexHull', () => {
+    const hull = Polygon.convexHull(cloud);
+    expect(hull.isConvex()).toBe(true);
+    expect(hull.isClockwise()).toBe(false);
+    expect(hull.signedArea()).toBe('4');
+  });
+});
@@ -0,0 +1,114 @@
+import Vector, { Matrix2 } from '../src/vector';
+
+// u × diag(s1, s2) × vᵀ
+function reconstruct(m: Matrix2<any>) {
+  const { u, values, v } = m.svd();
+  return u
+    .multiply(Matrix2.scaling(values[0], values[1], m.operatorSystem))
+    .multiply(v.transpose());
+}
+
+/* ----------------------------------------------------
+    特征分解
+----------------------------------------------------- */
+describe('[Matrix] 分解 - eigen()', () => {
+  test('对称矩阵：特征值从大到小，特征向量正交且为单位向量', () => {
+    const m = new Matrix2([2, 1, 1, 2]);
+    const { values, vectors } = m.eigen();
+    expect(values).toEqual(['3', '1']);
+    expect(vectors[0].toString()).toBe(
+      'x:0.7071067811865475244, y:0.7071067811865475244'
+    );
+    expect(vectors[1].isPerpendicularTo(vectors[0])).toBe(true);
+    expect(Number(vectors[1].length)).toBeCloseTo(1, 18);
+  });
+
+  test('M v = λ v', () => {
+    const m = new Matrix2([4, 1, 2, 3]);
+    const { values, vectors } = m.eigen();
+    expect(values).toEqual(['5', '2']);
+    vectors.forEach((v, i) => {
+      expect(
+        v.transform(m).isEqualTo(v.multiply(values[i]), { absTol: 1e-18 })
+      ).toBe(true);
+    });
+  });
+
+  test('无理数特征值由算术体系的 sqrt 计算', () => {
+    const { values } = new Matrix2([1, 1, 1, 0]).eigen();
+    expect(values[0]).toBe('1.6180339887498948482');
+    expect(values[1]).toBe('-0.6180339887498948482');
+  });
+
+  test('对角矩阵按特征值大小对应坐标轴', () => {
+    const { values, vectors } = new Matrix2([1, 0, 0, 5]).eigen();
+    expect(values).toEqual(['5', '1']);
+    expect(vectors.map(String)).toEqual(['x:0, y:1', 'x:1, y:0']);
+  });
+
+  test('退化情况：λI、剪切、复数特征值、奇异矩阵', () => {
+    const scalar = new Matrix2([2, 0, 0, 2]).eigen();
+    expect(scalar.values).toEqual(['2', '2']);
+    expect(scalar.vectors.map(String)).toEqual(['x:1, y:0', 'x:0, y:1']);
+
+    const shear = Matrix2.shear(1).eigen();
+    expect(shear.values).toEqual(['1', '1']);
+    expect(shear.vectors.map(String)).toEqual(['x:1, y:0', 'x:1, y:0']);
+
+    expect(Matrix2.rotationDegree(90).eigen()).toBe(null);
+
+    const singular = new Matrix2([1, 2, 2, 4]).eigen();
+    expect(singular.values).toEqual(['5', '0']);
+  });
+
+  test('主轴：协方差矩阵的第一个特征向量', () => {
+    const axis = new Matrix2([3, 2, 2, 3]).eigen().vectors[0];
+    expect(axis.isParallelTo(new Vector(1, 1))).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    奇异值分解
+----------------------------------------------------- */
+describe('[Matrix] 分解 - svd()', () => {
+  test('分解为旋转、缩放、旋转', () => {
+    const m = Matrix2.rotationDegree(30).compose(Matrix2.scaling(2, 3));
+    const { u, values, v } = m.svd();
+    expect(Number(values[0])).toBeCloseTo(3, 18);
+    expect(Number(values[1])).toBeCloseTo(2, 18);
+    expect(Number(u.determinant())).toBeCloseTo(1, 18);
+    expect(Number(v.determinant())).toBeCloseTo(1, 18);
+    expect(reconstruct(m).isEqualTo(m, { absTol: 1e-18 })).toBe(true);
+  });
+
+  test('一般矩阵可以还原', () => {
+    [[2, -1, 3, 0.5], [1, 2, 3, 4], [0, 1, -1, 0], [5, 0, 0, 5]].forEach(e => {
+      const m = new Matrix2(e);
+      expect(reconstruct(m).isEqualTo(m, { absTol: 1e-18 })).toBe(true);
+    });
+  });
+
+  test('退化情况：反射、奇异矩阵、零矩阵', () => {
+    const reflection = Matrix2.reflection(new Vector(1, 2));
+    const r = reflection.svd();
+    expect(Number(r.values[0])).toBeCloseTo(1, 18);
+    expect(Number(r.values[1])).toBeCloseTo(-1, 18);
+    expect(reconstruct(reflection).isEqualTo(reflection, { absTol: 1e-18 })).toBe(
+      true
+    );
+
+    const singular = new Matrix2([1, 2, 2, 4]);
+    expect(Number(singular.svd().values[0])).toBeCloseTo(5, 18);
+    expect(Number(singular.svd().values[1])).toBeCloseTo(0, 18);
+
+    const zero = new Matrix2([0, 0, 0, 0]).svd();
+    expect(zero.values).toEqual(['0', '0']);
+    expect(zero.u.isIdentity()).toBe(true);
+    expect(zero.v.isIdentity()).toBe(true);
+  });
+
+  test('BaseOperatorSystem 同样可用', () => {
+    const m = new Matrix2([1, 2, 3, 4]).config({ system: 'base' });
+    expect(reconstruct(m).isEqualTo(m, { absTol: 1e-12 })).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import Vector from '../src/vector';
+import {
+  FixedPoint,
+  FixedPointOperatorSystem,
+  createFixedPointOperatorSystem,
+  getSystem,
+  BaseOperatorSystem
+} from '../src/operator-system';
+import { InvalidOperandError } from '../src/errors';
+import { runOperatorSystemConformance } from '../src/conformance';
+
+const FixedVector = Vector.withSystem<FixedPoint>('fixed');
+
+/* ----------------------------------------------------
+    创建定点数
+----------------------------------------------------- */
+describe('[Fixed Operator] 构造 - create()', () => {
+  const { create } = FixedPointOperatorSystem;
+
+  test('默认 32 位小数，raw 为 BigInt', () => {
+    const a = create(1.5);
+    expect(a).toBeInstanceOf(FixedPoint);
+    expect(a.bits).toBe(32);
+    expect(typeof a.raw).toBe('bigint');
+    expect(a.raw.toString()).toBe('6442450944');
+  });
+
+  test('支持数值、小数字符串、分数字符串，舍入到最近的刻度', () => {
+    expect(create(3).toString()).toBe('3');
+    expect(create('-3.25').toString()).toBe('-3.25');
+    expect(create('1/4').toString()).toBe('0.25');
+    expect(create('1e-3').raw.toString()).toBe('4294967');
+  });
+
+  test('toString 为精确的十进制形式，并能还原', () => {
+    const a = create(0.1);
+    expect(a.toString()).toBe('0.1000000000931322574615478515625');
+    expect(create(a.toString()).raw).toBe(a.raw);
+  });
+
+  test('无法解析时抛出 InvalidOperandError', () => {
+    expect(() => create('abc')).toThrow(InvalidOperandError);
+    expect(() => create(NaN)).toThrow(InvalidOperandError);
+  });
+
+  test('小数位数可以配置', () => {
+    const system = createFixedPointOperatorSystem({ fractionalBits: 16 });
+    expect(system.divide(1, 3).toString()).toBe('0.3333282470703125');
+    expect(system.create(FixedPointOperatorSystem.create(0.5)).bits).toBe(16);
+    expect(() => createFixedPointOperatorSystem({ fractionalBits: 0 })).toThrow();
+  });
+});
+
+/* ----------------------------------------------------
+    确定性运算
+----------------------------------------------------- */
+describe('[Fixed Operator] 运算 - 结果确定', () => {
+  const system = createFixedPointOperatorSystem({ fractionalBits: 16 });
+  const { multiply, divide, sqrt, sin, cos, atan2, pi } = system;
+
+  test('乘除四舍五入到最近的刻度', () => {
+    expect(multiply('0.5', '-3.25').toString()).toBe('-1.625');
+    expect(divide(2, 3).raw.toString()).toBe('43691');
+    expect(divide(-2, 3).raw.toString()).toBe('-43691');
+    expect(() => divide(1, 0)).toThrow();
+  });
+
+  test('sqrt 为整数平方根，完全平方数精确', () => {
+    expect(sqrt(16).toString()).toBe('4');
+    expect(sqrt('2.25').toString()).toBe('1.5');
+    expect(sqrt(2).raw.toString()).toBe('92682');
+    expect(() => sqrt(-1)).toThrow();
+  });
+
+  test('三角函数与 pi 的结果固定', () => {
+    expect(pi.raw.toString()).toBe('205887');
+    expect(sin(0).raw.toString()).toBe('0');
+    expect(cos(0).toString()).toBe('1');
+    expect(sin(1).raw.toString()).toBe('55147');
+    expect(cos(1).raw.toString()).toBe('35409');
+    expect(atan2(1, 1).raw.toString()).toBe('51472');
+  });
+
+  test('重复计算得到完全相同的值', () => {
+    const angles = [0.3, 2, -5.5, 100];
+    const first = angles.map(a => sin(a).raw);
+    const second = angles.map(a => sin(a).raw);
+    expect(second).toEqual(first);
+  });
+});
+
+/* ----------------------------------------------------
+    接入 Vector
+----------------------------------------------------- */
+describe('[Fixed Operator] 向量 - 接入 Vector', () => {
+  test('可以通过名称 fixed 取得', () => {
+    expect(getSystem('fixed')).toBe(FixedPointOperatorSystem);
+    expect(FixedVector.create(3, 4).length).toBe('5');
+  });
+
+  test('可以作为 Vector.SYSTEM 使用', () => {
+    const original = Vector.SYSTEM;
+    Vector.SYSTEM = FixedPointOperatorSystem;
+    try {
+      const a = new Vector(1, 0).rotateDegree(90);
+      expect(a.operatorSystem).toBe(FixedPointOperatorSystem);
+      expect(Number(a.x)).toBeCloseTo(0, 9);
+      expect(Number(a.y)).toBeCloseTo(1, 9);
+    } finally {
+      Vector.SYSTEM = original;
+    }
+  });
+
+  test('名称区分不同的位数，精度等级随小数位数增加', () => {
+    const narrow = createFixedPointOperatorSystem({ fractionalBits: 16 });
+    const wide = createFixedPointOperatorSystem({ fractionalBits: 64 });
+    expect(FixedPointOperatorSystem.name).toBe('FixedPointOperatorSystem');
+    expect(narrow.name).toBe('FixedPointOperatorSystem(bits=16)');
+    expect(wide.name).toBe('FixedPointOperatorSystem(bits=64)');
+    expect(narrow.precision).toBeGreaterThan(BaseOperatorSystem.precision);
+    expect(wide.precision).toBeGreaterThan(FixedPointOperatorSystem.precision);
+    expect(wide.precision).toBeCloseTo(64 * Math.log10(2), 10);
+  });
+
+  test('不同位数混合时提升到位数更多的体系，与操作数顺序无关', () => {
+    const wide = createFixedPointOperatorSystem({ fractionalBits: 64 });
+    const a = FixedVector.create(1, 0);
+    const b = Vector.withSystem(wide).create(0, 1);
+    expect(a.add(b).operatorSystem).toBe(wide);
+    expect(b.add(a).operatorSystem).toBe(wide);
+    const base = Vector.withSystem('base').create(1, 2);
+    expect(base.add(a).operatorSystem).toBe(FixedPointOperatorSystem);
+  });
+});
+
+runOperatorSystemConformance(FixedPointOperatorSystem);
+runOperatorSystemConformance(
+  createFixedPointOperatorSystem({ fractionalBits: 64 }),
+  { tolerance: 1e-15 }
+);
@@ -0,0 +1,222 @@
+import Vector, { Vector3 } from '../src/vector';
+import {
+  Interval,
+  IntervalOperatorSystem,
+  nextUp,
+  nextDown,
+  UNCERTAIN
+} from '../src/operator-system';
+import { InvalidOperandError } from '../src/errors';
+import * as Chance from 'chance';
+
+const chance = new Chance();
+const IntervalVector = Vector.withSystem<Interval>('interval');
+
+/* ----------------------------------------------------
+    相邻浮点数
+----------------------------------------------------- */
+describe('[Interval Operator] 工具函数 - nextUp, nextDown', () => {
+  test('返回相邻的浮点数', () => {
+    expect(nextUp(1)).toBe(1 + Number.EPSILON);
+    expect(nextDown(1)).toBe(1 - Number.EPSILON / 2);
+    expect(nextUp(0)).toBe(Number.MIN_VALUE);
+    expect(nextDown(0)).toBe(-Number.MIN_VALUE);
+    expect(nextUp(-Number.MIN_VALUE)).toBe(-0);
+    expect(nextUp(Number.MAX_VALUE)).toBe(Infinity);
+  });
+});
+
+/* ----------------------------------------------------
+    创建区间
+----------------------------------------------------- */
+describe('[Interval Operator] 构造 - create()', () => {
+  const { create } = IntervalOperatorSystem;
+
+  test('整数和数值为精确的退化区间', () => {
+    expect(create(3).toString()).toBe('[3, 3]');
+    expect(create('-42').toString()).toBe('[-42, -42]');
+    expect(create(0.1).isExact()).toBeTruthy();
+  });
+
+  test('小数字符串会向外放宽一个 ulp', () => {
+    const a = create('0.1');
+    expect(a.lo).toBe(nextDown(0.1));
+    expect(a.hi).toBe(nextUp(0.1));
+  });
+
+  test('区间字符串可以往返', () => {
+    const a = new Interval(nextDown(0.3), 0.3);
+    expect(create(a.toString())).toEqual(a);
+  });
+
+  test('无法解析时抛出 InvalidOperandError', () => {
+    expect(() => create('abc')).toThrow(InvalidOperandError);
+    expect(() => create('[2, 1]')).toThrow(InvalidOperandError);
+  });
+});
+
+/* ----------------------------------------------------
+    外向舍入
+----------------------------------------------------- */
+describe('[Interval Operator] 四则运算 - 结果包含真实值', () => {
+  const { plus, minus, multiply, divide, sqrt, abs } = IntervalOperatorSystem;
+
+  test('精确的运算结果保持退化区间', () => {
+    expect(plus(1, 2).toString()).toBe('[3, 3]');
+    expect(multiply(-3, 4).toString()).toBe('[-12, -12]');
+    expect(divide(1, 4).toString()).toBe('[0.25, 0.25]');
+    expect(sqrt(16).toString()).toBe('[4, 4]');
+  });
+
+  test('不精确的运算结果向外舍入一个 ulp', () => {
+    const sum = plus('0.1', '0.2');
+    expect(sum.contains(0.3)).toBeTruthy();
+    expect(sum.contains(0.1 + 0.2)).toBeTruthy();
+
+    const third = divide(1, 3);
+    expect(third.hi).toBe(nextUp(third.lo));
+    expect(third.contains(1 / 3)).toBeTruthy();
+
+    const root = sqrt(2);
+    expect(root.hi).toBe(nextUp(root.lo));
+    expect(root.lo * root.lo).toBeLessThanOrEqual(2);
+  });
+
+  test('随机运算结果包含浮点结果', () => {
+    for (let i = 0; i < 50; i++) {
+      const a = chance.floating({ min: -1000, max: 1000 });
+      const b = chance.floating({ min: 1, max: 1000 });
+      expect(plus(a, b).contains(a + b)).toBeTruthy();
+      expect(minus(a, b).contains(a - b)).toBeTruthy();
+      expect(multiply(a, b).contains(a * b)).toBeTruthy();
+      expect(divide(a, b).contains(a / b)).toBeTruthy();
+    }
+  });
+
+  test('区间运算', () => {
+    const a = new Interval(-1, 2);
+    const b = new Interval(3, 4);
+    expect(multiply(a, b).toString()).toBe('[-4, 8]');
+    expect(minus(a, b).toString()).toBe('[-5, -1]');
+    expect(abs(a).toString()).toBe('[0, 2]');
+    expect(() => divide(b, a)).toThrow();
+  });
+});
+
+/* ----------------------------------------------------
+    三值相等
+----------------------------------------------------- */
+describe('[Interval Operator] 比较 - equal() 三值语义', () => {
+  const { equal } = IntervalOperatorSystem;
+
+  test('确定相等、确定不等、无法判断', () => {
+    expect(equal(1, 1)).toBe(true);
+    expect(equal(1, 2)).toBe(false);
+    expect(equal(new Interval(0, 2), new Interval(1, 3))).toBe(UNCERTAIN);
+    expect(equal('0.1', '0.1')).toBe(UNCERTAIN);
+  });
+
+  test('向量比较同样为三值', () => {
+    expect(IntervalVector.create(0, 0).isZero()).toBe(true);
+    expect(IntervalVector.create(1, 0).isZero()).toBe(false);
+    expect(IntervalVector.create('1e-20', 0).isZero()).toBe(false);
+    const a = IntervalVector.create('0.1', 0).multiply(3);
+    expect(a.isEqualTo(IntervalVector.create('0.3', 0))).toBe(UNCERTAIN);
+  });
+
+  test('带容差的比较、平行与垂直无法判断时同样返回 UNCERTAIN', () => {
+    const a = IntervalVector.create('[0.9, 1.1]', 0);
+    const b = IntervalVector.create(1, 0);
+    expect(a.isEqualTo(b, { absTol: 0.05 })).toBe(UNCERTAIN);
+    expect(a.isEqualTo(b, { absTol: 0.2 })).toBe(true);
+    expect(a.isEqualTo(IntervalVector.create(2, 0), { absTol: 0.5 })).toBe(
+      false
+    );
+
+    const c = IntervalVector.create(1, '[-0.1, 0.1]');
+    expect(c.isParallelTo(b)).toBe(UNCERTAIN);
+    expect(c.isParallelTo(IntervalVector.create(0, 1))).toBe(false);
+    expect(c.isPerpendicularTo(IntervalVector.create(0, 1))).toBe(UNCERTAIN);
+    expect(c.isPerpendicularTo(b)).toBe(false);
+  });
+
+  test('Vector3 同样为三值', () => {
+    const vec3 = (x, y, z) =>
+      new Vector3(x, y, z).config({ system: 'interval' });
+    const a = vec3('[0.9, 1.1]', 0, 0);
+    expect(a.isEqualTo(vec3(1, 0, 0), { absTol: 0.05 })).toBe(UNCERTAIN);
+    expect(vec3(1, '[-0.1, 0.1]', 0).isParallelTo(vec3(1, 0, 0))).toBe(
+      UNCERTAIN
+    );
+    expect(vec3(1, '[-0.1, 0.1]', 0).isPerpendicularTo(vec3(0, 1, 0))).toBe(
+      UNCERTAIN
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    三角函数
+----------------------------------------------------- */
+describe('[Interval Operator] 三角函数 - 结果包含真实值', () => {
+  const { sin, cos, atan2, acos, pi } = IntervalOperatorSystem;
+
+  test('pi 区间包含真实的 PI', () => {
+    expect(pi.lo).toBe(Math.PI);
+    expect(pi.hi).toBe(nextUp(Math.PI));
+  });
+
+  test('包含极值点时取到 1 或 -1', () => {
+    expect(sin(new Interval(0, 3)).hi).toBe(1);
+    expect(cos(new Interval(3, 4)).lo).toBe(-1);
+    expect(sin(new Interval(0, 10)).toString()).toBe('[-1, 1]');
+  });
+
+  test('结果包含 Math 的计算结果', () => {
+    for (let i = 0; i < 20; i++) {
+      const x = chance.floating({ min: -10, max: 10 });
+      const y = chance.floating({ min: -10, max: 10 });
+      expect(sin(x).contains(Math.sin(x))).toBeTruthy();
+      expect(cos(x).contains(Math.cos(x))).toBeTruthy();
+      expect(atan2(y, x).contains(Math.atan2(y, x))).toBeTruthy();
+    }
+    expect(acos(0).contains(Math.PI / 2)).toBeTruthy();
+  });
+
+  test('跨过负 X 轴时 atan2 给出整个范围', () => {
+    const result = atan2(new Interval(-1, 1), -1);
+    expect(result.lo).toBeLessThan(-3);
+    expect(result.hi).toBeGreaterThan(3);
+  });
+});
+
+/* ----------------------------------------------------
+    向量运算
+----------------------------------------------------- */
+describe('[Interval Operator] 向量运算 - 返回包含真实值的区间', () => {
+  test('length、dot、distance 的结果为区间', () => {
+    const a = IntervalVector.create(3, 4);
+    const b = IntervalVector.create(1, 2);
+    expect(a.length).toBe('[5, 5]');
+    expect(a.dot(b)).toBe('[11, 11]');
+    expect(Interval.from(a.distance(b)).contains(Math.sqrt(8))).toBeTruthy();
+  });
+
+  test('cross 的符号不确定时区间包含 0', () => {
+    const a = IntervalVector.create('0.1', '0.2');
+    const b = IntervalVector.create('0.2', '0.4');
+    const cross = Interval.from(a.cross(b));
+    expect(cross.contains(0)).toBeTruthy();
+
+    // 精确输入得到确定的符号
+    const c = IntervalVector.create(1, 2);
+    const d = IntervalVector.create(2, 3);
+    expect(c.cross(d)).toBe('[-1, -1]');
+  });
+
+  test('派生向量保持区间算术体系', () => {
+    const a = IntervalVector.create(1, 0).rotate(IntervalOperatorSystem.pi);
+    expect(a.operatorSystem.name).toBe('IntervalOperatorSystem');
+    expect(Interval.from(a.x).contains(-1)).toBeTruthy();
+    expect(Interval.from(a.y).contains(0)).toBeTruthy();
+  });
+});
@@ -0,0 +1,174 @@
+import Vector, {
+  Line,
+  Ray,
+  Segment,
+  VectorError
+} from '../src/vector';
+
+const v = (x, y) => new Vector(x, y);
+const show = shape => (shape === null ? 'null' : shape.toString());
+
+/* ----------------------------------------------------
+    构造
+----------------------------------------------------- */
+describe('[Line] 构造 - Line、Ray、Segment', () => {
+  test('through 由两点确定方向', () => {
+    expect(Line.through(v(1, 1), v(3, 2)).toString()).toBe(
+      'Line(x:1, y:1 + t(x:2, y:1))'
+    );
+    expect(Ray.through(v(1, 1), v(1, 5)).direction.toString()).toBe('x:0, y:4');
+  });
+
+  test('直线与射线的方向不能为零，线段可以退化为点', () => {
+    expect(() => Line.through(v(1, 1), v(1, 1))).toThrow(VectorError);
+    expect(() => new Ray(v(0, 0), v(0, 0))).toThrow(
+      'The direction of a ray can not be zero'
+    );
+    expect(new Segment(v(1, 1), v(1, 1)).length).toBe('0');
+  });
+
+  test('length、pointAt', () => {
+    const seg = new Segment(v(0, 0), v(3, 4));
+    expect(seg.length).toBe('5');
+    expect(seg.pointAt(0.5).toString()).toBe('x:1.5, y:2');
+    expect(new Line(v(0, 0), v(1, 0)).length).toBe('Infinity');
+    expect(new Ray(v(0, 0), v(1, 0)).pointAt(3).toString()).toBe('x:3, y:0');
+  });
+});
+
+/* ----------------------------------------------------
+    相交
+----------------------------------------------------- */
+describe('[Line] 相交 - intersect', () => {
+  const a = new Segment(v(0, 0), v(2, 2));
+
+  test('相交于一点', () => {
+    expect(show(a.intersect(new Segment(v(0, 2), v(2, 0))))).toBe('x:1, y:1');
+    // 端点相接
+    expect(show(a.intersect(new Segment(v(2, 2), v(3, 0))))).toBe('x:2, y:2');
+    expect(show(a.intersect(Line.through(v(0, 1), v(1, 1))))).toBe('x:1, y:1');
+  });
+
+  test('不相交', () => {
+    expect(a.intersect(new Segment(v(3, 0), v(3, 5)))).toBeNull();
+    expect(a.intersect(new Ray(v(1, 0), v(1, -1)))).toBeNull();
+    // 平行但不共线
+    expect(a.intersect(Line.through(v(0, 1), v(1, 2)))).toBeNull();
+    // 共线但不重叠
+    expect(a.intersect(new Segment(v(3, 3), v(4, 4)))).toBeNull();
+  });
+
+  test('BigOperatorSystem 下交点坐标精确', () => {
+    const p = new Segment(v('0.1', '0.2'), v('0.7', '0.5'));
+    const q = new Segment(v('0.1', '0.5'), v('0.7', '0.2'));
+    expect(show(p.intersect(q))).toBe('x:0.4, y:0.35');
+    const r = Line.through(v(0, 0), v(3, 1));
+    const s = Line.through(v(0, 1), v(1, 0));
+    expect(show(r.intersect(s))).toBe('x:0.75, y:0.25');
+  });
+
+  test('RationalOperatorSystem 下交点为分数', () => {
+    const r = (x, y) => new Vector(x, y, 'rational');
+    const p = Line.through(r(0, 0), r(1, 3));
+    const q = Line.through(r(0, 1), r(1, 0));
+    expect(show(p.intersect(q))).toBe('x:1/4, y:3/4');
+  });
+
+  test('共线时返回重叠部分', () => {
+    expect(show(a.intersect(new Segment(v(1, 1), v(3, 3))))).toBe(
+      'Segment(x:1, y:1 -> x:2, y:2)'
+    );
+    // 方向相反时沿 a 的方向
+    expect(show(a.intersect(new Segment(v(3, 3), v(1, 1))))).toBe(
+      'Segment(x:1, y:1 -> x:2, y:2)'
+    );
+    // 包含
+    expect(show(a.intersect(Line.through(v(-1, -1), v(5, 5))))).toBe(
+      'Segment(x:0, y:0 -> x:2, y:2)'
+    );
+    // 只有端点重合
+    expect(show(a.intersect(new Segment(v(2, 2), v(4, 4))))).toBe('x:2, y:2');
+  });
+
+  test('共线的直线与射线', () => {
+    const ray = new Ray(v(1, 1), v(1, 1));
+    const line = new Line(v(0, 0), v(2, 2));
+    expect(show(line.intersect(ray))).toBe('Ray(x:1, y:1 + t(x:2, y:2))');
+    expect(show(ray.intersect(line))).toBe('Ray(x:1, y:1 + t(x:1, y:1))');
+    expect(show(line.intersect(Line.through(v(5, 5), v(4, 4))))).toBe(
+      'Line(x:0, y:0 + t(x:2, y:2))'
+    );
+    const back = new Ray(v(3, 3), v(-1, -1));
+    expect(show(ray.intersect(back))).toBe('Segment(x:1, y:1 -> x:3, y:3)');
+    expect(show(line.intersect(back))).toBe('Ray(x:3, y:3 + t(x:-2, y:-2))');
+    expect(ray.intersect(new Ray(v(0, 0), v(-1, -1)))).toBeNull();
+  });
+
+  test('退化为点的线段', () => {
+    const dot = new Segment(v(1, 1), v(1, 1));
+    expect(show(a.intersect(dot))).toBe('x:1, y:1');
+    expect(show(dot.intersect(a))).toBe('x:1, y:1');
+    expect(dot.intersect(new Segment(v(0, 1), v(0, 2)))).toBeNull();
+  });
+});
+
+/* ----------------------------------------------------
+    点与线
+----------------------------------------------------- */
+describe('[Line] 点与线 - closestPoint、distanceTo、side、contains', () => {
+  const seg = new Segment(v(0, 0), v(4, 0));
+  const ray = new Ray(v(0, 0), v(1, 0));
+  const line = new Line(v(0, 0), v(1, 0));
+
+  test('closestPoint 限制在参数范围内', () => {
+    expect(seg.closestPoint(v(1, 3)).toString()).toBe('x:1, y:0');
+    expect(seg.closestPoint(v(-2, 3)).toString()).toBe('x:0, y:0');
+    expect(seg.closestPoint(v(9, -1))).toBe(seg.end);
+    expect(ray.closestPoint(v(-2, 3)).toString()).toBe('x:0, y:0');
+    expect(ray.closestPoint(v(9, -1)).toString()).toBe('x:9, y:0');
+    expect(line.closestPoint(v(-2, 3)).toString()).toBe('x:-2, y:0');
+    const slope = Line.through(v(0, 0), v(1, 1));
+    expect(slope.closestPoint(v(0, 1)).toString()).toBe('x:0.5, y:0.5');
+  });
+
+  test('distanceTo', () => {
+    expect(seg.distanceTo(v(1, 3))).toBe('3');
+    expect(seg.distanceTo(v(7, 4))).toBe('5');
+    expect(ray.distanceTo(v(-3, -4))).toBe('5');
+    expect(line.distanceTo(v(-3, -4))).toBe('4');
+    expect(new Segment(v(1, 1), v(1, 1)).distanceTo(v(4, 5))).toBe('5');
+  });
+
+  test('side 以方向为准，左侧为 1', () => {
+    expect(line.side(v(5, 2))).toBe(1);
+    expect(line.side(v(5, -2))).toBe(-1);
+    expect(line.side(v(-5, 0))).toBe(0);
+    expect(new Segment(v(4, 0), v(0, 0)).side(v(5, 2))).toBe(-1);
+  });
+
+  test('不同体系先转换到同一体系', () => {
+    // 区间按中点转换成分数
+    const a = new Segment(
+      new Vector(0, 0, 'rational'),
+      new Vector(1, 1, 'rational')
+    );
+    const b = new Segment(
+      new Vector('[0, 2]', 0, 'interval'),
+      new Vector(0, '[0, 2]', 'interval')
+    );
+    expect(show(a.intersect(b))).toBe('x:1/2, y:1/2');
+    expect(a.contains(new Vector('[0, 1]', '[0, 1]', 'interval'))).toBe(true);
+    expect(
+      show(b.closestPoint(new Vector('1/3', '1/3', 'rational')))
+    ).toBe('x:1/2, y:1/2');
+  });
+
+  test('contains', () => {
+    expect(seg.contains(v(4, 0))).toBe(true);
+    expect(seg.contains(v(5, 0))).toBe(false);
+    expect(ray.contains(v(5, 0))).toBe(true);
+    expect(ray.contains(v(-1, 0))).toBe(false);
+    expect(line.contains(v(-1, 0))).toBe(true);
+    expect(line.contains(v(1, 1e-30))).toBe(false);
+  });
+});
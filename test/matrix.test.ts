@@ -0,0 +1,170 @@
+import Vector, { Matrix2, Matrix3, SingularMatrixError } from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+/* ----------------------------------------------------
+    Matrix2
+----------------------------------------------------- */
+describe('[Matrix] Matrix2 - 构造', () => {
+  test('构造函数与 identity', () => {
+    expect(new Matrix2([1, 2, 3, 4]).toString()).toBe('[[1, 2], [3, 4]]');
+    expect(new Matrix2().isIdentity()).toBe(true);
+    expect(Matrix2.identity().toArray()).toEqual([['1', '0'], ['0', '1']]);
+    expect(new Matrix2([1, 2, 3, 4]).get(1, 0)).toBe('3');
+  });
+
+  test('scaling、shear', () => {
+    const v = new Vector(1, 2);
+    expect(v.transform(Matrix2.scaling(3)).toString()).toBe('x:3, y:6');
+    expect(v.transform(Matrix2.scaling(2, -1)).toString()).toBe('x:2, y:-2');
+    expect(v.transform(Matrix2.shear(1)).toString()).toBe('x:3, y:2');
+    expect(v.transform(Matrix2.shear(0, 2)).toString()).toBe('x:1, y:4');
+  });
+
+  test('rotation', () => {
+    const v = new Vector(1, 0).transform(Matrix2.rotationDegree(90));
+    expect(v.isEqualTo(new Vector(0, 1), { absTol: 1e-18 })).toBe(true);
+    const w = new Vector(3, 4).transform(Matrix2.rotation(1));
+    expect(w.isEqualTo(new Vector(3, 4).rotate(1), { absTol: 1e-18 })).toBe(
+      true
+    );
+  });
+
+  test('reflection 关于过原点的直线，结果精确', () => {
+    const m = Matrix2.reflection(new Vector(1, 1));
+    expect(new Vector(1, 0).transform(m).toString()).toBe('x:0, y:1');
+    expect(new Vector(2, 5).transform(m).toString()).toBe('x:5, y:2');
+    const x = Matrix2.reflection(new Vector(3, 0));
+    expect(new Vector(2, 5).transform(x).toString()).toBe('x:2, y:-5');
+    expect(m.compose(m).isIdentity()).toBe(true);
+  });
+});
+
+describe('[Matrix] Matrix2 - 运算', () => {
+  const a = new Matrix2([1, 2, 3, 4]);
+  const b = new Matrix2([0, 1, 1, 0]);
+
+  test('multiply 与 compose 的顺序', () => {
+    expect(a.multiply(b).toString()).toBe('[[2, 1], [4, 3]]');
+    expect(a.compose(b).toString()).toBe('[[3, 4], [1, 2]]');
+    const v = new Vector(5, 7);
+    expect(v.transform(a.compose(b)).toString()).toBe(
+      v.transform(a).transform(b).toString()
+    );
+  });
+
+  test('determinant、transpose', () => {
+    expect(a.determinant()).toBe('-2');
+    expect(b.determinant()).toBe('-1');
+    expect(a.transpose().toString()).toBe('[[1, 3], [2, 4]]');
+  });
+
+  test('invert 结果精确', () => {
+    expect(a.invert().toString()).toBe('[[-2, 1], [1.5, -0.5]]');
+    expect(a.compose(a.invert()).isIdentity()).toBe(true);
+    expect(() => new Matrix2([1, 2, 2, 4]).invert()).toThrow(
+      SingularMatrixError
+    );
+  });
+
+  test('toMatrix3', () => {
+    expect(a.toMatrix3().toString()).toBe('[[1, 2, 0], [3, 4, 0], [0, 0, 1]]');
+  });
+});
+
+/* ----------------------------------------------------
+    Matrix3
+----------------------------------------------------- */
+describe('[Matrix] Matrix3 - 仿射变换', () => {
+  test('translation、scaling、shear', () => {
+    const v = new Vector(1, 2);
+    expect(v.transform(Matrix3.translation(10, 20)).toString()).toBe(
+      'x:11, y:22'
+    );
+    expect(v.transform(Matrix3.scaling(2, 3)).toString()).toBe('x:2, y:6');
+    expect(v.transform(Matrix3.shear(1, 1)).toString()).toBe('x:3, y:3');
+  });
+
+  test('compose 按顺序应用', () => {
+    const m = Matrix3.translation(1, 0).compose(Matrix3.scaling(2));
+    expect(new Vector(0, 0).transform(m).toString()).toBe('x:2, y:0');
+    const n = Matrix3.scaling(2).compose(Matrix3.translation(1, 0));
+    expect(new Vector(1, 1).transform(n).toString()).toBe('x:3, y:2');
+  });
+
+  test('rotationAbout 绕指定点旋转', () => {
+    const m = Matrix3.rotationAbout(Math.PI, new Vector(1, 1));
+    const v = new Vector(2, 1).transform(m);
+    expect(v.isEqualTo(new Vector(0, 1), { absTol: 1e-15 })).toBe(true);
+    const pivot = new Vector(1, 1).transform(m);
+    expect(pivot.isEqualTo(new Vector(1, 1), { absTol: 1e-15 })).toBe(true);
+  });
+
+  test('reflection 关于任意直线', () => {
+    // 直线 y = 1
+    const m = Matrix3.reflection(new Vector(1, 0), new Vector(0, 1));
+    expect(new Vector(3, 0).transform(m).toString()).toBe('x:3, y:2');
+    // 直线 y = x + 1
+    const n = Matrix3.reflection(new Vector(1, 1), new Vector(0, 1));
+    expect(new Vector(1, 0).transform(n).toString()).toBe('x:-1, y:2');
+    expect(Matrix3.reflection(new Vector(1, 1)).determinant()).toBe('-1');
+  });
+
+  test('determinant、transpose、invert', () => {
+    const m = new Matrix3([1, 2, 3, 0, 1, 4, 5, 6, 0]);
+    expect(m.determinant()).toBe('1');
+    expect(m.transpose().toString()).toBe('[[1, 0, 5], [2, 1, 6], [3, 4, 0]]');
+    expect(m.invert().toString()).toBe(
+      '[[-24, 18, 5], [20, -15, -4], [-5, 4, 1]]'
+    );
+    expect(m.multiply(m.invert()).isIdentity()).toBe(true);
+  });
+
+  test('invert 抛出 SingularMatrixError', () => {
+    expect(() => Matrix3.scaling(0, 1).invert()).toThrow(SingularMatrixError);
+  });
+});
+
+/* ----------------------------------------------------
+    精度
+----------------------------------------------------- */
+describe('[Matrix] 精度 - 组合与求逆保持精确', () => {
+  test('BigOperatorSystem 下组合再求逆得到单位矩阵', () => {
+    const m = Matrix3.translation(0.1, 0.2)
+      .compose(Matrix3.scaling(0.5, 4))
+      .compose(Matrix3.shear(0.3))
+      .compose(Matrix3.reflection(new Vector(1, 2), new Vector(0.7, 0)));
+    expect(m.compose(m.invert()).isIdentity()).toBe(true);
+    expect(m.invert().compose(m).isIdentity()).toBe(true);
+
+    const v = new Vector(0.1, 0.2);
+    expect(v.transform(m).transform(m.invert()).toString()).toBe('x:0.1, y:0.2');
+  });
+
+  test('BaseOperatorSystem 下会有浮点误差', () => {
+    const m = Matrix3.translation(0.1, 0.2, 'base').compose(
+      Matrix3.scaling(3, 3, 'base')
+    );
+    expect(m.operatorSystem).toBe(BaseOperatorSystem);
+    expect(m.get(0, 2)).toBe(String(0.1 * 3));
+  });
+
+  test('RationalOperatorSystem 下求逆为分数', () => {
+    const m = new Matrix2([1, 2, 3, 3]).config({ system: 'rational' });
+    expect(m.invert().toString()).toBe('[[-1, 2/3], [1, -1/3]]');
+    expect(m.compose(m.invert()).isIdentity()).toBe(true);
+  });
+
+  test('混合体系时另一个操作数先转换到选定的体系', () => {
+    const r = new Matrix2(['1/2', 0, 0, '1/3']).config({ system: 'rational' });
+    // 区间按中点转换成分数
+    const i = new Matrix2(['[1, 3]', 0, 0, 3]).config({ system: 'interval' });
+    expect(r.multiply(i).toString()).toBe('[[1, 0], [0, 1]]');
+    expect(i.compose(r).isIdentity()).toBe(true);
+    expect(i.convertTo('rational').isEqualTo(r.invert())).toBe(true);
+
+    const t = Matrix3.translation('1/3', 0, 'rational');
+    const v = Vector.withSystem('interval').create('[0, 1]', 2);
+    expect(t.apply(v).toString()).toBe('x:5/6, y:2');
+    expect(v.transform(t).toString()).toBe('x:5/6, y:2');
+  });
+});
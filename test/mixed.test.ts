@@ -0,0 +1,186 @@
+import Vector from '../src/vector';
+import {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  RationalOperatorSystem,
+  IntervalOperatorSystem,
+  createBigOperatorSystem
+} from '../src/operator-system';
+import { MixedSystemError } from '../src/errors';
+
+const BaseVector = Vector.withSystem('base');
+const BigVector = Vector.withSystem('big');
+const RationalVector = Vector.withSystem('rational');
+const IntervalVector = Vector.withSystem('interval');
+
+/* ----------------------------------------------------
+    默认策略：提升到精度更高的体系
+----------------------------------------------------- */
+describe('[Mixed System] 混合运算 - promote 策略', () => {
+  afterEach(() => {
+    Vector.MIXED_POLICY = 'promote';
+  });
+
+  test('默认策略为 promote', () => {
+    expect(Vector.MIXED_POLICY).toBe('promote');
+  });
+
+  test('结果体系与操作数顺序无关', () => {
+    const a = BaseVector.create(0.1, 0.2);
+    const b = BigVector.create(0.2, 0.1);
+    expect(a.add(b).operatorSystem).toBe(BigOperatorSystem);
+    expect(b.add(a).operatorSystem).toBe(BigOperatorSystem);
+    expect(a.add(b).toString()).toBe('x:0.3, y:0.3');
+  });
+
+  test('小数位数少于 base 精度等级的 big 上下文仍排在 base 之上', () => {
+    const system = createBigOperatorSystem({ decimalPlaces: 2 });
+    expect(system.precision).toBeGreaterThan(BaseOperatorSystem.precision);
+    const a = BaseVector.create(1, 2);
+    const b = Vector.withSystem(system).create(1, 1);
+    expect(a.add(b).operatorSystem).toBe(system);
+    expect(b.add(a).operatorSystem).toBe(system);
+    expect(a.add(b).divide(3).toString()).toBe('x:0.67, y:1');
+  });
+
+  test('所有二元方法都应用同一策略', () => {
+    const a = BaseVector.create(1, 2);
+    const b = RationalVector.create(3, 4);
+    expect(a.subtract(b).operatorSystem).toBe(RationalOperatorSystem);
+    expect(a.multiply(b).operatorSystem).toBe(RationalOperatorSystem);
+    expect(a.divide(b).toString()).toBe('x:1/3, y:1/2');
+    expect(a.projectOnto(b).toString()).toBe('x:33/25, y:44/25');
+    expect(a.dot(b)).toBe('11');
+    expect(a.cross(b)).toBe('-2');
+    expect(a.distanceSq(b)).toBe('8');
+    expect(b.isEqualTo(a.add(2))).toBe(true);
+  });
+
+  test('与标量运算时保持自身体系', () => {
+    expect(BaseVector.create(1, 2).add(1).operatorSystem).toBe(
+      BaseOperatorSystem
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    throw 策略与自定义策略
+----------------------------------------------------- */
+describe('[Mixed System] 混合运算 - throw 策略与自定义策略', () => {
+  afterEach(() => {
+    Vector.MIXED_POLICY = 'promote';
+  });
+
+  test('throw 策略抛出 MixedSystemError', () => {
+    Vector.MIXED_POLICY = 'throw';
+    const a = BaseVector.create(1, 2);
+    const b = BigVector.create(3, 4);
+    expect(() => a.add(b)).toThrow(MixedSystemError);
+    expect(() => a.dot(b)).toThrow(MixedSystemError);
+    expect(() => a.cross(b)).toThrow(MixedSystemError);
+    expect(() => a.distance(b)).toThrow(MixedSystemError);
+    expect(() => a.projectOnto(b)).toThrow(MixedSystemError);
+    expect(() => a.angleBetween(b)).toThrow(MixedSystemError);
+    // 相同体系不受影响
+    expect(a.add(BaseVector.create(1, 1)).toString()).toBe('x:2, y:3');
+  });
+
+  test('自定义策略决定使用的体系', () => {
+    const resolver = jest.fn(() => BaseOperatorSystem);
+    Vector.MIXED_POLICY = resolver;
+    const a = BigVector.create(1, 2);
+    const b = RationalVector.create(3, 4);
+    expect(a.add(b).operatorSystem).toBe(BaseOperatorSystem);
+    expect(resolver).toHaveBeenCalledWith(BigOperatorSystem, RationalOperatorSystem);
+  });
+});
+
+/* ----------------------------------------------------
+    操作数转换到选定的体系
+----------------------------------------------------- */
+describe('[Mixed System] 操作数转换 - 分数、区间混合', () => {
+  afterEach(() => {
+    Vector.MIXED_POLICY = 'promote';
+  });
+
+  test('分数与区间相加，结果与操作数顺序无关', () => {
+    const a = RationalVector.create('1/3', '1/2');
+    // 区间按中点转换成分数
+    const b = IntervalVector.create('[0.5, 1.5]', '[1.5, 2.5]');
+    expect(a.add(b).operatorSystem).toBe(RationalOperatorSystem);
+    expect(a.add(b).toString()).toBe('x:4/3, y:5/2');
+    expect(b.add(a).toString()).toBe('x:4/3, y:5/2');
+    expect(b.subtract(a).toString()).toBe('x:2/3, y:3/2');
+    expect(a.dot(b)).toBe('4/3');
+    expect(b.cross(a)).toBe('-1/6');
+    expect(b.distanceSq(a)).toBe('97/36');
+  });
+
+  test('长度、投影等用到另一个向量自身结果的方法同样先转换', () => {
+    const a = RationalVector.create('1/2', '1/2');
+    const b = IntervalVector.create('[1, 3]', '[-1, 1]');
+    expect(a.projectOnto(b).toString()).toBe('x:1/2, y:0');
+    expect(b.projectOnto(a).toString()).toBe('x:1, y:1');
+    expect(a.complexDivide(b).toString()).toBe('x:1/4, y:1/4');
+    expect(b.complexDivide(a).toString()).toBe('x:2, y:-2');
+    expect(a.compareLength(b)).toBe(-1);
+    expect(
+      RationalVector.create(3, 4).cosAngleBetween(IntervalVector.create(5, 0))
+    ).toBe('3/5');
+    expect(a.isParallelTo(IntervalVector.create(3, 3))).toBe(true);
+    expect(a.isPerpendicularTo(IntervalVector.create(1, -1))).toBe(true);
+    expect(a.isEqualTo(IntervalVector.create(0.5, 0.5))).toBe(true);
+  });
+
+  test('原地运算同样先转换另一个操作数', () => {
+    const a = RationalVector.create('1/3', '1/2').mut();
+    a.addInPlace(IntervalVector.create(1, 2));
+    expect(a.operatorSystem).toBe(RationalOperatorSystem);
+    expect(a.toString()).toBe('x:4/3, y:5/2');
+    const b = IntervalVector.create(1, 2).mut();
+    b.addInPlace(RationalVector.create('1/3', '1/2'));
+    expect(b.toString()).toBe('x:4/3, y:5/2');
+  });
+
+  test('自定义策略返回 big 时，分数先转换成十进制小数', () => {
+    Vector.MIXED_POLICY = () => BigOperatorSystem;
+    const a = RationalVector.create('1/3', '1/2');
+    const b = BigVector.create(1, 2);
+    expect(a.add(b).toString()).toBe('x:1.33333333333333333333, y:2.5');
+    expect(b.add(a).toString()).toBe('x:1.33333333333333333333, y:2.5');
+    expect(b.dot(a)).toBe('1.33333333333333333333');
+  });
+
+  test('提升到区间时，其他体系的值转换成区间', () => {
+    const a = IntervalVector.create(1, 2);
+    const b = BaseVector.create(0.5, 0.25);
+    expect(b.add(a).operatorSystem).toBe(IntervalOperatorSystem);
+    const { x, y } = a.add(b);
+    expect(IntervalOperatorSystem.create(x).contains(1.5)).toBe(true);
+    expect(IntervalOperatorSystem.create(y).contains(2.25)).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    显式转换
+----------------------------------------------------- */
+describe('[Mixed System] 显式转换 - convertTo()', () => {
+  test('转换到其他体系', () => {
+    const a = BaseVector.create(0.1, 0.2);
+    const b = a.convertTo('rational');
+    expect(b.operatorSystem).toBe(RationalOperatorSystem);
+    expect(b.toString()).toBe('x:1/10, y:1/5');
+    expect(a.operatorSystem).toBe(BaseOperatorSystem);
+    expect(b.convertTo(BigOperatorSystem).operatorSystem).toBe(
+      BigOperatorSystem
+    );
+  });
+
+  test('分数转换成十进制小数', () => {
+    const a = RationalVector.create('1/3', '1/8');
+    expect(a.convertTo('big').toString()).toBe(
+      'x:0.33333333333333333333, y:0.125'
+    );
+    expect(a.convertTo('base').toString()).toBe(`x:${1 / 3}, y:0.125`);
+  });
+});
@@ -0,0 +1,130 @@
+import Vector, {
+  MutableVector,
+  VectorPool,
+  IReadonlyVector
+} from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+/* ----------------------------------------------------
+    MutableVector
+----------------------------------------------------- */
+describe('[MutableVector] 操作 - 原地修改', () => {
+  test('...InPlace 修改自身并返回自身', () => {
+    const vec = new MutableVector(1, 2);
+    const result = vec.addInPlace(new Vector(3, 4));
+    expect(result).toBe(vec);
+    expect(vec.toString()).toBe('x:4, y:6');
+    vec.subtractInPlace(1).multiplyInPlace(new Vector(2, 3)).divideInPlace(2);
+    expect(vec.toString()).toBe('x:3, y:7.5');
+    expect(vec.invertInPlace().toString()).toBe('x:-3, y:-7.5');
+  });
+
+  test('normalizeInPlace、rotateInPlace', () => {
+    const vec = new MutableVector(3, 4).normalizeInPlace();
+    expect(vec.toString()).toBe('x:0.6, y:0.8');
+    const r = new MutableVector(1, 0).rotateDegreeInPlace(90);
+    expect(r.isEqualTo(new Vector(0, 1), { absTol: 1e-18 })).toBe(true);
+    const s = new MutableVector(3, 4).rotateInPlace(1);
+    expect(s.toString()).toBe(new Vector(3, 4).rotate(1).toString());
+  });
+
+  test('继承的方法返回新的不可变向量', () => {
+    const vec = new MutableVector(1, 2);
+    const sum = vec.add(new Vector(1, 1));
+    expect(sum).not.toBeInstanceOf(MutableVector);
+    expect(sum.toString()).toBe('x:2, y:3');
+    expect(vec.toString()).toBe('x:1, y:2');
+  });
+
+  test('与 Vector 互相转换，保持算术体系', () => {
+    const base = new Vector(1, 2).config({ system: 'base' });
+    const m = base.mut();
+    expect(m).toBeInstanceOf(MutableVector);
+    expect(m.operatorSystem).toBe(BaseOperatorSystem);
+    m.addInPlace(1);
+    expect(base.toString()).toBe('x:1, y:2');
+
+    const back = m.toVector();
+    expect(back).not.toBeInstanceOf(MutableVector);
+    expect(back.toString()).toBe('x:2, y:3');
+    expect(back.operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('set、copy', () => {
+    const vec = new MutableVector(1, 2);
+    expect(vec.set(5, 6).toString()).toBe('x:5, y:6');
+    const base = new Vector(7, 8).config({ system: 'base' });
+    expect(vec.copy(base).toString()).toBe('x:7, y:8');
+    expect(vec.operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('不同算术体系混合时按 Vector.MIXED_POLICY 提升', () => {
+    const vec = new MutableVector(0.1, 0.2).config({ system: 'base' });
+    vec.addInPlace(new Vector(0.2, 0.1));
+    expect(vec.operatorSystem).toBe(new Vector().operatorSystem);
+    expect(vec.toString()).toBe('x:0.3, y:0.3');
+  });
+
+  test('可以作为 Vector 的参数，也可以通过 IReadonlyVector 互换', () => {
+    const m = new MutableVector(1, 1);
+    expect(new Vector(2, 3).add(m).toString()).toBe('x:3, y:4');
+    expect(new Vector(2, 3).dot(m)).toBe('5');
+    const lengths = (list: Array<IReadonlyVector<any>>) =>
+      list.map(v => v.length);
+    expect(lengths([new Vector(3, 4), new MutableVector(6, 8)])).toEqual([
+      '5',
+      '10'
+    ]);
+  });
+});
+
+/* ----------------------------------------------------
+    VectorPool
+----------------------------------------------------- */
+describe('[VectorPool] 复用 - acquire、release', () => {
+  test('release 之后 acquire 复用同一个对象', () => {
+    const pool = new VectorPool();
+    const a = pool.acquire(1, 2);
+    expect(a.toString()).toBe('x:1, y:2');
+    pool.release(a);
+    expect(pool.available).toBe(1);
+    const b = pool.acquire();
+    expect(b).toBe(a);
+    expect(b.toString()).toBe('x:0, y:0');
+    expect(pool.available).toBe(0);
+  });
+
+  test('预先创建与容量上限', () => {
+    const pool = new VectorPool({ initialSize: 3, maxSize: 4 });
+    expect(pool.available).toBe(3);
+    const list = [1, 2, 3, 4, 5].map(i => pool.acquire(i, i));
+    list.forEach(v => pool.release(v));
+    expect(pool.available).toBe(4);
+    pool.clear();
+    expect(pool.available).toBe(0);
+  });
+
+  test('池中的向量绑定到指定的算术体系', () => {
+    const pool = new VectorPool<number>({ system: 'base' });
+    const a = pool.acquire(1, 2);
+    a.copy(new Vector(3, 4));
+    pool.release(a);
+    const b = pool.acquire(0.1, 0.2);
+    expect(b.operatorSystem).toBe(BaseOperatorSystem);
+    expect(b.addInPlace(0.1).xValue).toBe(0.1 + 0.1);
+  });
+
+  test('在循环中原地更新', () => {
+    const pool = new VectorPool({ system: 'base' });
+    const position = pool.acquire(0, 0);
+    const velocity = pool.acquire(1, 0.5);
+    for (let i = 0; i < 100; i++) {
+      const step = pool.acquire(velocity.xValue, velocity.yValue);
+      position.addInPlace(step.multiplyInPlace(0.1));
+      pool.release(step);
+    }
+    expect(Number(position.x)).toBeCloseTo(10, 10);
+    expect(Number(position.y)).toBeCloseTo(5, 10);
+    expect(pool.available).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+import Vector from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+const HALF_PI = '1.57079632679489661923';
+
+/* ----------------------------------------------------
+    由极坐标创建
+----------------------------------------------------- */
+describe('[Vector] 极坐标 - fromPolar、fromPolarDegree', () => {
+  test('fromPolar', () => {
+    expect(Vector.fromPolar(2, 0).toString()).toBe('x:2, y:0');
+    const v = Vector.fromPolar(2, HALF_PI);
+    expect(v.isEqualTo(new Vector(0, 2), { absTol: 1e-18 })).toBe(true);
+    expect(Vector.fromPolar(0, 1).isZero()).toBe(true);
+  });
+
+  test('fromPolarDegree', () => {
+    const v = Vector.fromPolarDegree(2, 180);
+    expect(v.isEqualTo(new Vector(-2, 0), { absTol: 1e-18 })).toBe(true);
+    const w = Vector.fromPolarDegree(10, -45);
+    const half = '7.07106781186547524401';
+    expect(w.isEqualTo(new Vector(half, '-' + half), { absTol: 1e-18 })).toBe(
+      true
+    );
+  });
+
+  test('指定算术体系，或通过 Vector.withSystem 创建', () => {
+    const v = Vector.fromPolar(1, 1, 'base');
+    expect(v.operatorSystem).toBe(BaseOperatorSystem);
+    expect(v.toString()).toBe(`x:${Math.cos(1)}, y:${Math.sin(1)}`);
+    const factory = Vector.withSystem('base');
+    expect(factory.fromPolarDegree(1, 90).operatorSystem).toBe(
+      BaseOperatorSystem
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    转换为极坐标
+----------------------------------------------------- */
+describe('[Vector] 极坐标 - toPolar、withLength、withAngle', () => {
+  test('toPolar', () => {
+    expect(new Vector(3, 4).toPolar().r).toBe('5');
+    expect(new Vector(0, 2).toPolar()).toEqual({ r: '2', theta: HALF_PI });
+    expect(new Vector(-1, 0).toPolar().theta).toBe('3.14159265358979323846');
+  });
+
+  test('零向量的 toPolar 约定角度为 0', () => {
+    expect(new Vector(0, 0).toPolar()).toEqual({ r: '0', theta: '0' });
+    const interval = new Vector(0, 0).config({ system: 'interval' });
+    expect(interval.toPolar().theta).toBe('[0, 0]');
+  });
+
+  test('fromPolar 与 toPolar 互为逆运算', () => {
+    const v = new Vector(-3, 7);
+    const { r, theta } = v.toPolar();
+    expect(Vector.fromPolar(r, theta).isEqualTo(v, { absTol: 1e-18 })).toBe(
+      true
+    );
+  });
+
+  test('withLength 保持方向', () => {
+    expect(new Vector(3, 4).withLength(10).toString()).toBe('x:6, y:8');
+    expect(new Vector(3, 4).withLength(-5).toString()).toBe('x:-3, y:-4');
+    expect(new Vector(0, 0).withLength(2).toString()).toBe('x:2, y:0');
+  });
+
+  test('withAngle 保持长度', () => {
+    const v = new Vector(3, 4).withAngle(HALF_PI);
+    expect(v.isEqualTo(new Vector(0, 5), { absTol: 1e-18 })).toBe(true);
+    expect(new Vector(0, 0).withAngle(1).isZero()).toBe(true);
+  });
+
+  test('保持算术体系', () => {
+    const base = new Vector(3, 4).config({ system: 'base' });
+    expect(base.withLength(1).operatorSystem).toBe(BaseOperatorSystem);
+    expect(base.withAngle(1).operatorSystem).toBe(BaseOperatorSystem);
+  });
+});
@@ -0,0 +1,191 @@
+import Vector, { Polygon } from '../src/vector';
+import { BaseOperatorSystem, UNCERTAIN } from '../src/operator-system';
+
+const v = (x, y) => new Vector(x, y);
+const polygon = (...coords: Array<[any, any]>) =>
+  new Polygon(coords.map(([x, y]) => v(x, y)));
+
+// 逆时针的正方形与凹多边形（L 形）
+const square = polygon([0, 0], [2, 0], [2, 2], [0, 2]);
+const ell = polygon([0, 0], [4, 0], [4, 1], [1, 1], [1, 3], [0, 3]);
+
+/* ----------------------------------------------------
+    面积与周长
+----------------------------------------------------- */
+describe('[Polygon] 度量 - signedArea、area、perimeter', () => {
+  test('逆时针为正，顺时针为负', () => {
+    expect(square.signedArea()).toBe('4');
+    expect(square.reverse().signedArea()).toBe('-4');
+    expect(square.reverse().area()).toBe('4');
+    expect(ell.signedArea()).toBe('6');
+  });
+
+  test('BigOperatorSystem 下小数输入的面积精确', () => {
+    const tri = polygon([0, 0], ['0.1', 0], [0, '0.3']);
+    expect(tri.signedArea()).toBe('0.015');
+    const quad = polygon(
+      ['0.1', '0.1'],
+      ['1.7', '0.3'],
+      ['1.9', '2.3'],
+      ['0.3', '1.1']
+    );
+    expect(quad.signedArea()).toBe('2.26');
+    expect(polygon([0, 0], ['0.7', 0], [0, '0.1']).signedArea()).toBe('0.035');
+    // 浮点数计算有误差
+    const base = new Polygon([
+      new Vector(0, 0, 'base'),
+      new Vector(0.7, 0, 'base'),
+      new Vector(0, 0.1, 'base')
+    ]);
+    expect(base.operatorSystem).toBe(BaseOperatorSystem);
+    expect(base.signedArea()).toBe('0.034999999999999996');
+  });
+
+  test('perimeter', () => {
+    expect(square.perimeter()).toBe('8');
+    expect(polygon([0, 0], [3, 0], [0, 4]).perimeter()).toBe('12');
+    expect(ell.perimeter()).toBe('14');
+  });
+
+  test('少于 3 个顶点时面积为 0', () => {
+    expect(new Polygon([]).signedArea()).toBe('0');
+    expect(polygon([1, 1], [3, 3]).area()).toBe('0');
+  });
+});
+
+/* ----------------------------------------------------
+    重心与方向
+----------------------------------------------------- */
+describe('[Polygon] 重心与方向 - centroid、isClockwise、reverse', () => {
+  test('centroid', () => {
+    expect(square.centroid().toString()).toBe('x:1, y:1');
+    expect(square.reverse().centroid().toString()).toBe('x:1, y:1');
+    expect(polygon([0, 0], [3, 0], [0, 3]).centroid().toString()).toBe(
+      'x:1, y:1'
+    );
+    // L 形：两个矩形的面积加权平均
+    expect(ell.centroid().toString()).toBe('x:1.5, y:1');
+  });
+
+  test('没有面积时取顶点的平均值', () => {
+    expect(polygon([0, 0], [2, 2], [4, 4]).centroid().toString()).toBe(
+      'x:2, y:2'
+    );
+    expect(new Polygon([]).centroid().toString()).toBe('x:0, y:0');
+  });
+
+  test('isClockwise、reverse', () => {
+    expect(square.isClockwise()).toBe(false);
+    expect(square.reverse().isClockwise()).toBe(true);
+    expect(square.reverse().vertices.map(String)).toEqual([
+      'x:0, y:2',
+      'x:2, y:2',
+      'x:2, y:0',
+      'x:0, y:0'
+    ]);
+    // reverse 不修改原多边形
+    expect(square.vertices[0].toString()).toBe('x:0, y:0');
+  });
+});
+
+/* ----------------------------------------------------
+    形状判断
+----------------------------------------------------- */
+describe('[Polygon] 形状 - isSimple、isConvex', () => {
+  const bowtie = polygon([0, 0], [2, 2], [2, 0], [0, 2]);
+  const star = polygon([0, 3], [2, -3], [-3, 1], [3, 1], [-2, -3]);
+
+  test('isSimple', () => {
+    expect(square.isSimple()).toBe(true);
+    expect(ell.isSimple()).toBe(true);
+    expect(bowtie.isSimple()).toBe(false);
+    expect(star.isSimple()).toBe(false);
+    // 边折返重叠
+    expect(polygon([0, 0], [2, 0], [1, 0]).isSimple()).toBe(false);
+    // 不相邻的边在顶点相接
+    const pinched = polygon([0, 0], [2, 0], [1, 1], [2, 2], [0, 2], [1, 1]);
+    expect(pinched.isSimple()).toBe(false);
+    expect(polygon([0, 0], [1, 1]).isSimple()).toBe(false);
+  });
+
+  test('isConvex', () => {
+    expect(square.isConvex()).toBe(true);
+    expect(square.reverse().isConvex()).toBe(true);
+    expect(ell.isConvex()).toBe(false);
+    // 五角星每个顶点的转向相同，但不是简单多边形
+    expect(star.isConvex()).toBe(false);
+    // 允许共线的顶点
+    expect(polygon([0, 0], [1, 0], [2, 0], [2, 2]).isConvex()).toBe(true);
+    expect(polygon([0, 0], [1, 1], [2, 2]).isConvex()).toBe(false);
+  });
+});
+
+/* ----------------------------------------------------
+    包含
+----------------------------------------------------- */
+describe('[Polygon] 包含 - contains', () => {
+  test('内部与外部', () => {
+    expect(square.contains(v(1, 1))).toBe(true);
+    expect(square.contains(v(3, 1))).toBe(false);
+    expect(ell.contains(v('0.5', '2.5'))).toBe(true);
+    expect(ell.contains(v(2, 2))).toBe(false);
+    expect(ell.reverse().contains(v(3, '0.5'))).toBe(true);
+  });
+
+  test('边界上的点默认在内部', () => {
+    expect(square.contains(v(2, 1))).toBe(true);
+    expect(square.contains(v(0, 0))).toBe(true);
+    expect(square.contains(v(2, 1), false)).toBe(false);
+    expect(ell.contains(v(1, 2), false)).toBe(false);
+  });
+
+  test('水平线穿过顶点时不重复计数', () => {
+    const diamond = polygon([0, -2], [2, 0], [0, 2], [-2, 0]);
+    expect(diamond.contains(v(-1, 0))).toBe(true);
+    expect(diamond.contains(v(-3, 0))).toBe(false);
+    expect(diamond.contains(v(3, 0))).toBe(false);
+    expect(ell.contains(v(-1, 1))).toBe(false);
+    expect(ell.contains(v('0.5', 1))).toBe(true);
+  });
+
+  test('自交多边形按非零环绕规则', () => {
+    const star = polygon([0, 3], [2, -3], [-3, 1], [3, 1], [-2, -3]);
+    // 中心的环绕数为 2，奇偶规则下会被当作外部
+    expect(star.contains(v(0, 0))).toBe(true);
+    expect(star.contains(v(0, 2))).toBe(true);
+    expect(star.contains(v(2, -2))).toBe(false);
+  });
+
+  test('不同体系的点和顶点先转换到同一体系', () => {
+    // 区间按中点转换成分数
+    const tri = new Polygon([
+      new Vector(0, 0, 'rational'),
+      new Vector('[1, 3]', '[-1, 1]', 'interval'),
+      new Vector(0, '1/2', 'rational')
+    ]);
+    expect(tri.signedArea()).toBe('1/2');
+    expect(tri.centroid().toString()).toBe('x:2/3, y:1/6');
+    expect(tri.contains(new Vector('[0, 1]', '[0, 0.4]', 'interval'))).toBe(
+      true
+    );
+    expect(tri.contains(new Vector('[0, 3]', '[0, 0.5]', 'interval'))).toBe(
+      false
+    );
+  });
+
+  test('区间无法判断点在边的哪一侧时返回 UNCERTAIN', () => {
+    const iv = (x, y) => new Vector(x, y, 'interval');
+    const box = new Polygon([iv(0, 0), iv(2, 0), iv(2, 2), iv(0, 2)]);
+    expect(box.contains(iv(1, 1))).toBe(true);
+    expect(box.contains(iv('[2.5, 3]', 1))).toBe(false);
+    expect(box.contains(iv('[1.9, 2.1]', 1))).toBe(UNCERTAIN);
+    expect(box.contains(iv(1, '[1.9, 2.1]'))).toBe(UNCERTAIN);
+  });
+
+  test('BigOperatorSystem 下判断精确', () => {
+    const tri = polygon([0, 0], ['0.3', 0], [0, '0.3']);
+    expect(tri.contains(v('0.1', '0.2'))).toBe(true);
+    expect(tri.contains(v('0.1', '0.2'), false)).toBe(false);
+    expect(tri.contains(v('0.1', '0.20000000000000000001'))).toBe(false);
+  });
+});
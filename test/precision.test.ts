@@ -0,0 +1,109 @@
+import Vector from '../src/vector';
+import Big from 'big.js';
+import {
+  BigOperatorSystem,
+  createBigOperatorSystem
+} from '../src/operator-system';
+
+const THIRD_20 = '0.33333333333333333333';
+const THIRD_40 = '0.3333333333333333333333333333333333333333';
+
+/* ----------------------------------------------------
+    独立的精度上下文
+----------------------------------------------------- */
+describe('[Big Operator] 精度上下文 - createBigOperatorSystem()', () => {
+  test('默认保留 20 位小数、四舍五入', () => {
+    const system = createBigOperatorSystem();
+    expect(system.name).toBe('BigOperatorSystem');
+    expect(system.divide(1, 3).toString()).toBe(THIRD_20);
+    expect(system.divide(2, 3).toString()).toBe('0.66666666666666666667');
+  });
+
+  test('可以指定小数位数和舍入模式', () => {
+    const system = createBigOperatorSystem({
+      decimalPlaces: 5,
+      roundingMode: 0
+    });
+    expect(system.divide(2, 3).toString()).toBe('0.66666');
+    expect(system.sqrt(2).toString()).toBe('1.41421');
+    expect(system.pi.toString()).toBe('3.14159');
+  });
+
+  test('不受全局 Big.DP、Big.RM 影响', () => {
+    const { DP, RM } = Big;
+    Big.DP = 3;
+    Big.RM = 0;
+    try {
+      expect(BigOperatorSystem.divide(1, 3).toString()).toBe(THIRD_20);
+      expect(createBigOperatorSystem().divide(1, 3).toString()).toBe(THIRD_20);
+    } finally {
+      Big.DP = DP;
+      Big.RM = RM;
+    }
+  });
+
+  test('多个上下文互不影响', () => {
+    const a = createBigOperatorSystem({ decimalPlaces: 40 });
+    const b = createBigOperatorSystem({ decimalPlaces: 2 });
+    expect(a.divide(1, 3).toString()).toBe(THIRD_40);
+    expect(b.divide(1, 3).toString()).toBe('0.33');
+    expect(a.divide(1, 3).toString()).toBe(THIRD_40);
+  });
+
+  test('名称区分不同的上下文，精度等级等于小数位数', () => {
+    const a = createBigOperatorSystem({ decimalPlaces: 40 });
+    const b = createBigOperatorSystem({ decimalPlaces: 2, roundingMode: 0 });
+    expect(a.name).toBe('BigOperatorSystem(dp=40, rm=1)');
+    expect(b.name).toBe('BigOperatorSystem(dp=2, rm=0)');
+    expect(a.precision).toBe(40);
+    expect(BigOperatorSystem.precision).toBe(20);
+  });
+
+  test('不同上下文混合时提升到小数位数更多的上下文，与操作数顺序无关', () => {
+    const precise = Vector.withSystem(
+      createBigOperatorSystem({ decimalPlaces: 40 })
+    );
+    const rough = Vector.withSystem(
+      createBigOperatorSystem({ decimalPlaces: 2 })
+    );
+    const a = precise.create(1, 0);
+    const b = rough.create(0, 1);
+    expect(a.add(b).operatorSystem).toBe(precise.system);
+    expect(b.add(a).operatorSystem).toBe(precise.system);
+    expect(b.add(a).divide(3).x).toBe(THIRD_40);
+  });
+});
+
+/* ----------------------------------------------------
+    withPrecision 作用域
+----------------------------------------------------- */
+describe('[Big Operator] 精度上下文 - Vector.withPrecision()', () => {
+  test('作用域内创建的向量使用指定精度', () => {
+    const x = Vector.withPrecision({ decimalPlaces: 40 }, () => {
+      return new Vector(1, 0).divide(3).x;
+    });
+    expect(x).toBe(THIRD_40);
+  });
+
+  test('作用域结束后恢复默认算术体系', () => {
+    const system = Vector.SYSTEM;
+    const vec = Vector.withPrecision({ decimalPlaces: 40 }, V =>
+      V.create(1, 2)
+    );
+    expect(Vector.SYSTEM).toBe(system);
+    expect(new Vector(1, 0).divide(3).x).toBe(THIRD_20);
+
+    // 作用域内创建的向量及其派生向量保持原来的精度
+    expect(vec.divide(3).x).toBe(THIRD_40);
+  });
+
+  test('fn 抛出异常时同样恢复默认算术体系', () => {
+    const system = Vector.SYSTEM;
+    expect(() =>
+      Vector.withPrecision({ decimalPlaces: 40 }, () => {
+        throw new Error('oops');
+      })
+    ).toThrow('oops');
+    expect(Vector.SYSTEM).toBe(system);
+  });
+});
@@ -0,0 +1,201 @@
+import { Quaternion, Vector3, RotationMatrix3 } from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+const i = new Vector3(1, 0, 0);
+const j = new Vector3(0, 1, 0);
+const k = new Vector3(0, 0, 1);
+
+/* ----------------------------------------------------
+    构造
+----------------------------------------------------- */
+describe('[Quaternion] 构造 - identity、fromAxisAngle、fromEuler', () => {
+  test('构造函数与 identity', () => {
+    expect(new Quaternion(1, 2, 3, 4).toString()).toBe('w:1, x:2, y:3, z:4');
+    expect(new Quaternion().toArray()).toEqual(['0', '0', '0', '0']);
+    expect(Quaternion.identity().toString()).toBe('w:1, x:0, y:0, z:0');
+    const base = Quaternion.identity('base');
+    expect(base.operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('fromAxisAngle 的轴不必是单位向量', () => {
+    const q = Quaternion.fromAxisAngle(new Vector3(0, 0, 5), Math.PI);
+    expect(Number(q.w)).toBeCloseTo(0, 15);
+    expect(Number(q.z)).toBeCloseTo(1, 15);
+    expect(Number(q.length)).toBeCloseTo(1, 15);
+  });
+
+  test('fromEuler 按给定顺序绕固定坐标轴旋转', () => {
+    const half = Math.PI / 2;
+    const xyz = Quaternion.fromEuler(half, 0, half);
+    const v = xyz.rotateVector(j);
+    // 先绕 X 轴：y -> z，再绕 Z 轴：z 不变
+    expect(v.isEqualTo(k, { absTol: 1e-15 })).toBe(true);
+
+    const zyx = Quaternion.fromEuler(half, 0, half, 'ZYX');
+    // 先绕 Z 轴：y -> -x，再绕 X 轴：-x 不变
+    expect(zyx.rotateVector(j).isEqualTo(i.invert(), { absTol: 1e-15 })).toBe(
+      true
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    运算
+----------------------------------------------------- */
+describe('[Quaternion] 运算 - multiply、conjugate、inverse', () => {
+  const a = new Quaternion(1, 2, 3, 4);
+  const b = new Quaternion(5, 6, 7, 8);
+
+  test('Hamilton 乘积不满足交换律', () => {
+    expect(a.multiply(b).toString()).toBe('w:-60, x:12, y:30, z:24');
+    expect(b.multiply(a).toString()).toBe('w:-60, x:20, y:14, z:32');
+    const ii = new Quaternion(0, 1, 0, 0);
+    const jj = new Quaternion(0, 0, 1, 0);
+    expect(ii.multiply(jj).toString()).toBe('w:0, x:0, y:0, z:1');
+    expect(ii.multiply(ii).toString()).toBe('w:-1, x:0, y:0, z:0');
+  });
+
+  test('conjugate、inverse', () => {
+    expect(a.conjugate().toString()).toBe('w:1, x:-2, y:-3, z:-4');
+    expect(a.lengthSq).toBe('30');
+    const one = Quaternion.identity();
+    expect(a.multiply(a.inverse()).isEqualTo(one, { absTol: 1e-18 })).toBe(true);
+    expect(a.inverse().multiply(a).isEqualTo(one, { absTol: 1e-18 })).toBe(true);
+  });
+
+  test('RationalOperatorSystem 下 inverse 结果精确', () => {
+    const r = new Quaternion(1, 2, 3, 4).config({ system: 'rational' });
+    expect(r.inverse().toString()).toBe('w:1/30, x:-1/15, y:-1/10, z:-2/15');
+    expect(r.multiply(r.inverse()).toString()).toBe('w:1, x:0, y:0, z:0');
+  });
+
+  test('normalize', () => {
+    expect(new Quaternion(0, 3, 0, 4).normalize().toString()).toBe(
+      'w:0, x:0.6, y:0, z:0.8'
+    );
+  });
+
+  test('组合旋转：multiply 先应用右侧的旋转', () => {
+    const rx = Quaternion.fromAxisAngle(i, Math.PI / 2);
+    const rz = Quaternion.fromAxisAngle(k, Math.PI / 2);
+    const v = rz.multiply(rx).rotateVector(j);
+    expect(v.isEqualTo(rz.rotateVector(rx.rotateVector(j)), { absTol: 1e-15 })).toBe(
+      true
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    旋转
+----------------------------------------------------- */
+describe('[Quaternion] 旋转 - rotateVector、toMatrix', () => {
+  test('rotateVector', () => {
+    const q = Quaternion.fromAxisAngle(k, Math.PI / 2);
+    expect(q.rotateVector(i).isEqualTo(j, { absTol: 1e-15 })).toBe(true);
+    const r = Quaternion.fromAxisAngle(new Vector3(1, 1, 1), (2 * Math.PI) / 3);
+    // 绕 (1, 1, 1) 旋转 120° 轮换坐标轴
+    expect(r.rotateVector(i).isEqualTo(j, { absTol: 1e-15 })).toBe(true);
+    expect(r.rotateVector(j).isEqualTo(k, { absTol: 1e-15 })).toBe(true);
+  });
+
+  test('toMatrix 与 rotateVector 结果一致', () => {
+    const q = Quaternion.fromEuler(0.3, -1.2, 2.5);
+    const m = q.toMatrix();
+    const v = new Vector3(1, 2, 3);
+    expect(v.transform(m).isEqualTo(q.rotateVector(v), { absTol: 1e-15 })).toBe(
+      true
+    );
+    expect(Number(m.determinant())).toBeCloseTo(1, 15);
+  });
+
+  test('非单位四元数的 toMatrix 仍为旋转矩阵', () => {
+    const m = new Quaternion(0, 0, 0, 2).toMatrix();
+    expect(m.toString()).toBe('[[-1, 0, 0], [0, -1, 0], [0, 0, 1]]');
+  });
+
+  test('toMatrix 返回三维旋转矩阵，不是二维仿射的 Matrix3', () => {
+    const a = Quaternion.fromAxisAngle(k, Math.PI / 2);
+    const b = Quaternion.fromAxisAngle(i, Math.PI / 2);
+    const m = a.toMatrix();
+    expect(RotationMatrix3.isRotationMatrix3(m)).toBe(true);
+    expect(m.apply(i).isEqualTo(j, { absTol: 1e-15 })).toBe(true);
+    // 先 a 后 b，与四元数乘积 b × a 相同
+    const composed = m.compose(b.toMatrix());
+    const v = new Vector3(1, 2, 3);
+    expect(
+      v
+        .transform(composed)
+        .isEqualTo(b.multiply(a).rotateVector(v), { absTol: 1e-15 })
+    ).toBe(true);
+    const inverse = a.inverse().toMatrix();
+    expect(m.transpose().isEqualTo(inverse, { absTol: 1e-15 })).toBe(true);
+    expect(m.compose(m.invert()).isIdentity({ absTol: 1e-15 })).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    插值
+----------------------------------------------------- */
+describe('[Quaternion] 插值 - slerp', () => {
+  const a = Quaternion.identity();
+  const b = Quaternion.fromAxisAngle(k, Math.PI / 2);
+
+  test('端点与中点', () => {
+    expect(a.slerp(b, 0).isEqualTo(a, { absTol: 1e-18 })).toBe(true);
+    expect(a.slerp(b, 1).isEqualTo(b, { absTol: 1e-18 })).toBe(true);
+    const mid = a.slerp(b, 0.5);
+    expect(
+      mid.isEqualTo(Quaternion.fromAxisAngle(k, Math.PI / 4), { absTol: 1e-18 })
+    ).toBe(true);
+    expect(Number(mid.length)).toBeCloseTo(1, 15);
+  });
+
+  test('沿最短路径插值', () => {
+    const far = b.multiply(new Quaternion(-1, 0, 0, 0));
+    const mid = a.slerp(far, 0.5);
+    expect(
+      mid.isEqualTo(Quaternion.fromAxisAngle(k, Math.PI / 4), { absTol: 1e-18 })
+    ).toBe(true);
+  });
+
+  test('相同旋转', () => {
+    expect(b.slerp(b, 0.3).isEqualTo(b)).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    精度
+----------------------------------------------------- */
+describe('[Quaternion] 精度 - BigOperatorSystem 下组合旋转', () => {
+  test('重复组合 36 次 10° 旋转回到原位', () => {
+    const step = Quaternion.fromAxisAngle(new Vector3(1, 2, 3), Math.PI / 18);
+    let q = Quaternion.identity();
+    for (let n = 0; n < 36; n++) {
+      q = step.multiply(q);
+    }
+    const v = new Vector3(4, 5, 6);
+    expect(q.rotateVector(v).isEqualTo(v, { absTol: 1e-15 })).toBe(true);
+  });
+
+  test('BaseOperatorSystem 与 Big 混合时按 Vector.MIXED_POLICY 提升', () => {
+    const base = Quaternion.identity('base');
+    expect(base.multiply(Quaternion.identity()).operatorSystem).toBe(
+      Quaternion.identity().operatorSystem
+    );
+  });
+
+  test('混合体系时另一个操作数先转换到选定的体系', () => {
+    // 绕 (1, 1, 1) 旋转 120°
+    const r = new Quaternion('1/2', '1/2', '1/2', '1/2').config({
+      system: 'rational'
+    });
+    // 区间按中点转换成分数，即单位四元数
+    const i = new Quaternion('[0, 2]', 0, 0, 0).config({ system: 'interval' });
+    expect(r.multiply(i).toString()).toBe('w:1/2, x:1/2, y:1/2, z:1/2');
+    expect(i.multiply(r).toString()).toBe('w:1/2, x:1/2, y:1/2, z:1/2');
+    expect(r.dot(i)).toBe('1/2');
+    expect(i.isEqualTo(Quaternion.identity('rational'))).toBe(true);
+    const v = new Vector3('[0, 2]', 0, 0).config({ system: 'interval' });
+    expect(r.rotateVector(v).toString()).toBe('x:0, y:1, z:0');
+  });
+});
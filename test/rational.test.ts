@@ -0,0 +1,140 @@
+import Vector from '../src/vector';
+import {
+  Rational,
+  RationalOperatorSystem,
+  createRationalOperatorSystem
+} from '../src/operator-system';
+import {
+  IrrationalResultError,
+  InvalidOperandError,
+  UndefinedResultError
+} from '../src/errors';
+
+const RationalVector = Vector.withSystem<Rational>('rational');
+
+/* ----------------------------------------------------
+    创建有理数
+----------------------------------------------------- */
+describe('[Rational Operator] 构造 - create()', () => {
+  const { create } = RationalOperatorSystem;
+
+  test('支持分数字符串，并自动约分', () => {
+    expect(create('3/7').toString()).toBe('3/7');
+    expect(create('6/14').toString()).toBe('3/7');
+    expect(create('2/-4').toString()).toBe('-1/2');
+    expect(create('8/4').toString()).toBe('2');
+  });
+
+  test('支持小数和科学计数法', () => {
+    expect(create(0.1).toString()).toBe('1/10');
+    expect(create('-1.25').toString()).toBe('-5/4');
+    expect(create('1.5e2').toString()).toBe('150');
+    expect(create('2e-3').toString()).toBe('1/500');
+    expect(create('.5').toString()).toBe('1/2');
+  });
+
+  test('无法解析时抛出 InvalidOperandError', () => {
+    expect(() => create('abc')).toThrow(InvalidOperandError);
+    expect(() => create(NaN)).toThrow(InvalidOperandError);
+    expect(() => create('1/0')).toThrow(InvalidOperandError);
+  });
+
+  test('科学计数法的指数过大时抛出 InvalidOperandError', () => {
+    expect(create('1e1000').toString()).toBe('1' + '0'.repeat(1000));
+    expect(() => create('1e1000000')).toThrow(InvalidOperandError);
+    expect(() => create('1e-1000000')).toThrow(InvalidOperandError);
+  });
+
+  test('分子分母为 BigInt', () => {
+    const r = create('3/7');
+    expect(r).toBeInstanceOf(Rational);
+    expect(typeof r.num).toBe('bigint');
+    expect(r.num.toString()).toBe('3');
+    expect(r.den.toString()).toBe('7');
+  });
+});
+
+/* ----------------------------------------------------
+    精确运算
+----------------------------------------------------- */
+describe('[Rational Operator] 四则运算 - 结果精确', () => {
+  const { plus, minus, multiply, divide, abs, equal } = RationalOperatorSystem;
+
+  test('加减乘除', () => {
+    expect(plus('1/3', '1/6').toString()).toBe('1/2');
+    expect(minus(0.1, '1/3').toString()).toBe('-7/30');
+    expect(multiply('2/3', '9/4').toString()).toBe('3/2');
+    expect(divide(1, 3).toString()).toBe('1/3');
+    expect(() => divide(1, 0)).toThrow(UndefinedResultError);
+  });
+
+  test('无定义的结果抛出 UndefinedResultError', () => {
+    const { sqrt, ln } = RationalOperatorSystem;
+    expect(() => sqrt(-4)).toThrow(UndefinedResultError);
+    expect(() => ln(0)).toThrow(UndefinedResultError);
+    expect(() => ln('-1/2')).toThrow(UndefinedResultError);
+  });
+
+  test('0.1 + 0.2 精确等于 0.3', () => {
+    expect(equal(plus(0.1, 0.2), '3/10')).toBeTruthy();
+    expect(abs('-3/10').toString()).toBe('3/10');
+  });
+});
+
+/* ----------------------------------------------------
+    开方与三角函数
+----------------------------------------------------- */
+describe('[Rational Operator] 无理数结果 - sqrt, sin, pi', () => {
+  test('完全平方数开方是精确的', () => {
+    const { sqrt } = RationalOperatorSystem;
+    expect(sqrt('9/16').toString()).toBe('3/4');
+    expect(sqrt(0).toString()).toBe('0');
+  });
+
+  test('默认情况下无理数结果抛出 IrrationalResultError', () => {
+    const { sqrt, sin } = RationalOperatorSystem;
+    expect(() => sqrt(2)).toThrow(IrrationalResultError);
+    expect(() => sin(1)).toThrow(IrrationalResultError);
+    expect(() => RationalOperatorSystem.pi).toThrow(IrrationalResultError);
+    expect(sin(0).toString()).toBe('0');
+  });
+
+  test('配置近似精度后返回近似值', () => {
+    const system = createRationalOperatorSystem({ decimalPlaces: 10 });
+    const { equal, create } = system;
+    expect(equal(system.sqrt(2), create('1.4142135624'))).toBeTruthy();
+    expect(equal(system.pi, create('3.1415926536'))).toBeTruthy();
+    expect(system.atan2(1, 0).toString()).toBe(
+      system.divide(system.pi, 2).toString()
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    向量运算
+----------------------------------------------------- */
+describe('[Rational Operator] 向量运算 - 坐标精确', () => {
+  test('divide 得到精确的分数', () => {
+    const a = RationalVector.create(1, 2).divide(3);
+    expect(a.toString()).toBe('x:1/3, y:2/3');
+    expect(a.operatorSystem.name).toBe('RationalOperatorSystem');
+  });
+
+  test('projectOnto 得到精确的分数', () => {
+    const a = RationalVector.create(1, 0);
+    const b = RationalVector.create(1, 2);
+    expect(a.projectOnto(b).toString()).toBe('x:1/5, y:2/5');
+  });
+
+  test('cosAngleBetween 在长度为有理数时精确', () => {
+    const a = RationalVector.create(3, 4);
+    const b = RationalVector.create(4, 3);
+    expect(a.cosAngleBetween(b)).toBe('24/25');
+  });
+
+  test('字符串坐标可以往返', () => {
+    const a = RationalVector.create('3/7', '-1/3');
+    const b = RationalVector.fromArray(a.toArray());
+    expect(b.isEqualTo(a)).toBeTruthy();
+  });
+});
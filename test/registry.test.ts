@@ -0,0 +1,102 @@
+import Vector from '../src/vector';
+import {
+  BaseOperatorSystem,
+  BigOperatorSystem,
+  missingMembers
+} from '../src/operator-system';
+import { UnknownSystemError, InvalidSystemError } from '../src/errors';
+
+// 基于基础算术体系包装一个自定义体系，模拟第三方实现
+const CustomOperatorSystem = Object.assign({}, BaseOperatorSystem, {
+  name: 'CustomOperatorSystem'
+});
+
+/* ----------------------------------------------------
+    注册与查询
+----------------------------------------------------- */
+describe('[Registry] 注册算术体系 - registerSystem, listSystems', () => {
+  afterEach(() => {
+    Vector.unregisterSystem('custom');
+  });
+
+  test('内置算术体系已注册', () => {
+    expect(Vector.listSystems()).toEqual(
+      expect.arrayContaining(['base', 'big', 'rational', 'interval'])
+    );
+  });
+
+  test('注册后可以通过名字选择', () => {
+    Vector.registerSystem('custom', CustomOperatorSystem);
+    expect(Vector.listSystems()).toContain('custom');
+
+    const a = new Vector(1, 2).config({ system: 'custom' });
+    expect(a.operatorSystem).toBe(CustomOperatorSystem);
+    expect(a.add(1).operatorSystem.name).toBe(
+      'CustomOperatorSystem'
+    );
+    expect(Vector.withSystem('custom').system).toBe(CustomOperatorSystem);
+  });
+
+  test('重复注册会替换原来的实现', () => {
+    Vector.registerSystem('custom', CustomOperatorSystem);
+    Vector.registerSystem('custom', BigOperatorSystem);
+    expect(Vector.withSystem('custom').system).toBe(BigOperatorSystem);
+  });
+});
+
+describe('[Registry] 注销算术体系 - unregisterSystem', () => {
+  test('注销后无法再通过名字选择', () => {
+    Vector.registerSystem('custom', CustomOperatorSystem);
+    expect(Vector.unregisterSystem('custom')).toBe(true);
+    expect(Vector.listSystems()).not.toContain('custom');
+    expect(Vector.unregisterSystem('custom')).toBe(false);
+  });
+});
+
+/* ----------------------------------------------------
+    校验与错误
+----------------------------------------------------- */
+describe('[Registry] 校验 - 缺少成员、未知名字', () => {
+  test('缺少必要成员时抛出 InvalidSystemError', () => {
+    const broken: any = Object.assign({}, BaseOperatorSystem);
+    delete broken.sqrt;
+    delete broken.pi;
+    expect(missingMembers(broken)).toEqual(['sqrt', 'pi']);
+    expect(() => Vector.registerSystem('broken', broken)).toThrow(
+      InvalidSystemError
+    );
+    expect(() => Vector.registerSystem('broken', null as any)).toThrow(
+      InvalidSystemError
+    );
+    expect(Vector.listSystems()).not.toContain('broken');
+  });
+
+  test('未知名字抛出 UnknownSystemError，不再回退到默认体系', () => {
+    const a = new Vector(1, 2);
+    expect(() => a.config({ system: 'decimal' })).toThrow(UnknownSystemError);
+    expect(() => a.config({ system: 'decimal' })).toThrow(/decimal/);
+    expect(() => Vector.withSystem('decimal')).toThrow(UnknownSystemError);
+  });
+});
+
+/* ----------------------------------------------------
+    运行环境
+----------------------------------------------------- */
+describe('[Registry] 运行环境 - 没有 BigInt', () => {
+  const { BigInt } = global as any;
+
+  afterEach(() => {
+    (global as any).BigInt = BigInt;
+    jest.resetModules();
+  });
+
+  test('仍能加载，只是不注册分数与定点数体系', () => {
+    delete (global as any).BigInt;
+    jest.resetModules();
+    const NoBigIntVector = require('../src/vector').default;
+    expect(NoBigIntVector.listSystems()).toEqual(['base', 'big', 'interval']);
+    const a = new NoBigIntVector(0.1, 0.2);
+    expect(a.add(new NoBigIntVector(0.2, 0.1)).toString()).toBe('x:0.3, y:0.3');
+    expect(() => a.config({ system: 'rational' })).toThrow(/rational/);
+  });
+});
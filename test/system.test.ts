@@ -0,0 +1,75 @@
+import Vector from '../src/vector';
+import * as Chance from 'chance';
+import { BaseOperatorSystem, BigOperatorSystem } from '../src/operator-system';
+
+const chance = new Chance();
+
+/* ----------------------------------------------------
+    派生向量继承算术体系
+----------------------------------------------------- */
+describe('[Operator System] 派生向量 - 保持实例的算术体系', () => {
+  let a, b, int1, int2, int3, int4;
+  beforeEach(() => {
+    int1 = chance.integer({ min: -100, max: 100 });
+    int2 = chance.integer({ min: -100, max: 100 });
+    int3 = chance.integer({ min: 1, max: 100 });
+    int4 = chance.integer({ min: 1, max: 100 });
+    a = new Vector(int1, int2);
+    a.config({ system: 'base' });
+    b = new Vector(int3, int4).config({ system: 'base' });
+  });
+
+  test('config 方法支持链式调用', () => {
+    expect(new Vector(1, 2).config({ system: 'base' }).operatorSystem).toBe(
+      BaseOperatorSystem
+    );
+  });
+
+  test('链式操作后仍然使用实例的算术体系', () => {
+    const result = a.add(b).normalize();
+    expect(result.operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.subtract(b).operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.multiply(2).operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.divide(b).operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.invert().operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.rotate(Math.PI).operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(a.projectOnto(b).operatorSystem.name).toBe('BaseOperatorSystem');
+  });
+
+  test('不影响全局默认算术体系', () => {
+    expect(Vector.SYSTEM).toBe(BigOperatorSystem);
+    expect(new Vector(1, 2).add(3).operatorSystem.name).toBe(
+      'BigOperatorSystem'
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    withSystem 工厂
+----------------------------------------------------- */
+describe('[Operator System] 静态方法 - withSystem()', () => {
+  test('通过名字创建绑定算术体系的工厂', () => {
+    const BaseVector = Vector.withSystem('base');
+    expect(BaseVector.system).toBe(BaseOperatorSystem);
+    const a = BaseVector.create(1, 2);
+    expect(a).toBeInstanceOf(Vector);
+    expect(a.operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(BaseVector.fromArray([1, 2]).operatorSystem.name).toBe(
+      'BaseOperatorSystem'
+    );
+    expect(BaseVector.fromObject({ x: 1, y: 2 }).operatorSystem.name).toBe(
+      'BaseOperatorSystem'
+    );
+  });
+
+  test('两种算术体系可以同时存在', () => {
+    const BaseVector = Vector.withSystem(BaseOperatorSystem);
+    const BigVector = Vector.withSystem(BigOperatorSystem);
+    const a = BaseVector.create(0.1, 0.2).add(BaseVector.create(0.2, 0.1));
+    const b = BigVector.create(0.1, 0.2).add(BigVector.create(0.2, 0.1));
+    expect(a.x).toBe((0.1 + 0.2).toString());
+    expect(b.x).toBe('0.3');
+    expect(a.operatorSystem.name).toBe('BaseOperatorSystem');
+    expect(b.operatorSystem.name).toBe('BigOperatorSystem');
+  });
+});
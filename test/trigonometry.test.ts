@@ -0,0 +1,88 @@
+import Vector from '../src/vector';
+import { BaseOperatorSystem, BigOperatorSystem } from '../src/operator-system';
+import { radian2degree, degree2radian } from '../src/util';
+
+// 20 位小数精度下的参考值
+const PI = '3.14159265358979323846';
+const QUARTER_PI = '0.78539816339744830962';
+const HALF_PI = '1.57079632679489661923';
+
+/* ----------------------------------------------------
+    大数算术体系的三角函数
+----------------------------------------------------- */
+describe('[Big Operator] 三角函数 - sin, cos, atan2, acos, pi', () => {
+  const { sin, cos, atan2, acos, pi, divide } = BigOperatorSystem;
+
+  test('pi 保留 20 位小数', () => {
+    expect(pi.toString()).toBe(PI);
+  });
+
+  test('sin、cos 的特殊角', () => {
+    expect(sin(0).toString()).toBe('0');
+    expect(cos(0).toString()).toBe('1');
+    expect(sin(divide(pi, 6)).toString()).toBe('0.5');
+    expect(cos(divide(pi, 3)).toString()).toBe('0.5');
+    expect(sin(divide(pi, 2)).toString()).toBe('1');
+  });
+
+  test('大角度参数会先规约再计算', () => {
+    expect(sin(100).toString().slice(0, 15)).toBe(
+      Math.sin(100)
+        .toString()
+        .slice(0, 15)
+    );
+  });
+
+  test('atan2 的象限与 Math.atan2 一致', () => {
+    expect(atan2(1, 1).toString()).toBe(QUARTER_PI);
+    expect(atan2(-1, -1).toString()).toBe('-2.35619449019234492885');
+    expect(atan2(1, 0).toString()).toBe(HALF_PI);
+    expect(atan2(0, -1).toString()).toBe(PI);
+    expect(atan2(0, 0).toString()).toBe('0');
+  });
+
+  test('acos 的取值范围为 [0, PI]', () => {
+    expect(acos(1).toString()).toBe('0');
+    expect(acos(0).toString()).toBe(HALF_PI);
+    expect(acos(-1).toString()).toBe(PI);
+    expect(() => acos('1.1')).toThrow();
+  });
+});
+
+/* ----------------------------------------------------
+    向量角度相关方法使用算术体系的三角函数
+----------------------------------------------------- */
+describe('[Big Operator] 三角函数 - 向量角度保持精度', () => {
+  test('angle、verticalAngle 保留 20 位小数', () => {
+    expect(new Vector(1, 1).angle).toBe(QUARTER_PI);
+    expect(new Vector(1, 1).verticalAngle).toBe(QUARTER_PI);
+    // 弧度本身已舍入到 20 位小数，转换成角度后误差在最后几位
+    expect(new Vector(1, 1).angleDegree).toMatch(/^45\.0{17}/);
+  });
+
+  test('angleBetween 保留 20 位小数', () => {
+    expect(new Vector(1, 0).angleBetween(new Vector(1, 1))).toBe(QUARTER_PI);
+    expect(new Vector(1, 1).angleBetween(new Vector(1, 1))).toBe('0');
+  });
+
+  test('rotate 旋转特殊角得到精确值', () => {
+    expect(new Vector(1, 0).rotateDegree(90).toString()).toBe('x:0, y:1');
+    expect(
+      new Vector(1, 0).rotate(BigOperatorSystem.pi).toString()
+    ).toBe('x:-1, y:0');
+  });
+});
+
+/* ----------------------------------------------------
+    角度弧度转换使用算术体系的 pi
+----------------------------------------------------- */
+describe('[Util] 实用功能 - 使用算术体系转换角度', () => {
+  test('大数体系下的转换', () => {
+    expect(radian2degree(HALF_PI, BigOperatorSystem)).toBe('90');
+    expect(degree2radian(180, BigOperatorSystem).toString()).toBe(PI);
+  });
+  test('基础体系下的转换', () => {
+    expect(radian2degree(Math.PI, BaseOperatorSystem)).toBe('180');
+    expect(degree2radian(90, BaseOperatorSystem)).toBe(Math.PI / 2);
+  });
+});
@@ -0,0 +1,191 @@
+import Vector, {
+  FrozenVectorError,
+  MutableVector,
+  VectorMap,
+  VectorSet
+} from '../src/vector';
+import {
+  BaseOperatorSystem,
+  createBigOperatorSystem
+} from '../src/operator-system';
+
+/* ----------------------------------------------------
+    冻结
+----------------------------------------------------- */
+describe('[Vector] 冻结 - freeze、Vector.FROZEN', () => {
+  afterEach(() => {
+    Vector.FROZEN = false;
+  });
+
+  test('默认不冻结', () => {
+    const vec = new Vector(1, 2);
+    expect(vec.isFrozen()).toBe(false);
+    vec.x = 3;
+    expect(vec.toString()).toBe('x:3, y:2');
+  });
+
+  test('freeze 后不能修改', () => {
+    const vec = new Vector(1, 2).freeze();
+    expect(vec.isFrozen()).toBe(true);
+    expect(() => {
+      vec.x = 3;
+    }).toThrow(FrozenVectorError);
+    // 非严格模式下直接写入内部的值被忽略
+    vec._y = 3;
+    expect(vec.toString()).toBe('x:1, y:2');
+  });
+
+  test('config 返回绑定到新体系的副本', () => {
+    const vec = new Vector(1, 2).freeze();
+    const base = vec.config({ system: 'base' });
+    expect(base).not.toBe(vec);
+    expect(base.operatorSystem).toBe(BaseOperatorSystem);
+    expect(vec.operatorSystem).toBe(Vector.SYSTEM);
+  });
+
+  test('Vector.FROZEN 冻结所有新建的向量', () => {
+    Vector.FROZEN = true;
+    const vec = new Vector(1, 2);
+    expect(vec.isFrozen()).toBe(true);
+    expect(vec.add(new Vector(3, 4)).isFrozen()).toBe(true);
+    const base = Vector.withSystem('base').create(1, 2);
+    expect(base.isFrozen()).toBe(true);
+    expect(base.operatorSystem).toBe(BaseOperatorSystem);
+    expect(vec.config({ system: 'base' }).rotate(1).isFrozen()).toBe(true);
+  });
+
+  test('MutableVector 不会被冻结', () => {
+    Vector.FROZEN = true;
+    const mut = new Vector(1, 2).mut();
+    expect(mut.isFrozen()).toBe(false);
+    mut.addInPlace(new Vector(1, 1));
+    expect(mut.toString()).toBe('x:2, y:3');
+    const frozen = mut.freeze();
+    expect(MutableVector.isMutableVector(frozen)).toBe(false);
+    expect(frozen.isFrozen()).toBe(true);
+    expect(mut.isFrozen()).toBe(false);
+  });
+});
+
+/* ----------------------------------------------------
+    hashKey
+----------------------------------------------------- */
+describe('[Vector] 哈希 - hashKey', () => {
+  test('相同的值得到相同的键', () => {
+    expect(new Vector(1, 2).hashKey()).toBe('1,2');
+    expect(new Vector('1.0', '2.50').hashKey()).toBe('1,2.5');
+    expect(new Vector('-0', '1e-7').hashKey()).toBe('0,0.0000001');
+    expect(new Vector('1e21', 0).hashKey()).toBe('1000000000000000000000,0');
+  });
+
+  test('与算术体系无关', () => {
+    const key = new Vector(0.5, -3).hashKey();
+    ['base', 'big', 'fixed', 'rational', 'interval'].forEach(system => {
+      const vec = new Vector(0.5, -3, system).add(new Vector(0, 0, system));
+      expect(vec.hashKey()).toBe(key);
+    });
+    const third = new Vector(1, 0, 'rational').divide(3);
+    expect(third.hashKey()).toBe('0.33333333333333333333,0');
+  });
+
+  test('不同体系算出的同一个商得到相同的键', () => {
+    const key = '0.66666666666666666667,-0.66666666666666666667';
+    ['big', 'rational'].forEach(system => {
+      const vec = new Vector(2, -2, system).divide(3);
+      expect(vec.hashKey()).toBe(key);
+    });
+    const precise = createBigOperatorSystem({ decimalPlaces: 40 });
+    expect(new Vector(2, -2, precise).divide(3).hashKey()).toBe(key);
+    const map = new VectorMap<string>();
+    map.set(new Vector(2, -2, 'rational').divide(3), 'two thirds');
+    expect(map.get(new Vector(2, -2, 'big').divide(3))).toBe('two thirds');
+  });
+
+  test('不同的值得到不同的键', () => {
+    expect(new Vector(1, 2).hashKey()).not.toBe(new Vector(2, 1).hashKey());
+    expect(new Vector(12, 3).hashKey()).not.toBe(new Vector(1, 23).hashKey());
+    const sum = new Vector(0.1, 0, 'base').add(new Vector(0.2, 0, 'base'));
+    expect(sum.hashKey()).toBe('0.30000000000000004,0');
+  });
+
+  test('非有限值保持原样', () => {
+    const vec = new Vector(1, -1, 'base').divide(0);
+    expect(vec.hashKey()).toBe('Infinity,-Infinity');
+    expect(new Vector('NaN', 0, 'base').hashKey()).toBe('NaN,0');
+  });
+});
+
+/* ----------------------------------------------------
+    VectorMap、VectorSet
+----------------------------------------------------- */
+describe('[VectorMap] 按值作为键', () => {
+  test('get、set、has、delete', () => {
+    const map = new VectorMap<string>([[new Vector(0, 0), 'origin']]);
+    const key = new Vector('0.0', 0, 'base');
+    expect(map.has(key)).toBe(true);
+    expect(map.get(key)).toBe('origin');
+    expect(map.get(new Vector(1, 0))).toBeUndefined();
+
+    map.set(new Vector(1, 0), 'a').set(new Vector('1.00', 0), 'b');
+    expect(map.size).toBe(2);
+    expect(map.get(new Vector(1, 0, 'rational'))).toBe('b');
+
+    expect(map.delete(key)).toBe(true);
+    expect(map.delete(key)).toBe(false);
+    expect(map.size).toBe(1);
+    map.clear();
+    expect(map.size).toBe(0);
+    expect(map.has(new Vector(1, 0))).toBe(false);
+  });
+
+  test('遍历保持插入顺序，保留最先插入的键', () => {
+    const first = new Vector(2, 1);
+    const map = new VectorMap<number>();
+    map
+      .set(first, 1)
+      .set(new Vector(-1, 3), 2)
+      .set(new Vector('2.0', 1), 3);
+    expect(map.keys()[0]).toBe(first);
+    expect(map.keys().map(String)).toEqual(['x:2, y:1', 'x:-1, y:3']);
+    expect(map.values()).toEqual([3, 2]);
+    expect(map.entries().map(([vec, n]) => vec.x + '=' + n)).toEqual([
+      '2=3',
+      '-1=2'
+    ]);
+    const seen: number[] = [];
+    map.forEach((n, vec, m) => {
+      expect(m).toBe(map);
+      seen.push(n);
+    });
+    expect(seen).toEqual([3, 2]);
+  });
+});
+
+describe('[VectorSet] 按值去重', () => {
+  test('add、has、delete', () => {
+    const set = new VectorSet([
+      new Vector(1, 2),
+      new Vector('1.0', 2, 'base'),
+      new Vector(3, 4)
+    ]);
+    expect(set.size).toBe(2);
+    expect(set.values().map(String)).toEqual(['x:1, y:2', 'x:3, y:4']);
+    expect(set.has(new Vector(3, '4.0'))).toBe(true);
+    expect(set.add(new Vector(3, 4))).toBe(set);
+    expect(set.size).toBe(2);
+    expect(set.delete(new Vector(1, 2))).toBe(true);
+    expect(set.values().map(String)).toEqual(['x:3, y:4']);
+    set.clear();
+    expect(set.size).toBe(0);
+  });
+
+  test('保留最先加入的向量，结果经过运算的点同样去重', () => {
+    const a = new Vector(1, 0);
+    const set = new VectorSet().add(a).add(new Vector(0, 1));
+    set.add(new Vector(0.5, 0).multiply(2)).add(new Vector(1, 1).subtractX(1));
+    expect(set.size).toBe(2);
+    const visited: Array<Vector<any>> = [];
+    set.forEach(vec => visited.push(vec as Vector<any>));
+    expect(visited[0]).toBe(a);
+  });
+});
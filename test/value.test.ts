@@ -0,0 +1,58 @@
+import Big from 'big.js';
+import Vector from '../src/vector';
+import { Rational, FixedPoint } from '../src/operator-system';
+
+/* ----------------------------------------------------
+    返回原生类型的访问器
+----------------------------------------------------- */
+describe('[Vector] 类型 - xValue、lengthValue()、dotValue()', () => {
+  test('BigOperatorSystem 返回 Big', () => {
+    const vec = new Vector<Big>(3, 4);
+    expect(vec.xValue).toBeInstanceOf(Big);
+    expect(vec.xValue.plus(1).toString()).toBe('4');
+    expect(vec.lengthValue()).toBeInstanceOf(Big);
+    expect(vec.lengthValue().eq(5)).toBe(true);
+    expect(vec.dotValue(new Vector(1, 1)).toString()).toBe('7');
+  });
+
+  test('BaseOperatorSystem 返回 number', () => {
+    const vec = Vector.withSystem<number>('base').create(3, 4);
+    expect(vec.yValue).toBe(4);
+    expect(vec.lengthValue() + 1).toBe(6);
+    expect(vec.lengthSqValue()).toBe(25);
+    expect(vec.crossValue(Vector.withSystem<number>('base').create(1, 0))).toBe(
+      -4
+    );
+    expect(vec.angleValue()).toBe(Math.atan2(4, 3));
+  });
+
+  test('其他算术体系返回各自的类型', () => {
+    const r = Vector.withSystem<Rational>('rational').create(1, 2);
+    expect(r.xValue).toBeInstanceOf(Rational);
+    expect(r.divide(3).yValue.toString()).toBe('2/3');
+    const f = Vector.withSystem<FixedPoint>('fixed').create(0.5, 0);
+    expect(f.lengthValue()).toBeInstanceOf(FixedPoint);
+  });
+
+  test('与字符串版本的结果一致', () => {
+    const a = new Vector(1, 2);
+    const b = new Vector(4, -2);
+    expect(a.lengthSqValue().toString()).toBe(a.lengthSq);
+    expect(a.angleDegreeValue().toString()).toBe(a.angleDegree);
+    expect(a.verticalAngleValue().toString()).toBe(a.verticalAngle);
+    expect(a.verticalAngleDegreeValue().toString()).toBe(a.verticalAngleDegree);
+    expect(a.cosAngleBetweenValue(b).toString()).toBe(a.cosAngleBetween(b));
+    expect(a.angleBetweenValue(b).toString()).toBe(a.angleBetween(b));
+    expect(a.distanceXValue(b).toString()).toBe('-3');
+    expect(a.absDistanceXValue(b).toString()).toBe('3');
+    expect(a.distanceYValue(b).toString()).toBe('4');
+    expect(a.absDistanceYValue(b).toString()).toBe('4');
+    expect(a.distanceSqValue(b).toString()).toBe('25');
+    expect(a.distanceValue(b).toString()).toBe(a.distance(b));
+  });
+
+  test('不同算术体系混合时返回提升后的类型', () => {
+    const base = new Vector(1, 2).config({ system: 'base' });
+    expect(base.dotValue(new Vector(3, 4))).toBeInstanceOf(Big);
+  });
+});
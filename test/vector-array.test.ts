@@ -0,0 +1,127 @@
+import Vector, {
+  VectorArray,
+  Matrix2,
+  Matrix3,
+  DimensionMismatchError
+} from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+const base = Vector.withSystem<number>('base');
+
+// 带有小数、负数与零向量的样本
+const samples = [
+  base.create(1, 2),
+  base.create(-3.5, 0.25),
+  base.create(0.1, 0.2),
+  base.create(1e-8, -7),
+  base.create(0, 0)
+];
+const points = VectorArray.fromVectors(samples);
+
+// 与逐个调用 Vector 方法的结果逐位比较
+const expectSame = (arr: VectorArray, vectors: Array<Vector<number>>) => {
+  expect(arr.length).toBe(vectors.length);
+  vectors.forEach((vec, i) => {
+    expect(arr.get(i).toString()).toBe(vec.toString());
+  });
+};
+
+/* ----------------------------------------------------
+    构造与访问
+----------------------------------------------------- */
+describe('[VectorArray] 构造 - fromVectors、fromArray、get', () => {
+  test('get 返回基础体系的 Vector', () => {
+    const vec = points.get(1);
+    expect(vec).toBeInstanceOf(Vector);
+    expect(vec.operatorSystem).toBe(BaseOperatorSystem);
+    expect(vec.toString()).toBe('x:-3.5, y:0.25');
+  });
+
+  test('fromArray 使用交错的坐标', () => {
+    const arr = VectorArray.fromArray([1, 2, 3, 4, 5, 6]);
+    expect(arr.length).toBe(3);
+    expect(arr.get(2).toString()).toBe('x:5, y:6');
+    expect(arr.set(0, 7, 8).toVectors().map(String)).toEqual([
+      'x:7, y:8',
+      'x:3, y:4',
+      'x:5, y:6'
+    ]);
+  });
+
+  test('构造函数', () => {
+    expect(new VectorArray(3).get(2).toString()).toBe('x:0, y:0');
+    const xs = new Float64Array([1, 2]);
+    expect(new VectorArray(xs, new Float64Array([3, 4])).xs).toBe(xs);
+    expect(() => new VectorArray(xs, new Float64Array(3))).toThrow(
+      DimensionMismatchError
+    );
+  });
+});
+
+/* ----------------------------------------------------
+    批量运算与逐个 Vector 运算的结果一致
+----------------------------------------------------- */
+describe('[VectorArray] 批量运算 - 结果与 Vector 一致', () => {
+  const other = VectorArray.fromVectors(samples.map(v => v.rotate(0.3)));
+
+  test('add、subtract', () => {
+    expectSame(points.add(other), samples.map((v, i) => v.add(other.get(i))));
+    expectSame(points.add(0.1), samples.map(v => v.add(0.1)));
+    const offset = base.create(0.3, -0.7);
+    expectSame(points.add(offset), samples.map(v => v.add(offset)));
+    expectSame(
+      points.subtract(other),
+      samples.map((v, i) => v.subtract(other.get(i)))
+    );
+    expectSame(points.subtract(offset), samples.map(v => v.subtract(offset)));
+    expect(() => points.add(new VectorArray(2))).toThrow(
+      DimensionMismatchError
+    );
+  });
+
+  test('scale', () => {
+    expectSame(points.scale(0.3), samples.map(v => v.multiply(0.3)));
+    expectSame(
+      points.scale(2, -1),
+      samples.map(v => v.multiply(base.create(2, -1)))
+    );
+  });
+
+  test('rotate、normalize', () => {
+    expectSame(points.rotate(1.1), samples.map(v => v.rotate(1.1)));
+    expectSame(points.normalize(), samples.map(v => v.normalize()));
+    // 零向量的结果为 (0, 0)，而不是 NaN
+    expect(Array.from(points.normalize().xs).slice(-1)).toEqual([0]);
+  });
+
+  test('dot、lengths', () => {
+    const dots = points.dot(other);
+    samples.forEach((v, i) => {
+      expect(String(dots[i])).toBe(v.dot(other.get(i)));
+    });
+    const axis = base.create(0.6, 0.8);
+    const projected = points.dot(axis);
+    samples.forEach((v, i) => expect(String(projected[i])).toBe(v.dot(axis)));
+    const lengths = points.lengths();
+    samples.forEach((v, i) => expect(String(lengths[i])).toBe(v.length));
+  });
+
+  test('transform', () => {
+    const m2 = Matrix2.rotation(0.7, 'base');
+    expectSame(points.transform(m2), samples.map(v => v.transform(m2)));
+    const m3 = Matrix3.translation(0.1, -2, 'base').compose(
+      Matrix3.scaling(3, 0.5, 'base')
+    );
+    expectSame(points.transform(m3), samples.map(v => v.transform(m3)));
+  });
+
+  test('map', () => {
+    const mapped = points.map((v, i) => v.rotateDegree(i * 10));
+    expectSame(mapped, samples.map((v, i) => v.rotateDegree(i * 10)));
+  });
+
+  test('批量运算不修改原数组', () => {
+    points.add(1).scale(2).rotate(1);
+    expectSame(points, samples);
+  });
+});
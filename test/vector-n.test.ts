@@ -0,0 +1,125 @@
+import Vector, { VectorN, DimensionMismatchError } from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+/* ----------------------------------------------------
+    构造
+----------------------------------------------------- */
+describe('[VectorN] 构造 - 创建', () => {
+  test('由数组创建，维度任意', () => {
+    const vec = new VectorN([1, 2, 3, 4]);
+    expect(vec.dimension).toBe(4);
+    expect(vec.get(2)).toBe('3');
+    expect(vec.toString()).toBe('(1, 2, 3, 4)');
+    expect(VectorN.fromArray([5, 6]).toArray()).toEqual(['5', '6']);
+    expect(VectorN.zeros(512).dimension).toBe(512);
+    expect(VectorN.zeros(3).isZero()).toBe(true);
+  });
+
+  test('算术体系可以配置与转换', () => {
+    const vec = new VectorN([0.1, 0.2]).config({ system: 'base' });
+    expect(vec.operatorSystem).toBe(BaseOperatorSystem);
+    expect(vec.add(vec).operatorSystem).toBe(BaseOperatorSystem);
+    expect(vec.convertTo('rational').toString()).toBe('(1/10, 1/5)');
+  });
+});
+
+/* ----------------------------------------------------
+    运算
+----------------------------------------------------- */
+describe('[VectorN] 操作 - 运算', () => {
+  const a = new VectorN([1, 2, 3, 4]);
+  const b = new VectorN([4, 3, 2, 1]);
+
+  test('加减乘除支持向量与数值', () => {
+    expect(a.add(b).toString()).toBe('(5, 5, 5, 5)');
+    expect(a.subtract(1).toString()).toBe('(0, 1, 2, 3)');
+    expect(a.multiply(b).toString()).toBe('(4, 6, 6, 4)');
+    expect(a.divide(2).toString()).toBe('(0.5, 1, 1.5, 2)');
+    expect(a.invert().toString()).toBe('(-1, -2, -3, -4)');
+    expect(a.toString()).toBe('(1, 2, 3, 4)');
+  });
+
+  test('点积、长度、单位化、距离', () => {
+    expect(a.dot(b)).toBe('20');
+    expect(new VectorN([1, 1, 1, 1]).length).toBe('2');
+    expect(new VectorN([2, 2, 2, 2]).normalize().toString()).toBe(
+      '(0.5, 0.5, 0.5, 0.5)'
+    );
+    expect(a.distanceSq(b)).toBe('20');
+    expect(new VectorN([0, 0, 0, 0]).distance(new VectorN([1, 1, 1, 1]))).toBe(
+      '2'
+    );
+  });
+
+  test('projectOnto、angleBetween', () => {
+    const e = new VectorN([0, 0, 0, 2]);
+    expect(a.projectOnto(e).toString()).toBe('(0, 0, 0, 4)');
+    expect(Number(e.angleBetween(new VectorN([1, 0, 0, 0])))).toBeCloseTo(
+      Math.PI / 2,
+      15
+    );
+    expect(Number(a.angleBetween(a.multiply(3)))).toBeCloseTo(0, 9);
+  });
+
+  test('高维向量的精度由算术体系保证', () => {
+    const values: number[] = [];
+    for (let i = 0; i < 512; i++) {
+      values.push(0.1);
+    }
+    const vec = new VectorN(values);
+    expect(vec.dot(new VectorN(values.map(() => 1)))).toBe('51.2');
+  });
+
+  test('isEqualTo 支持容差', () => {
+    expect(a.isEqualTo(new VectorN([1, 2, 3, 4]))).toBe(true);
+    expect(a.isEqualTo(b)).toBe(false);
+    expect(a.isEqualTo(a.add(1e-12), { absTol: 1e-9 })).toBe(true);
+    expect(new VectorN([1e-12, 0]).isZero(1e-9)).toBe(true);
+  });
+
+  test('混合体系时另一个操作数先转换到选定的体系', () => {
+    const r = new VectorN(['1/2', '1/2', 0, 1]).config({ system: 'rational' });
+    // 区间按中点 (2, 0, 2, 2) 转换成分数
+    const i = new VectorN(['[1, 3]', '[-1, 1]', '[1, 3]', 2]).config({
+      system: 'interval'
+    });
+    expect(r.add(i).toString()).toBe('(5/2, 1/2, 2, 3)');
+    expect(i.add(r).toString()).toBe('(5/2, 1/2, 2, 3)');
+    expect(r.dot(i)).toBe('3');
+    expect(r.projectOnto(i).toString()).toBe('(1/2, 0, 1/2, 1/2)');
+    expect(i.distanceSq(r)).toBe('15/2');
+    const same = new VectorN([0.5, 0.5, 0, 1]).config({ system: 'interval' });
+    expect(r.isEqualTo(same)).toBe(true);
+  });
+});
+
+/* ----------------------------------------------------
+    维度不一致
+----------------------------------------------------- */
+describe('[VectorN] 异常 - 维度不一致', () => {
+  const a = new VectorN([1, 2, 3]);
+  const b = new VectorN([1, 2]);
+
+  test('二元运算抛出 DimensionMismatchError', () => {
+    expect(() => a.add(b)).toThrow(DimensionMismatchError);
+    expect(() => a.dot(b)).toThrow(DimensionMismatchError);
+    expect(() => a.distance(b)).toThrow(DimensionMismatchError);
+    expect(() => a.isEqualTo(b)).toThrow(DimensionMismatchError);
+  });
+
+  test('异常带有期望与实际维度', () => {
+    try {
+      a.projectOnto(b);
+    } catch (e) {
+      expect(e).toBeInstanceOf(DimensionMismatchError);
+      expect(e.expected).toBe(3);
+      expect(e.actual).toBe(2);
+      expect(e.message).toBe('Dimension mismatch: expected 3, received 2');
+    }
+    expect.assertions(4);
+  });
+
+  test('与 2D 向量共享默认算术体系', () => {
+    expect(a.operatorSystem).toBe(Vector.SYSTEM);
+  });
+});
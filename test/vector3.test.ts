@@ -0,0 +1,192 @@
+import Vector, { Vector3, RotationMatrix3 } from '../src/vector';
+import { BaseOperatorSystem } from '../src/operator-system';
+
+/* ----------------------------------------------------
+    构造与转换
+----------------------------------------------------- */
+describe('[Vector3] 构造 - 创建与转换', () => {
+  test('构造函数、fromArray、fromObject', () => {
+    expect(new Vector3(1, 2, 3).toString()).toBe('x:1, y:2, z:3');
+    expect(new Vector3().toArray()).toEqual(['0', '0', '0']);
+    expect(Vector3.fromArray([4, 5, 6]).toObject()).toEqual({
+      x: '4',
+      y: '5',
+      z: '6'
+    });
+    expect(Vector3.fromObject({ x: 1, z: 2 }).toString()).toBe(
+      'x:1, y:0, z:2'
+    );
+  });
+
+  test('与 2D 向量互相转换，保持算术体系', () => {
+    const vec = new Vector(1, 2).config({ system: 'base' });
+    const vec3 = Vector3.fromVector(vec, 3);
+    expect(vec3.toString()).toBe('x:1, y:2, z:3');
+    expect(vec3.operatorSystem).toBe(BaseOperatorSystem);
+    expect(Vector3.fromVector(vec).z).toBe('0');
+
+    const back = new Vector3(4, 5, 6).config({ system: 'base' }).toVector();
+    expect(back).toBeInstanceOf(Vector);
+    expect(back.toString()).toBe('x:4, y:5');
+    expect(back.operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('convertTo 转换算术体系', () => {
+    const vec = new Vector3(0.1, 0.2, 0.3).convertTo('rational');
+    expect(vec.toString()).toBe('x:1/10, y:1/5, z:3/10');
+  });
+});
+
+/* ----------------------------------------------------
+    基本运算
+----------------------------------------------------- */
+describe('[Vector3] 操作 - 加减乘除', () => {
+  const a = new Vector3(1, 2, 3);
+  const b = new Vector3(10, 20, 30);
+
+  test('单个坐标轴的运算只改变对应的轴', () => {
+    expect(a.addZ(b).toString()).toBe('x:1, y:2, z:33');
+    expect(a.subtractY(1).toString()).toBe('x:1, y:1, z:3');
+    expect(a.multiplyX(b).toString()).toBe('x:10, y:2, z:3');
+    expect(b.divideZ(3).toString()).toBe('x:10, y:20, z:10');
+    expect(a.invertZ().toString()).toBe('x:1, y:2, z:-3');
+  });
+
+  test('整体运算，原向量保持不变', () => {
+    expect(a.add(b).toString()).toBe('x:11, y:22, z:33');
+    expect(b.subtract(a).toString()).toBe('x:9, y:18, z:27');
+    expect(a.multiply(2).toString()).toBe('x:2, y:4, z:6');
+    expect(b.divide(10).toString()).toBe('x:1, y:2, z:3');
+    expect(a.invert().toString()).toBe('x:-1, y:-2, z:-3');
+    expect(a.toString()).toBe('x:1, y:2, z:3');
+  });
+
+  test('长度与单位化', () => {
+    const v = new Vector3(2, 3, 6);
+    expect(v.lengthSq).toBe('49');
+    expect(v.length).toBe('7');
+    expect(v.normalize().length).toBe('1');
+    expect(v.norm().toString()).toBe(v.normalize().toString());
+  });
+});
+
+/* ----------------------------------------------------
+    点积、叉积与投影
+----------------------------------------------------- */
+describe('[Vector3] 乘积 - dot、cross、tripleProduct', () => {
+  const i = new Vector3(1, 0, 0);
+  const j = new Vector3(0, 1, 0);
+  const k = new Vector3(0, 0, 1);
+
+  test('dot', () => {
+    expect(new Vector3(1, 2, 3).dot(new Vector3(4, 5, 6))).toBe('32');
+    expect(i.dot(j)).toBe('0');
+  });
+
+  test('cross 返回向量，满足右手定则', () => {
+    expect(i.cross(j).toString()).toBe('x:0, y:0, z:1');
+    expect(j.cross(k).toString()).toBe('x:1, y:0, z:0');
+    expect(k.cross(i).toString()).toBe('x:0, y:1, z:0');
+    expect(j.cross(i).toString()).toBe('x:0, y:0, z:-1');
+
+    const a = new Vector3(1, 2, 3);
+    const b = new Vector3(4, 5, 6);
+    const c = a.cross(b);
+    expect(c.toString()).toBe('x:-3, y:6, z:-3');
+    expect(c.dot(a)).toBe('0');
+    expect(c.dot(b)).toBe('0');
+  });
+
+  test('由叉积构建坐标系', () => {
+    const x = new Vector3(1, 1, 0);
+    const z = x.cross(new Vector3(0, 1, 0));
+    const y = z.cross(x);
+    expect(x.isPerpendicularTo(y)).toBe(true);
+    expect(y.isPerpendicularTo(z)).toBe(true);
+    expect(z.isPerpendicularTo(x)).toBe(true);
+  });
+
+  test('tripleProduct 为有向体积，共面时为 0', () => {
+    expect(i.tripleProduct(j, k)).toBe('1');
+    expect(j.tripleProduct(i, k)).toBe('-1');
+    expect(new Vector3(2, 0, 0).tripleProduct(j.multiply(3), k.multiply(4))).toBe(
+      '24'
+    );
+    expect(i.tripleProduct(j, i.add(j))).toBe('0');
+  });
+
+  test('projectOnto、projectOntoPlane', () => {
+    const v = new Vector3(1, 2, 3);
+    expect(v.projectOnto(new Vector3(0, 0, 2)).toString()).toBe(
+      'x:0, y:0, z:3'
+    );
+    expect(v.projectOntoPlane(k).toString()).toBe('x:1, y:2, z:0');
+    const onPlane = v.projectOntoPlane(new Vector3(1, 1, 1));
+    expect(onPlane.dot(new Vector3(1, 1, 1))).toBe('0');
+  });
+
+  test('angleBetween', () => {
+    expect(Number(i.angleBetween(k))).toBeCloseTo(Math.PI / 2, 15);
+    expect(Number(i.angleBetween(new Vector3(1, 1, 0)))).toBeCloseTo(
+      Math.PI / 4,
+      15
+    );
+    expect(Number(i.cosAngleBetween(i.multiply(5)))).toBe(1);
+  });
+});
+
+/* ----------------------------------------------------
+    工具方法
+----------------------------------------------------- */
+describe('[Vector3] 工具 - 距离与比较', () => {
+  const a = new Vector3(1, 2, 3);
+  const b = new Vector3(3, 4, 4);
+
+  test('distance', () => {
+    expect(a.distanceZ(b)).toBe('-1');
+    expect(a.absDistanceX(b)).toBe('2');
+    expect(a.distanceSq(b)).toBe('9');
+    expect(a.distance(b)).toBe('3');
+  });
+
+  test('isZero、isEqualTo', () => {
+    expect(new Vector3().isZero()).toBe(true);
+    expect(new Vector3(0, 0, 1e-12).isZero()).toBe(false);
+    expect(new Vector3(0, 0, 1e-12).isZero(1e-9)).toBe(true);
+    expect(a.isEqualTo(new Vector3(1, 2, 3))).toBe(true);
+    expect(a.isEqualTo(b)).toBe(false);
+    expect(a.isEqualTo(new Vector3(1, 2, 3.001), { absTol: 0.01 })).toBe(true);
+  });
+
+  test('isParallelTo、isPerpendicularTo、compareLength', () => {
+    expect(a.isParallelTo(a.multiply(-2))).toBe(true);
+    expect(a.isParallelTo(b)).toBe(false);
+    expect(a.isPerpendicularTo(new Vector3(3, 0, -1))).toBe(true);
+    expect(a.compareLength(b)).toBe(-1);
+    expect(b.compareLength(new Vector3(0, 0, 7))).toBe(-1);
+  });
+
+  test('不同算术体系混合时按 Vector.MIXED_POLICY 提升', () => {
+    const base = new Vector3(1, 2, 3).config({ system: 'base' });
+    expect(base.add(a).operatorSystem).toBe(a.operatorSystem);
+    expect(base.add(1).operatorSystem).toBe(BaseOperatorSystem);
+  });
+
+  test('混合体系时另一个操作数先转换到选定的体系', () => {
+    const r = new Vector3('1/2', '1/2', 0).config({ system: 'rational' });
+    // 区间按中点 (2, 0, 2) 转换成分数
+    const i = new Vector3('[1, 3]', '[-1, 1]', '[1, 3]').config({
+      system: 'interval'
+    });
+    expect(r.add(i).toString()).toBe('x:5/2, y:1/2, z:2');
+    expect(i.add(r).toString()).toBe('x:5/2, y:1/2, z:2');
+    expect(r.dot(i)).toBe('1');
+    expect(r.cross(i).toString()).toBe('x:1, y:-1, z:-1');
+    expect(r.projectOnto(i).toString()).toBe('x:1/4, y:0, z:1/4');
+    expect(r.compareLength(i)).toBe(-1);
+    const m = new RotationMatrix3(['[1, 3]', 0, 0, 0, 1, 0, 0, 0, 1]).config({
+      system: 'interval'
+    });
+    expect(r.transform(m).toString()).toBe('x:1, y:1/2, z:0');
+  });
+});